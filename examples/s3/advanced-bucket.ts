@@ -90,6 +90,9 @@ const dataBucket = new S3Component('data', {
   },
 });
 
+// Render the bucket policy, lifecycle configuration and key policy
+dataBucket.finalize();
+
 // Export bucket information
 export const dataBucketName = dataBucket.bucketName;
 export const dataBucketArn = dataBucket.bucketArn;
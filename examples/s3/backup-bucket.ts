@@ -6,10 +6,28 @@
  * - Event notifications for monitoring
  * - Enhanced security settings
  * - Cost-optimized storage classes
+ * - Cross-region replication for disaster recovery
  */
 
+import * as aws from '@pulumi/aws';
 import { S3Component, S3_COMMON_EVENTS } from 'modular-pulumi-aws-framework';
 
+// Disaster recovery copy of the backups in another region
+const drProvider = new aws.Provider('dr', { region: 'us-west-2' });
+
+const drBucket = new S3Component(
+  'backups-dr',
+  {
+    name: 'my-company-backups-dr-bucket',
+    tags: {
+      Environment: 'production',
+      Project: 'backup-system',
+      BackupType: 'disaster-recovery',
+    },
+  },
+  { provider: drProvider }
+);
+
 // Create a bucket optimized for backup storage
 const backupBucket = new S3Component('backups', {
   name: 'my-company-backups-bucket',
@@ -27,11 +45,11 @@ const backupBucket = new S3Component('backups', {
       enabled: true,
       transitions: [
         {
-          days: 7,
+          days: 30,
           storageClass: 'STANDARD_IA',
         },
         {
-          days: 30,
+          days: 60,
           storageClass: 'GLACIER',
         },
         {
@@ -44,11 +62,8 @@ const backupBucket = new S3Component('backups', {
       id: 'database-backups',
       enabled: true,
       prefix: 'database/',
+      // STANDARD_IA needs 30 days, so database backups go straight to Glacier
       transitions: [
-        {
-          days: 1,
-          storageClass: 'STANDARD_IA',
-        },
         {
           days: 7,
           storageClass: 'GLACIER',
@@ -95,6 +110,18 @@ const backupBucket = new S3Component('backups', {
     },
   ],
 
+  // Replicate database backups to the DR region within 15 minutes
+  replication: {
+    destinations: [
+      {
+        bucket: drBucket,
+        prefix: 'database/',
+        storageClass: 'STANDARD_IA',
+        replicationTime: true,
+      },
+    ],
+  },
+
   // Event notifications for backup monitoring
   notification: {
     lambdaFunctions: [
@@ -132,8 +159,13 @@ const backupMonitoringRead = backupBucket.grantReadAccess(
   'arn:aws:iam::123456789012:role/BackupMonitoringRole'
 );
 
+// Seal both buckets once the last grant has been made
+backupBucket.finalize();
+drBucket.finalize();
+
 // Export backup bucket information
 export const backupBucketName = backupBucket.bucketName;
 export const backupBucketArn = backupBucket.bucketArn;
+export const drBucketArn = drBucket.bucketArn;
 export const backupServicePolicy = backupServiceReadWrite;
 export const monitoringPolicy = backupMonitoringRead;
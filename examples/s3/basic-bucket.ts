@@ -21,6 +21,9 @@ const documentsBucket = new S3Component('documents', {
   },
 });
 
+// Render the bucket policy and lifecycle configuration
+documentsBucket.finalize();
+
 // Export bucket information
 export const bucketName = documentsBucket.bucketName;
 export const bucketArn = documentsBucket.bucketArn;
@@ -1,25 +1,20 @@
 /**
  * Static Website Hosting Example
  *
- * This example demonstrates creating an S3 bucket configured for static website hosting:
- * - Website configuration with index and error documents
+ * This example demonstrates serving a static website from a private S3 bucket:
+ * - CloudFront distribution in front of the bucket
+ * - Origin Access Control, so only the distribution can read objects
+ * - Public access stays blocked; no S3 website endpoint
  * - CORS rules for web access
- * - Public read access (carefully configured)
- * - CloudFront-friendly settings
  */
 
+import * as aws from '@pulumi/aws';
 import { S3Component } from 'modular-pulumi-aws-framework';
 
-// Create a bucket for static website hosting
+// Create a private bucket for the website content
 const websiteBucket = new S3Component('website', {
   name: 'my-company-website-bucket',
 
-  // Configure for static website hosting
-  website: {
-    indexDocument: 'index.html',
-    errorDocument: 'error.html',
-  },
-
   // CORS configuration for web browsers
   corsRules: [
     {
@@ -48,11 +43,6 @@ const websiteBucket = new S3Component('website', {
     },
   ],
 
-  // Note: For public website access, you would need to:
-  // 1. Set blockPublicAcls: false, blockPublicPolicy: false, etc.
-  // 2. Add a bucket policy allowing public read access
-  // 3. Or better yet, use CloudFront with Origin Access Control
-
   tags: {
     Environment: 'production',
     Project: 'company-website',
@@ -61,17 +51,44 @@ const websiteBucket = new S3Component('website', {
   },
 });
 
-// Create a secure policy that allows CloudFront access
-// This is the recommended approach instead of making the bucket public
-const cloudfrontPolicy = websiteBucket.createSecurePolicy({
-  allowCloudFront: true,
-  denyInsecureTransport: true,
-  enforceSSL: true,
+// CloudFront signs its requests to the bucket with the Origin Access Control
+const originAccessControl = websiteBucket.createOriginAccessControl();
+
+const distribution = new aws.cloudfront.Distribution('website', {
+  enabled: true,
+  defaultRootObject: 'index.html',
+  origins: [
+    {
+      originId: 'website-bucket',
+      domainName: websiteBucket.bucketRegionalDomainName,
+      originAccessControlId: originAccessControl.id,
+    },
+  ],
+  defaultCacheBehavior: {
+    targetOriginId: 'website-bucket',
+    viewerProtocolPolicy: 'redirect-to-https',
+    allowedMethods: ['GET', 'HEAD'],
+    cachedMethods: ['GET', 'HEAD'],
+    compress: true,
+    // Managed CachingOptimized cache policy
+    cachePolicyId: '658327ea-f89d-4fab-a63d-7e88639e58f6',
+  },
+  customErrorResponses: [{ errorCode: 403, responseCode: 404, responsePagePath: '/error.html' }],
+  restrictions: {
+    geoRestriction: { restrictionType: 'none' },
+  },
+  viewerCertificate: {
+    cloudfrontDefaultCertificate: true,
+  },
 });
 
+// Only this distribution can read the website's objects
+const cloudfrontPolicy = websiteBucket.grantCloudFrontAccess(distribution.arn);
+
+websiteBucket.finalize();
+
 // Export website information
 export const websiteBucketName = websiteBucket.bucketName;
 export const websiteBucketArn = websiteBucket.bucketArn;
-export const websiteEndpoint = websiteBucket.websiteEndpoint;
-export const websiteDomain = websiteBucket.websiteDomain;
+export const websiteDomain = distribution.domainName;
 export const websitePolicy = cloudfrontPolicy;
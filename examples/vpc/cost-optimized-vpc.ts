@@ -2,7 +2,7 @@
  * Cost-Optimized VPC Example
  *
  * This example demonstrates creating a VPC optimized for cost in development/testing:
- * - Single NAT Gateway for cost savings
+ * - NAT instance instead of a NAT Gateway for cost savings
  * - Fewer availability zones
  * - Smaller subnet allocations
  * - Development-appropriate configurations
@@ -15,7 +15,8 @@ const devNetwork = new VpcComponent('dev', {
   name: 'dev-vpc',
   cidrBlock: '10.10.0.0/16',
   enableNatGateway: true,
-  multiAzNatGateway: false, // Single NAT Gateway to reduce costs
+  natMode: 'instance', // fck-nat on a t4g.nano instead of a ~$32/month NAT Gateway
+  multiAzNatGateway: false, // Single NAT instance to reduce costs
   availabilityZoneCount: 2, // Minimum for redundancy but cost-effective
   enableDnsHostnames: true,
   enableDnsSupport: true,
@@ -4,16 +4,18 @@
  * This example demonstrates creating VPCs across multiple regions with:
  * - Consistent CIDR block allocation to avoid conflicts
  * - Standardized naming conventions
- * - Preparation for cross-region connectivity (VPC peering, Transit Gateway)
+ * - Cross-region VPC peering with routes on both sides
  * - Region-specific configurations
  */
 
-import { VpcComponent } from 'modular-pulumi-aws-framework';
+import * as aws from '@pulumi/aws';
+import { VpcComponent, VpcPeeringComponent } from 'modular-pulumi-aws-framework';
 
 // Primary region VPC (us-east-1)
 const primaryVpc = new VpcComponent('primary', {
   name: 'primary-vpc',
   cidrBlock: '10.0.0.0/16', // Primary region CIDR
+  connectedCidrBlocks: ['10.1.0.0/16'], // Let the peered secondary VPC through the network ACLs
   enableNatGateway: true,
   multiAzNatGateway: true,
   availabilityZoneCount: 3,
@@ -25,30 +27,45 @@ const primaryVpc = new VpcComponent('primary', {
   },
 });
 
-// Secondary region VPC (us-west-2) - would need to be deployed with different AWS provider
-const secondaryVpcConfig = {
-  name: 'secondary-vpc',
-  cidrBlock: '10.1.0.0/16', // Non-overlapping CIDR for secondary region
-  enableNatGateway: true,
-  multiAzNatGateway: false, // Cost optimization for secondary region
-  availabilityZoneCount: 2, // Fewer AZs for cost optimization
+// Secondary region VPC (us-west-2), deployed through a provider for that region
+const westProvider = new aws.Provider('us-west-2', { region: 'us-west-2' });
+
+const secondaryVpc = new VpcComponent(
+  'secondary',
+  {
+    name: 'secondary-vpc',
+    cidrBlock: '10.1.0.0/16', // Non-overlapping CIDR for secondary region
+    connectedCidrBlocks: ['10.0.0.0/16'], // Let the peered primary VPC through the network ACLs
+    enableNatGateway: true,
+    multiAzNatGateway: false, // Cost optimization for secondary region
+    availabilityZoneCount: 2, // Fewer AZs for cost optimization
+    tags: {
+      Environment: 'production',
+      Project: 'global-platform',
+      Region: 'secondary',
+      Role: 'dr-workloads',
+    },
+  },
+  { provider: westProvider }
+);
+
+// Peer the regions so private workloads can reach each other
+const regionPeering = new VpcPeeringComponent('primary-secondary', {
+  name: 'primary-secondary',
+  requester: { vpc: primaryVpc, routeTiers: ['private'] },
+  accepter: { vpc: secondaryVpc, routeTiers: ['private'], provider: westProvider },
   tags: {
     Environment: 'production',
     Project: 'global-platform',
-    Region: 'secondary',
-    Role: 'dr-workloads',
   },
-};
-
-// Note: To actually deploy to multiple regions, you would need to:
-// 1. Configure multiple AWS providers with different regions
-// 2. Create separate VPC components with each provider
-// 3. Set up VPC peering or Transit Gateway for connectivity
+});
 
 // Export primary VPC information
 export const primaryVpcId = primaryVpc.vpcId;
 export const primaryPublicSubnetIds = primaryVpc.publicSubnetIds;
 export const primaryPrivateSubnetIds = primaryVpc.privateSubnetIds;
 
-// Export secondary VPC configuration for reference
-export const secondaryVpcConfigExport = secondaryVpcConfig;
+// Export secondary VPC information
+export const secondaryVpcId = secondaryVpc.vpcId;
+export const secondaryPrivateSubnetIds = secondaryVpc.privateSubnetIds;
+export const regionPeeringConnectionId = regionPeering.peeringConnectionId;
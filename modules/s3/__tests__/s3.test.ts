@@ -8,8 +8,51 @@ import {
   validateBucketName,
   generateSecureBucketName,
   createSecureBucketPolicy,
+  mergeBucketPolicies,
+  createReplicationPolicy,
+  validateReplicationConfig,
+  validateObjectLockConfig,
+  validateEncryptionConfig,
+  validateGrant,
+  createGrantPolicy,
+  validateLoggingConfig,
+  createLogBucketLifecycleRules,
+  validateIntelligentTieringConfig,
+  validateInventoryConfig,
+  validateAnalyticsConfig,
 } from '../defaults';
-import { S3_DEFAULTS } from '../defaults';
+import { S3_DEFAULTS, validateLifecycleRules } from '../defaults';
+import * as aws from '@pulumi/aws';
+import * as pulumi from '@pulumi/pulumi';
+
+const renderBucketPolicy = () => {
+  const calls = (aws.s3.BucketPolicy as unknown as jest.Mock).mock.calls;
+  return JSON.parse(calls[calls.length - 1][1].policy.render());
+};
+
+const renderKeyPolicy = () => {
+  const calls = (aws.kms.Key as unknown as jest.Mock).mock.calls;
+  return JSON.parse(calls[calls.length - 1][1].policy.render());
+};
+
+const renderLifecycleRules = () => {
+  const calls = (aws.s3.BucketLifecycleConfigurationV2 as unknown as jest.Mock).mock.calls;
+  return calls[calls.length - 1][1].rules.render();
+};
+
+// The promise the last deferred render is waiting for
+const lastPendingRender = (): Promise<unknown> | undefined => {
+  const promises = (pulumi.output as unknown as jest.Mock).mock.calls
+    .map(([value]) => value)
+    .filter(value => value instanceof Promise);
+  return promises[promises.length - 1];
+};
+
+const isSettled = (promise: Promise<unknown> | undefined) =>
+  Promise.race([
+    promise?.then(() => true),
+    new Promise(resolve => setTimeout(() => resolve(false), 0)),
+  ]);
 
 // Mock Pulumi AWS
 jest.mock('@pulumi/aws', () => ({
@@ -39,6 +82,32 @@ jest.mock('@pulumi/aws', () => ({
     BucketNotification: jest.fn(),
     BucketAccelerateConfigurationV2: jest.fn(),
     BucketRequestPaymentConfigurationV2: jest.fn(),
+    BucketReplicationConfig: jest.fn(),
+    BucketObjectLockConfigurationV2: jest.fn(),
+    BucketIntelligentTieringConfiguration: jest.fn(),
+    Inventory: jest.fn(),
+    AnalyticsConfiguration: jest.fn(),
+  },
+  cloudfront: {
+    OriginAccessControl: jest.fn().mockImplementation(() => ({ id: 'oac-1234' })),
+  },
+  kms: {
+    Key: jest.fn().mockImplementation(() => ({
+      arn: 'arn:aws:kms:us-east-1:123456789012:key/bucket',
+      keyId: 'bucket',
+    })),
+    Alias: jest.fn(),
+  },
+  getCallerIdentityOutput: jest.fn(() => ({
+    accountId: { apply: jest.fn(fn => fn('123456789012')) },
+  })),
+  getRegionOutput: jest.fn(() => ({ name: 'us-east-1' })),
+  iam: {
+    Role: jest.fn().mockImplementation(() => ({
+      id: 'replication-role',
+      arn: 'arn:aws:iam::123456789012:role/replication',
+    })),
+    RolePolicy: jest.fn(),
   },
 }));
 
@@ -47,8 +116,30 @@ jest.mock('@pulumi/pulumi', () => ({
   ComponentResource: class MockComponentResource {
     registerOutputs = jest.fn();
   },
-  all: jest.fn(args => ({ apply: jest.fn(fn => fn(args)) })),
+  all: jest.fn(args => ({
+    apply: jest.fn(fn =>
+      fn(
+        args.map((arg: any) =>
+          arg && typeof arg.apply === 'function' ? arg.apply((v: unknown) => v) : arg
+        )
+      )
+    ),
+  })),
   interpolate: jest.fn(template => template),
+  runtime: {
+    hasEngine: jest.fn(() => false),
+  },
+  // Outputs waiting for the program to finish are rendered explicitly by the tests
+  output: jest.fn(value => ({
+    apply: jest.fn(fn => {
+      if (value instanceof Promise) {
+        return { render: fn };
+      }
+      return fn(
+        value && typeof value.apply === 'function' ? value.apply((v: unknown) => v) : value
+      );
+    }),
+  })),
   Output: {
     create: jest.fn(value => ({
       apply: jest.fn(fn => fn(value)),
@@ -253,6 +344,831 @@ describe('S3Component', () => {
       expect(bucket).toBeDefined();
       expect(bucket.bucketPolicy).toBeDefined();
     });
+
+    it('should reject invalid lifecycle rules on creation', () => {
+      expect(() => {
+        new S3Component('test', {
+          name: 'test-bucket',
+          lifecycleRules: [{ id: 'ia', transitions: [{ days: 7, storageClass: 'STANDARD_IA' }] }],
+        });
+      }).toThrow('Invalid lifecycle rules');
+    });
+  });
+
+  describe('Replication', () => {
+    const destinationArn = 'arn:aws:s3:::replica-bucket';
+
+    it('should create the replication role and one rule per destination', () => {
+      const bucket = new S3Component('test', {
+        name: 'test-bucket',
+        versioning: { mfaDelete: false },
+        replication: {
+          destinations: [
+            { bucket: destinationArn, prefix: 'data/', replicateDeleteMarkers: true },
+            {
+              bucket: 'arn:aws:s3:::dr-bucket',
+              id: 'dr',
+              tags: { Replicate: 'true' },
+              storageClass: 'GLACIER_IR',
+              account: '210987654321',
+              kmsKeyArn: 'arn:aws:kms:us-west-2:210987654321:key/replica',
+              replicationTime: true,
+            },
+          ],
+        },
+      });
+
+      expect(bucket.replicationRole).toBeDefined();
+      expect(bucket.replication).toBeDefined();
+      expect(aws.iam.Role).toHaveBeenCalledWith(
+        'test-replication-role',
+        expect.objectContaining({
+          assumeRolePolicy: expect.stringContaining('s3.amazonaws.com'),
+        }),
+        expect.anything()
+      );
+      expect((aws.s3.BucketVersioningV2 as unknown as jest.Mock).mock.calls[0][1]).toMatchObject({
+        versioningConfiguration: { status: 'Enabled' },
+      });
+
+      const [, replicationArgs, replicationOpts] = (
+        aws.s3.BucketReplicationConfig as unknown as jest.Mock
+      ).mock.calls[0];
+      expect(replicationArgs.role).toBe('arn:aws:iam::123456789012:role/replication');
+      expect(replicationArgs.rules).toEqual([
+        {
+          id: 'replicate-0',
+          priority: 0,
+          status: 'Enabled',
+          filter: { prefix: 'data/' },
+          deleteMarkerReplication: { status: 'Enabled' },
+          destination: { bucket: destinationArn },
+        },
+        {
+          id: 'dr',
+          priority: 1,
+          status: 'Enabled',
+          filter: { tag: { key: 'Replicate', value: 'true' } },
+          deleteMarkerReplication: { status: 'Disabled' },
+          sourceSelectionCriteria: { sseKmsEncryptedObjects: { status: 'Enabled' } },
+          destination: {
+            bucket: 'arn:aws:s3:::dr-bucket',
+            storageClass: 'GLACIER_IR',
+            account: '210987654321',
+            accessControlTranslation: { owner: 'Destination' },
+            encryptionConfiguration: {
+              replicaKmsKeyId: 'arn:aws:kms:us-west-2:210987654321:key/replica',
+            },
+            replicationTime: { status: 'Enabled', time: { minutes: 15 } },
+            metrics: { status: 'Enabled', eventThreshold: { minutes: 15 } },
+          },
+        },
+      ]);
+      expect(replicationOpts.dependsOn).toHaveLength(2);
+
+      const policy = JSON.parse(
+        (aws.iam.RolePolicy as unknown as jest.Mock).mock.calls[0][1].policy
+      );
+      expect(policy.Statement.map((statement: { Sid: string }) => statement.Sid)).toEqual([
+        'ReadSourceBucket',
+        'ReadSourceObjects',
+        'ReplicateObjects',
+        'ReplicateDeleteMarkers',
+        'TransferReplicaOwnership',
+        'EncryptReplicas',
+      ]);
+    });
+
+    it('should combine prefix and tag filters', () => {
+      new S3Component('test', {
+        name: 'test-bucket',
+        replication: {
+          destinations: [{ bucket: destinationArn, prefix: 'logs/', tags: { Tier: 'gold' } }],
+        },
+      });
+
+      const rules = (aws.s3.BucketReplicationConfig as unknown as jest.Mock).mock.calls[0][1].rules;
+      expect(rules[0].filter).toEqual({ and: { prefix: 'logs/', tags: { Tier: 'gold' } } });
+    });
+
+    it('should replicate to S3 components and wait for their versioning', () => {
+      const replica = new S3Component('replica', { name: 'replica-bucket' });
+      new S3Component('test', {
+        name: 'test-bucket',
+        replication: { destinations: [{ bucket: replica }] },
+      });
+
+      const [, replicationArgs, replicationOpts] = (
+        aws.s3.BucketReplicationConfig as unknown as jest.Mock
+      ).mock.calls[0];
+      expect(replicationArgs.rules[0].destination.bucket).toBe(replica.bucketArn);
+      expect(replicationOpts.dependsOn).toContain(replica.versioning);
+    });
+
+    it('should encrypt replicas with the key of S3 components that created one', () => {
+      (aws.kms.Key as unknown as jest.Mock).mockImplementationOnce(() => ({
+        arn: 'arn:aws:kms:us-west-2:123456789012:key/replica',
+        keyId: 'replica',
+      }));
+      const replica = new S3Component('replica', {
+        name: 'replica-bucket',
+        encryption: { createKmsKey: true },
+      });
+      new S3Component('test', {
+        name: 'test-bucket',
+        replication: { destinations: [{ bucket: replica }] },
+      });
+
+      const rule = (aws.s3.BucketReplicationConfig as unknown as jest.Mock).mock.calls[0][1]
+        .rules[0];
+      expect(rule.destination.encryptionConfiguration).toEqual({
+        replicaKmsKeyId: 'arn:aws:kms:us-west-2:123456789012:key/replica',
+      });
+
+      const replicaKeyPolicy = JSON.parse(
+        (aws.kms.Key as unknown as jest.Mock).mock.calls[0][1].policy.render()
+      );
+      expect(replicaKeyPolicy.Statement).toContainEqual(
+        expect.objectContaining({
+          Sid: 'AllowReplicaEncryption',
+          Principal: { AWS: ['arn:aws:iam::123456789012:role/replication'] },
+          Action: ['kms:Encrypt', 'kms:GenerateDataKey'],
+        })
+      );
+    });
+
+    it('should refuse to replicate without versioning', () => {
+      expect(() => {
+        new S3Component('test', {
+          name: 'test-bucket',
+          versioning: { enabled: false },
+          replication: { destinations: [{ bucket: destinationArn }] },
+        });
+      }).toThrow('Replication requires versioning');
+
+      const unversioned = new S3Component('replica', {
+        name: 'replica-bucket',
+        versioning: { enabled: false },
+      });
+      expect(() => {
+        new S3Component('test', {
+          name: 'test-bucket',
+          replication: { destinations: [{ bucket: unversioned }] },
+        });
+      }).toThrow("destination of rule 'replicate-0' must have versioning enabled");
+    });
+  });
+
+  describe('Object Lock', () => {
+    it('should enable Object Lock at creation with a default retention', () => {
+      const bucket = new S3Component('audit', {
+        name: 'audit-logs',
+        versioning: { mfaDelete: false },
+        objectLock: { mode: 'COMPLIANCE', years: 7 },
+      });
+
+      expect(bucket.objectLock).toBeDefined();
+      expect(aws.s3.Bucket).toHaveBeenCalledWith(
+        'audit-bucket',
+        expect.objectContaining({ objectLockConfiguration: { objectLockEnabled: 'Enabled' } }),
+        expect.anything()
+      );
+      expect((aws.s3.BucketVersioningV2 as unknown as jest.Mock).mock.calls[0][1]).toMatchObject({
+        versioningConfiguration: { status: 'Enabled' },
+      });
+      const [name, lockArgs, lockOpts] = (
+        aws.s3.BucketObjectLockConfigurationV2 as unknown as jest.Mock
+      ).mock.calls[0];
+      expect(name).toBe('audit-object-lock');
+      expect(lockArgs).toMatchObject({
+        objectLockEnabled: 'Enabled',
+        rule: { defaultRetention: { mode: 'COMPLIANCE', years: 7 } },
+      });
+      expect(lockOpts.dependsOn).toEqual([bucket.versioning]);
+    });
+
+    it('should not enable Object Lock by default', () => {
+      const bucket = new S3Component('test', { name: 'test-bucket' });
+
+      expect(bucket.objectLock).toBeUndefined();
+      expect((aws.s3.Bucket as unknown as jest.Mock).mock.calls[0][1]).not.toHaveProperty(
+        'objectLockConfiguration'
+      );
+    });
+
+    it('should refuse configurations that would delete locked objects', () => {
+      expect(() => {
+        new S3Component('audit', {
+          name: 'audit-logs',
+          forceDestroy: true,
+          versioning: { enabled: false },
+          lifecycleRules: [{ id: 'expire', expiration: { days: 30 } }],
+          objectLock: { mode: 'GOVERNANCE', days: 90 },
+        });
+      }).toThrow(
+        "Invalid Object Lock configuration: Object Lock cannot be combined with forceDestroy: true, Object Lock requires versioning; remove versioning.enabled: false, Lifecycle rule 'expire' expires objects after 30 days, before the 90-day Object Lock retention ends"
+      );
+    });
+
+    it('should refuse lifecycle rules added later that expire objects before retention ends', () => {
+      const bucket = new S3Component('audit', {
+        name: 'audit-logs',
+        objectLock: { mode: 'COMPLIANCE', years: 1 },
+      });
+
+      expect(() => {
+        bucket.addLifecycleRule({ id: 'expire', expiration: { days: 364 } });
+      }).toThrow('before the 365-day Object Lock retention ends');
+      expect(() => {
+        bucket.addLifecycleRule({ id: 'expire', expiration: { days: 365 } });
+      }).not.toThrow();
+    });
+
+    it('should keep noncurrent versions until retention ends with the default lifecycle', () => {
+      new S3Component('audit', {
+        name: 'audit-logs',
+        objectLock: { mode: 'COMPLIANCE', years: 1 },
+      });
+
+      expect(renderLifecycleRules()).toContainEqual(
+        expect.objectContaining({
+          id: 'noncurrent-version-expiration',
+          noncurrentVersionExpiration: { noncurrentDays: 365 },
+        })
+      );
+      expect(
+        validateObjectLockConfig(
+          { mode: 'COMPLIANCE', years: 1 },
+          { lifecycleRules: S3_DEFAULTS.lifecycle }
+        ).errors
+      ).toEqual([
+        "Lifecycle rule 'noncurrent-version-expiration' expires noncurrent versions after 30 days, before the 365-day Object Lock retention ends",
+      ]);
+    });
+
+    it('should require exactly one retention period', () => {
+      expect(validateObjectLockConfig({ mode: 'GOVERNANCE' }).errors).toEqual([
+        'Object Lock retention needs exactly one of days or years',
+      ]);
+      expect(validateObjectLockConfig({ mode: 'GOVERNANCE', days: 1, years: 1 }).errors).toEqual([
+        'Object Lock retention needs exactly one of days or years',
+      ]);
+      expect(validateObjectLockConfig({ mode: 'GOVERNANCE', days: 0.5 }).errors).toEqual([
+        'Object Lock retention period must be a positive whole number',
+      ]);
+    });
+  });
+
+  describe('KMS Key', () => {
+    const reader = 'arn:aws:iam::123456789012:role/reader';
+    const writer = 'arn:aws:iam::123456789012:role/writer';
+
+    it('should create a rotated key with an alias and encrypt the bucket with it', () => {
+      const bucket = new S3Component('data', {
+        name: 'data.example.com',
+        encryption: { createKmsKey: true },
+      });
+
+      expect(bucket.kmsKey).toBeDefined();
+      expect(bucket.kmsKeyAlias).toBeDefined();
+      expect(aws.kms.Key).toHaveBeenCalledWith(
+        'data-key',
+        expect.objectContaining({ enableKeyRotation: true, deletionWindowInDays: 30 }),
+        expect.anything()
+      );
+      expect(aws.kms.Alias).toHaveBeenCalledWith(
+        'data-key-alias',
+        { name: 'alias/s3/data-example-com', targetKeyId: 'bucket' },
+        expect.anything()
+      );
+      expect(
+        (aws.s3.BucketServerSideEncryptionConfigurationV2 as unknown as jest.Mock).mock.calls[0][1]
+          .rules
+      ).toEqual([
+        {
+          applyServerSideEncryptionByDefault: {
+            sseAlgorithm: 'aws:kms',
+            kmsMasterKeyId: 'arn:aws:kms:us-east-1:123456789012:key/bucket',
+          },
+          bucketKeyEnabled: true,
+        },
+      ]);
+    });
+
+    it('should add KMS permissions for grants to the key policy', () => {
+      const bucket = new S3Component('data', {
+        name: 'data-bucket',
+        encryption: { createKmsKey: { alias: 'alias/data' } },
+      });
+      bucket.grantReadAccess(reader);
+      bucket.grantReadAccess(writer);
+      bucket.grantWriteAccess(writer);
+
+      const policy = renderKeyPolicy();
+      expect(policy.Statement[0]).toMatchObject({
+        Sid: 'KeyAdministration',
+        Principal: { AWS: ['arn:aws:iam::123456789012:root'] },
+      });
+      expect(policy.Statement[0].Action).not.toContain('kms:Decrypt');
+      expect(policy.Statement.slice(1)).toEqual([
+        {
+          Sid: 'GrantReadAccess',
+          Effect: 'Allow',
+          Action: ['kms:Decrypt'],
+          Resource: '*',
+          Principal: { AWS: [reader, writer] },
+          Condition: {
+            StringEquals: { 'kms:ViaService': 's3.us-east-1.amazonaws.com' },
+            StringLike: {
+              'kms:EncryptionContext:aws:s3:arn': [
+                'arn:aws:s3:::test-bucket',
+                'arn:aws:s3:::test-bucket/*',
+              ],
+            },
+          },
+        },
+        expect.objectContaining({
+          Sid: 'GrantWriteAccess',
+          Action: ['kms:GenerateDataKey', 'kms:Decrypt'],
+          Principal: { AWS: [writer] },
+        }),
+      ]);
+    });
+
+    it('should let the replication role decrypt with the key', () => {
+      new S3Component('data', {
+        name: 'data-bucket',
+        encryption: { createKmsKey: true },
+        replication: {
+          destinations: [{ bucket: 'arn:aws:s3:::replica', kmsKeyArn: 'arn:aws:kms:key/replica' }],
+        },
+      });
+
+      expect(renderKeyPolicy().Statement[1]).toMatchObject({
+        Sid: 'AllowReplication',
+        Action: ['kms:Decrypt'],
+        Principal: { AWS: ['arn:aws:iam::123456789012:role/replication'] },
+      });
+      const replicationPolicy = JSON.parse(
+        (aws.iam.RolePolicy as unknown as jest.Mock).mock.calls[0][1].policy
+      );
+      expect(replicationPolicy.Statement).toContainEqual(
+        expect.objectContaining({
+          Sid: 'DecryptSourceObjects',
+          Resource: 'arn:aws:kms:us-east-1:123456789012:key/bucket',
+        })
+      );
+    });
+
+    it('should refuse grants once the component has been finalized', () => {
+      const bucket = new S3Component('data', {
+        name: 'data-bucket',
+        encryption: { createKmsKey: true },
+      });
+      bucket.finalize();
+
+      expect(() => bucket.grantReadAccess(reader)).toThrow(
+        "Cannot add to the KMS key policy of S3 component 'data': it has been finalized."
+      );
+    });
+
+    it('should add grants to the key policy after the program awaits other work', async () => {
+      const bucket = new S3Component('data', {
+        name: 'data-bucket',
+        encryption: { createKmsKey: true },
+      });
+      const finalization = lastPendingRender();
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(await isSettled(finalization)).toBe(false);
+      bucket.grantReadAccess(reader);
+
+      bucket.finalize();
+      expect(await isSettled(finalization)).toBe(true);
+      expect(renderKeyPolicy().Statement[1]).toMatchObject({
+        Sid: 'GrantReadAccess',
+        Action: ['kms:Decrypt'],
+      });
+    });
+
+    it('should not add KMS permissions without a created key', () => {
+      const bucket = new S3Component('data', { name: 'data-bucket' });
+      bucket.grantReadAccess(reader);
+
+      expect(bucket.kmsKey).toBeUndefined();
+      expect(aws.kms.Key).not.toHaveBeenCalled();
+    });
+
+    it('should limit KMS permissions for service principals to the source', () => {
+      const bucket = new S3Component('data', {
+        name: 'data-bucket',
+        encryption: { createKmsKey: true },
+      });
+      bucket.grantWriteAccess({
+        service: 'delivery.logs.amazonaws.com',
+        sourceAccount: '123456789012',
+      });
+
+      expect(renderKeyPolicy().Statement[1]).toMatchObject({
+        Sid: 'GrantWriteAccess',
+        Principal: { Service: ['delivery.logs.amazonaws.com'] },
+        Condition: {
+          StringEquals: {
+            'kms:ViaService': 's3.us-east-1.amazonaws.com',
+            'aws:SourceAccount': '123456789012',
+          },
+        },
+      });
+    });
+
+    it('should reject conflicting encryption settings', () => {
+      expect(
+        validateEncryptionConfig({
+          createKmsKey: { alias: 'data' },
+          kmsKeyId: 'existing',
+          sseAlgorithm: 'AES256',
+        }).errors
+      ).toEqual([
+        'createKmsKey cannot be combined with kmsKeyId',
+        'createKmsKey requires KMS encryption, not AES256',
+        "KMS key alias 'data' must start with alias/ and use only a-z, 0-9, /, _ and -",
+      ]);
+      expect(() => {
+        new S3Component('data', {
+          name: 'data-bucket',
+          encryption: { createKmsKey: true },
+          replication: { destinations: [{ bucket: 'arn:aws:s3:::replica' }] },
+        });
+      }).toThrow('a kmsKeyArn is required to replicate KMS-encrypted objects');
+    });
+  });
+
+  describe('CloudFront Origin Access Control', () => {
+    const distributionArn = 'arn:aws:cloudfront::123456789012:distribution/EDFDVBD6EXAMPLE';
+
+    it('should create one origin access control that signs every request', () => {
+      const bucket = new S3Component('site', { name: 'site-bucket' });
+      const oac = bucket.createOriginAccessControl();
+
+      expect(bucket.createOriginAccessControl()).toBe(oac);
+      expect(bucket.originAccessControl).toBe(oac);
+      expect(aws.cloudfront.OriginAccessControl).toHaveBeenCalledTimes(1);
+      expect(aws.cloudfront.OriginAccessControl).toHaveBeenCalledWith(
+        'site-oac',
+        expect.objectContaining({
+          originAccessControlOriginType: 's3',
+          signingBehavior: 'always',
+          signingProtocol: 'sigv4',
+        }),
+        expect.objectContaining({ parent: bucket })
+      );
+    });
+
+    it('should only let the distribution read objects', () => {
+      const bucket = new S3Component('site', { name: 'site-bucket' });
+      bucket.grantCloudFrontAccess(distributionArn);
+
+      expect(aws.cloudfront.OriginAccessControl).toHaveBeenCalledTimes(1);
+      expect(renderBucketPolicy().Statement).toEqual([
+        {
+          Sid: 'AllowCloudFrontServicePrincipal',
+          Effect: 'Allow',
+          Principal: { Service: 'cloudfront.amazonaws.com' },
+          Action: 's3:GetObject',
+          Resource: 'arn:aws:s3:::test-bucket/*',
+          Condition: { StringEquals: { 'AWS:SourceArn': distributionArn } },
+        },
+      ]);
+    });
+
+    it('should let the distribution decrypt with the bucket key', () => {
+      const bucket = new S3Component('site', {
+        name: 'site-bucket',
+        encryption: { createKmsKey: true },
+      });
+      bucket.grantCloudFrontAccess(distributionArn);
+
+      expect(renderKeyPolicy().Statement[1]).toMatchObject({
+        Sid: 'AllowCloudFrontServicePrincipal',
+        Action: ['kms:Decrypt'],
+        Principal: { Service: ['cloudfront.amazonaws.com'] },
+        Condition: { ArnLike: { 'aws:SourceArn': distributionArn } },
+      });
+    });
+
+    it('should refuse origin access control for website buckets', () => {
+      const bucket = new S3Component('site', {
+        name: 'site-bucket',
+        website: { indexDocument: 'index.html' },
+      });
+
+      expect(() => bucket.grantCloudFrontAccess(distributionArn)).toThrow(
+        'Origin Access Control does not work with S3 website endpoints'
+      );
+      expect(aws.cloudfront.OriginAccessControl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Access Logging', () => {
+    it('should finalize the log bucket it created with the bucket', () => {
+      const bucket = new S3Component('app', { name: 'app-bucket', logging: {} });
+      bucket.finalize();
+
+      expect(() =>
+        bucket.logBucket?.grantReadAccess('arn:aws:iam::123456789012:role/reader')
+      ).toThrow(
+        "Cannot add to the bucket policy of S3 component 'app-logs': it has been finalized."
+      );
+    });
+
+    it('should create a hardened log bucket when no target bucket is given', () => {
+      const bucket = new S3Component('app', { name: 'app-bucket', logging: {} });
+
+      expect(bucket.logBucket).toBeInstanceOf(S3Component);
+      expect(aws.s3.Bucket).toHaveBeenCalledWith(
+        'app-logs-bucket',
+        expect.objectContaining({ bucket: 'app-bucket-logs' }),
+        expect.anything()
+      );
+      expect(aws.s3.BucketOwnershipControls).toHaveBeenCalledWith(
+        'app-logs-ownership',
+        expect.objectContaining({ rule: { objectOwnership: 'BucketOwnerEnforced' } }),
+        expect.anything()
+      );
+      expect(aws.s3.BucketLifecycleConfigurationV2).toHaveBeenCalledWith(
+        'app-logs-lifecycle',
+        expect.anything(),
+        expect.anything()
+      );
+      expect(aws.s3.BucketLoggingV2).toHaveBeenCalledWith(
+        'app-logging',
+        expect.objectContaining({ targetPrefix: 'app-bucket/' }),
+        expect.objectContaining({ dependsOn: [bucket.logBucket?.bucketPolicy] })
+      );
+      expect(renderBucketPolicy().Statement).toEqual([
+        {
+          Sid: 'S3ServerAccessLogsPolicy',
+          Effect: 'Allow',
+          Principal: { Service: 'logging.s3.amazonaws.com' },
+          Action: 's3:PutObject',
+          Resource: 'arn:aws:s3:::test-bucket/app-bucket/*',
+          Condition: {
+            ArnLike: { 'aws:SourceArn': 'arn:aws:s3:::test-bucket' },
+            StringEquals: { 'aws:SourceAccount': '123456789012' },
+          },
+        },
+      ]);
+    });
+
+    it('should share a log bucket between buckets', () => {
+      const logs = new S3Component('logs', { name: 'shared-logs' });
+      new S3Component('app', { name: 'app-bucket', logging: { targetBucket: logs } });
+      const other = new S3Component('other', {
+        name: 'other-bucket',
+        logging: { targetBucket: logs, targetPrefix: 'other/' },
+      });
+
+      expect(other.logBucket).toBeUndefined();
+      expect(aws.s3.BucketPolicy).toHaveBeenCalledTimes(1);
+      expect(
+        renderBucketPolicy().Statement.map((statement: { Resource: string }) => statement.Resource)
+      ).toEqual(['arn:aws:s3:::test-bucket/app-bucket/*', 'arn:aws:s3:::test-bucket/other/*']);
+    });
+
+    it('should keep logging to existing buckets by name unchanged', () => {
+      const bucket = new S3Component('app', {
+        name: 'app-bucket',
+        logging: { targetBucket: 'access-logs-bucket' },
+      });
+
+      expect(bucket.logBucket).toBeUndefined();
+      expect(aws.s3.BucketPolicy).not.toHaveBeenCalled();
+      expect(aws.s3.BucketLoggingV2).toHaveBeenCalledWith(
+        'app-logging',
+        expect.objectContaining({ targetBucket: 'access-logs-bucket', targetPrefix: '' }),
+        { parent: bucket }
+      );
+    });
+
+    it('should refuse to log a bucket into itself', () => {
+      expect(() => {
+        new S3Component('app', { name: 'app-bucket', logging: { targetBucket: 'app-bucket' } });
+      }).toThrow("Invalid logging configuration: Bucket 'app-bucket' cannot log to itself");
+      expect(() => {
+        new S3Component('app', {
+          name: 'app-bucket',
+          logging: { logBucket: { name: 'app-bucket' } },
+        });
+      }).toThrow('cannot log to itself');
+    });
+
+    it('should refuse log buckets that S3 cannot deliver to', () => {
+      const logs = new S3Component('logs', {
+        name: 'shared-logs',
+        encryption: { createKmsKey: true },
+      });
+
+      expect(() => {
+        new S3Component('app', { name: 'app-bucket', logging: { targetBucket: logs } });
+      }).toThrow('S3 cannot deliver access logs to a bucket encrypted with a KMS key');
+    });
+  });
+
+  describe('Storage Management', () => {
+    it('should configure Intelligent-Tiering archive tiers', () => {
+      const bucket = new S3Component('data', {
+        name: 'data-bucket',
+        intelligentTiering: [
+          { name: 'archive', archiveAccessDays: 90, deepArchiveAccessDays: 180 },
+          { name: 'raw', prefix: 'raw/', deepArchiveAccessDays: 365, enabled: false },
+        ],
+      });
+
+      expect(bucket.intelligentTiering).toHaveLength(2);
+      expect(aws.s3.BucketIntelligentTieringConfiguration).toHaveBeenCalledWith(
+        'data-tiering-archive',
+        {
+          bucket: bucket.bucket.id,
+          name: 'archive',
+          status: 'Enabled',
+          tierings: [
+            { accessTier: 'ARCHIVE_ACCESS', days: 90 },
+            { accessTier: 'DEEP_ARCHIVE_ACCESS', days: 180 },
+          ],
+        },
+        { parent: bucket }
+      );
+      expect(aws.s3.BucketIntelligentTieringConfiguration).toHaveBeenCalledWith(
+        'data-tiering-raw',
+        expect.objectContaining({
+          status: 'Disabled',
+          filter: { prefix: 'raw/' },
+          tierings: [{ accessTier: 'DEEP_ARCHIVE_ACCESS', days: 365 }],
+        }),
+        expect.anything()
+      );
+    });
+
+    it('should deliver inventory reports to a destination bucket component', () => {
+      const reports = new S3Component('reports', { name: 'report-bucket' });
+      const bucket = new S3Component('data', {
+        name: 'data-bucket',
+        inventory: [
+          { name: 'weekly', destination: reports, destinationPrefix: 'inventory' },
+          {
+            name: 'daily',
+            destination: 'arn:aws:s3:::central-inventory',
+            destinationAccountId: '210987654321',
+            frequency: 'Daily',
+            format: 'Parquet',
+            includedObjectVersions: 'All',
+            optionalFields: ['Size', 'ReplicationStatus'],
+          },
+        ],
+      });
+
+      expect(bucket.inventory).toHaveLength(2);
+      expect(aws.s3.Inventory).toHaveBeenCalledWith(
+        'data-inventory-weekly',
+        {
+          bucket: bucket.bucket.id,
+          name: 'weekly',
+          enabled: true,
+          includedObjectVersions: 'Current',
+          optionalFields: [
+            'Size',
+            'LastModifiedDate',
+            'StorageClass',
+            'EncryptionStatus',
+            'IntelligentTieringAccessTier',
+          ],
+          schedule: { frequency: 'Weekly' },
+          destination: {
+            bucket: {
+              bucketArn: reports.bucketArn,
+              format: 'CSV',
+              prefix: 'inventory',
+              encryption: { sseS3: {} },
+            },
+          },
+        },
+        { parent: bucket, dependsOn: [reports.bucketPolicy] }
+      );
+      expect(aws.s3.Inventory).toHaveBeenCalledWith(
+        'data-inventory-daily',
+        expect.objectContaining({
+          includedObjectVersions: 'All',
+          optionalFields: ['Size', 'ReplicationStatus'],
+          schedule: { frequency: 'Daily' },
+          destination: {
+            bucket: expect.objectContaining({
+              bucketArn: 'arn:aws:s3:::central-inventory',
+              format: 'Parquet',
+              accountId: '210987654321',
+            }),
+          },
+        }),
+        { parent: bucket, dependsOn: [] }
+      );
+      expect(renderBucketPolicy().Statement).toEqual([
+        {
+          Sid: 'S3ReportDeliveryPolicy',
+          Effect: 'Allow',
+          Principal: { Service: 's3.amazonaws.com' },
+          Action: 's3:PutObject',
+          Resource: 'arn:aws:s3:::test-bucket/inventory*',
+          Condition: {
+            ArnLike: { 'aws:SourceArn': 'arn:aws:s3:::test-bucket' },
+            StringEquals: {
+              'aws:SourceAccount': '123456789012',
+              's3:x-amz-acl': 'bucket-owner-full-control',
+            },
+          },
+        },
+      ]);
+    });
+
+    it("should let S3 encrypt reports with the destination component's key", () => {
+      const reports = new S3Component('reports', {
+        name: 'report-bucket',
+        encryption: { createKmsKey: true },
+      });
+      new S3Component('data', {
+        name: 'data-bucket',
+        inventory: [{ name: 'weekly', destination: reports }],
+      });
+
+      expect(renderKeyPolicy().Statement).toContainEqual(
+        expect.objectContaining({
+          Sid: 'S3ReportDeliveryPolicy',
+          Action: ['kms:GenerateDataKey'],
+          Principal: { Service: ['s3.amazonaws.com'] },
+          Condition: expect.objectContaining({
+            ArnLike: { 'aws:SourceArn': 'arn:aws:s3:::test-bucket' },
+          }),
+        })
+      );
+    });
+
+    it('should configure storage class analysis with optional exports', () => {
+      const bucket = new S3Component('data', {
+        name: 'data-bucket',
+        analytics: [
+          { name: 'console-only', prefix: 'logs/' },
+          {
+            name: 'exported',
+            tags: { team: 'analytics' },
+            destination: 'arn:aws:s3:::analysis-exports',
+            destinationPrefix: 'data-bucket/',
+          },
+        ],
+      });
+
+      expect(bucket.analytics).toHaveLength(2);
+      expect(aws.s3.AnalyticsConfiguration).toHaveBeenCalledWith(
+        'data-analytics-console-only',
+        { bucket: bucket.bucket.id, name: 'console-only', filter: { prefix: 'logs/' } },
+        { parent: bucket, dependsOn: [] }
+      );
+      expect(aws.s3.AnalyticsConfiguration).toHaveBeenCalledWith(
+        'data-analytics-exported',
+        expect.objectContaining({
+          filter: { tags: { team: 'analytics' } },
+          storageClassAnalysis: {
+            dataExport: {
+              outputSchemaVersion: 'V_1',
+              destination: {
+                s3BucketDestination: {
+                  bucketArn: 'arn:aws:s3:::analysis-exports',
+                  format: 'CSV',
+                  prefix: 'data-bucket/',
+                },
+              },
+            },
+          },
+        }),
+        expect.anything()
+      );
+    });
+
+    it('should reject invalid storage management settings', () => {
+      expect(() => {
+        new S3Component('data', {
+          name: 'data-bucket',
+          intelligentTiering: [{ name: 'archive', archiveAccessDays: 30 }],
+        });
+      }).toThrow(
+        "Invalid Intelligent-Tiering configuration: Intelligent-Tiering configuration 'archive' archiveAccessDays must be between 90 and 730"
+      );
+      expect(() => {
+        new S3Component('data', {
+          name: 'data-bucket',
+          inventory: [
+            { name: 'weekly', destination: 'arn:aws:s3:::reports', optionalFields: ['Owner'] },
+          ],
+        });
+      }).toThrow("Inventory configuration 'weekly' cannot list unknown field 'Owner'");
+    });
   });
 
   describe('Public Methods', () => {
@@ -292,13 +1208,266 @@ describe('S3Component', () => {
       expect(policy).toBeDefined();
     });
 
-    it('should throw error when adding lifecycle rule after creation', () => {
+    it('should merge grants and secure statements into one bucket policy', () => {
+      const read = bucket.grantReadAccess('arn:aws:iam::123456789012:role/reader');
+      const otherRead = bucket.grantReadAccess('arn:aws:iam::123456789012:role/auditor');
+      const write = bucket.grantWriteAccess('arn:aws:iam::123456789012:role/writer');
+      const secure = bucket.createSecurePolicy();
+
+      expect(aws.s3.BucketPolicy).toHaveBeenCalledTimes(1);
+      expect(aws.s3.BucketPolicy).toHaveBeenCalledWith(
+        'test-policy',
+        expect.anything(),
+        expect.anything()
+      );
+      expect(otherRead).toBe(read);
+      expect(write).toBe(read);
+      expect(secure).toBe(bucket.bucketPolicy);
+
+      const policy = renderBucketPolicy();
+      expect(policy.Statement.map((statement: { Sid: string }) => statement.Sid)).toEqual([
+        'GrantReadAccess',
+        'GrantReadAccess2',
+        'GrantWriteAccess',
+        'DenyInsecureTransport',
+        'DenyUnencryptedObjectUploads',
+      ]);
+      expect(policy.Statement[1].Principal).toEqual({
+        AWS: 'arn:aws:iam::123456789012:role/auditor',
+      });
+    });
+
+    it('should merge grants into the policy passed at creation', () => {
+      jest.clearAllMocks();
+      const custom = new S3Component('custom', {
+        name: 'custom-bucket',
+        policy: JSON.stringify({
+          Version: '2012-10-17',
+          Statement: { Sid: 'Custom', Effect: 'Deny', Principal: '*', Action: 's3:DeleteBucket' },
+        }),
+      });
+      custom.grantReadAccess('arn:aws:iam::123456789012:role/reader');
+
+      expect(aws.s3.BucketPolicy).toHaveBeenCalledTimes(1);
+      expect(
+        renderBucketPolicy().Statement.map((statement: { Sid: string }) => statement.Sid)
+      ).toEqual(['Custom', 'GrantReadAccess']);
+    });
+
+    it('should refuse grants once the component has been finalized', () => {
+      bucket.grantReadAccess('arn:aws:iam::123456789012:role/reader');
+      bucket.finalize();
+
+      expect(() => {
+        bucket.grantWriteAccess('arn:aws:iam::123456789012:role/writer');
+      }).toThrow("Cannot add to the bucket policy of S3 component 'test': it has been finalized.");
+    });
+
+    it('should accept grants after the program awaits other work', async () => {
+      bucket.grantReadAccess('arn:aws:iam::123456789012:role/reader');
+      const finalization = lastPendingRender();
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(await isSettled(finalization)).toBe(false);
+      bucket.grantWriteAccess('arn:aws:iam::123456789012:role/writer');
+
+      bucket.finalize();
+      expect(await isSettled(finalization)).toBe(true);
+      expect(
+        renderBucketPolicy().Statement.map((statement: { Sid: string }) => statement.Sid)
+      ).toEqual(['GrantReadAccess', 'GrantWriteAccess']);
+    });
+
+    it('should fail a program that exits with components left open', async () => {
+      bucket.grantReadAccess('arn:aws:iam::123456789012:role/reader');
+      (pulumi.runtime.hasEngine as jest.Mock).mockReturnValueOnce(true);
+
+      expect(() => process.emit('beforeExit', 0)).toThrow(
+        /S3 components .*'test'.* were never finalized: call finalize\(\) after their last grant\./
+      );
+      expect(await isSettled(lastPendingRender())).toBe(false);
+    });
+
+    it('should grant to principals that are outputs of other resources', () => {
+      bucket.grantReadAccess({
+        apply: jest.fn(fn => fn('arn:aws:iam::123456789012:role/from-output')),
+      } as unknown as pulumi.Output<string>);
+
+      expect(renderBucketPolicy().Statement[0]).toEqual({
+        Sid: 'GrantReadAccess',
+        Effect: 'Allow',
+        Principal: { AWS: 'arn:aws:iam::123456789012:role/from-output' },
+        Action: ['s3:GetObject', 's3:GetObjectVersion', 's3:ListBucket'],
+        Resource: ['arn:aws:s3:::test-bucket', 'arn:aws:s3:::test-bucket/*'],
+      });
+    });
+
+    it('should not let writers change object ACLs', () => {
+      bucket.grantWriteAccess('arn:aws:iam::123456789012:role/writer');
+
+      const [statement] = renderBucketPolicy().Statement;
+      expect(statement.Action).not.toContain('s3:PutObjectAcl');
+      expect(statement.Resource).toBe('arn:aws:s3:::test-bucket/*');
+    });
+
+    it('should limit service principal grants to the source resource', () => {
+      bucket.grantWriteAccess({
+        service: 'delivery.logs.amazonaws.com',
+        sourceArn: 'arn:aws:logs:us-east-1:123456789012:*',
+        sourceAccount: '123456789012',
+      });
+
+      expect(renderBucketPolicy().Statement[0]).toMatchObject({
+        Principal: { Service: 'delivery.logs.amazonaws.com' },
+        Condition: {
+          StringEquals: { 'aws:SourceAccount': '123456789012' },
+          ArnLike: { 'aws:SourceArn': 'arn:aws:logs:us-east-1:123456789012:*' },
+        },
+      });
+    });
+
+    it('should limit grants to prefixes and VPC endpoints', () => {
+      bucket.grantReadAccess('arn:aws:iam::123456789012:role/reader', {
+        prefixes: ['reports/', 'exports/'],
+        sourceVpce: 'vpce-1234',
+      });
+
+      const policy = renderBucketPolicy();
+      expect(policy.Statement).toEqual([
+        {
+          Sid: 'GrantReadAccess',
+          Effect: 'Allow',
+          Principal: { AWS: 'arn:aws:iam::123456789012:role/reader' },
+          Action: ['s3:GetObject', 's3:GetObjectVersion'],
+          Resource: ['arn:aws:s3:::test-bucket/reports/*', 'arn:aws:s3:::test-bucket/exports/*'],
+          Condition: { StringEquals: { 'aws:SourceVpce': ['vpce-1234'] } },
+        },
+        {
+          Sid: 'GrantReadAccessList',
+          Effect: 'Allow',
+          Principal: { AWS: 'arn:aws:iam::123456789012:role/reader' },
+          Action: 's3:ListBucket',
+          Resource: 'arn:aws:s3:::test-bucket',
+          Condition: {
+            StringEquals: { 'aws:SourceVpce': ['vpce-1234'] },
+            StringLike: { 's3:prefix': ['reports/*', 'exports/*'] },
+          },
+        },
+      ]);
+    });
+
+    it('should deny uploads that do not use the required KMS key', () => {
+      bucket.grantWriteAccess('arn:aws:iam::123456789012:role/writer', {
+        kmsKeyArn: 'arn:aws:kms:us-east-1:123456789012:key/uploads',
+      });
+
+      expect(renderBucketPolicy().Statement[1]).toEqual({
+        Sid: 'GrantWriteAccessRequireKmsKey',
+        Effect: 'Deny',
+        Principal: { AWS: 'arn:aws:iam::123456789012:role/writer' },
+        Action: 's3:PutObject',
+        Resource: 'arn:aws:s3:::test-bucket/*',
+        Condition: {
+          StringNotEquals: {
+            's3:x-amz-server-side-encryption-aws-kms-key-id':
+              'arn:aws:kms:us-east-1:123456789012:key/uploads',
+          },
+        },
+      });
+    });
+
+    it('should reject invalid grants', () => {
+      expect(() => {
+        bucket.grantWriteAccess({ service: 'logging.s3.amazonaws.com' });
+      }).toThrow(
+        'Invalid grant: Grant to logging.s3.amazonaws.com needs sourceArn or sourceAccount'
+      );
+      expect(() => {
+        bucket.grantReadAccess('arn:aws:iam::123456789012:role/reader', { prefixes: ['logs/*'] });
+      }).toThrow("Grant prefix 'logs/*' cannot contain wildcards");
+    });
+
+    it('should add lifecycle rules to the existing lifecycle configuration', () => {
+      const result = bucket.addLifecycleRule({
+        id: 'expire-tmp',
+        prefix: 'tmp/',
+        expiration: { days: 7 },
+      });
+
+      expect(result).toBe(bucket);
+      expect(aws.s3.BucketLifecycleConfigurationV2).toHaveBeenCalledTimes(1);
+      const rules = renderLifecycleRules();
+      expect(rules.map((rule: { id: string }) => rule.id)).toEqual([
+        ...S3_DEFAULTS.lifecycle.map(rule => rule.id),
+        'expire-tmp',
+      ]);
+      expect(rules[rules.length - 1]).toEqual({
+        id: 'expire-tmp',
+        status: 'Enabled',
+        filter: { prefix: 'tmp/' },
+        expiration: { days: 7 },
+      });
+    });
+
+    it('should create the lifecycle configuration when the first rule is added', () => {
+      jest.clearAllMocks();
+      const empty = new S3Component('empty', { name: 'empty-bucket', lifecycleRules: [] });
+      expect(empty.lifecycle).toBeUndefined();
+
+      empty.addLifecycleRule({ id: 'first', expiration: { days: 30 } }).addLifecycleRule({
+        id: 'second',
+        abortIncompleteMultipartUpload: { daysAfterInitiation: 1 },
+      });
+
+      expect(empty.lifecycle).toBeDefined();
+      expect(aws.s3.BucketLifecycleConfigurationV2).toHaveBeenCalledTimes(1);
+      expect(aws.s3.BucketLifecycleConfigurationV2).toHaveBeenCalledWith(
+        'empty-lifecycle',
+        expect.anything(),
+        expect.anything()
+      );
+      expect(renderLifecycleRules().map((rule: { id: string }) => rule.id)).toEqual([
+        'first',
+        'second',
+      ]);
+    });
+
+    it('should reject duplicate lifecycle rule IDs', () => {
+      expect(() => {
+        bucket.addLifecycleRule({ id: 'intelligent-tiering', expiration: { days: 400 } });
+      }).toThrow("Duplicate lifecycle rule ID 'intelligent-tiering'");
+    });
+
+    it('should reject contradictory transitions', () => {
       expect(() => {
         bucket.addLifecycleRule({
-          id: 'test-rule',
-          enabled: true,
+          id: 'archive',
+          transitions: [
+            { days: 30, storageClass: 'GLACIER' },
+            { days: 60, storageClass: 'STANDARD_IA' },
+          ],
         });
-      }).toThrow('Lifecycle rules should be configured at bucket creation time');
+      }).toThrow('Invalid lifecycle rules');
+    });
+
+    it('should accept lifecycle rules after the program awaits other work', async () => {
+      const finalization = lastPendingRender();
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(await isSettled(finalization)).toBe(false);
+      bucket.addLifecycleRule({ id: 'late', expiration: { days: 30 } });
+
+      bucket.finalize();
+      expect(await isSettled(finalization)).toBe(true);
+      expect(renderLifecycleRules().map((rule: { id: string }) => rule.id)).toContain('late');
+    });
+
+    it('should refuse lifecycle rules once the component has been finalized', () => {
+      bucket.finalize();
+
+      expect(() => {
+        bucket.addLifecycleRule({ id: 'late', expiration: { days: 30 } });
+      }).toThrow("Cannot add lifecycle rule 'late' to S3 component 'test': it has been finalized.");
     });
   });
 
@@ -462,6 +1631,298 @@ describe('Secure Bucket Policy Creation', () => {
   });
 });
 
+describe('Bucket Policy Merging', () => {
+  it('should keep identical statements once', () => {
+    const document = createSecureBucketPolicy('test-bucket', { enforceSSL: false });
+    const merged = JSON.parse(mergeBucketPolicies([document, document]));
+
+    expect(merged.Version).toBe('2012-10-17');
+    expect(merged.Statement).toHaveLength(1);
+  });
+
+  it('should make clashing statement IDs unique', () => {
+    const statement = (principal: string) =>
+      JSON.stringify({
+        Version: '2012-10-17',
+        Statement: [{ Sid: 'Grant', Effect: 'Allow', Principal: { AWS: principal }, Action: '*' }],
+      });
+    const merged = JSON.parse(
+      mergeBucketPolicies([statement('a'), statement('b'), statement('c')])
+    );
+
+    expect(merged.Statement.map((s: { Sid: string }) => s.Sid)).toEqual([
+      'Grant',
+      'Grant2',
+      'Grant3',
+    ]);
+  });
+});
+
+describe('Access Log Buckets', () => {
+  it('should archive and then expire access logs', () => {
+    expect(createLogBucketLifecycleRules()).toEqual([
+      {
+        id: 'archive-access-logs',
+        enabled: true,
+        transitions: [{ days: 90, storageClass: 'GLACIER' }],
+      },
+      { id: 'expire-access-logs', enabled: true, expiration: { days: 365 } },
+      {
+        id: 'noncurrent-version-expiration',
+        enabled: true,
+        noncurrentVersionExpiration: { noncurrentDays: 7 },
+      },
+    ]);
+    expect(validateLifecycleRules(createLogBucketLifecycleRules()).isValid).toBe(true);
+  });
+
+  it('should skip archiving logs that expire first', () => {
+    const rules = createLogBucketLifecycleRules({ expirationDays: 30 });
+    expect(rules.map(rule => rule.id)).toEqual([
+      'expire-access-logs',
+      'noncurrent-version-expiration',
+    ]);
+    expect(createLogBucketLifecycleRules({ archiveDays: false })).toHaveLength(2);
+  });
+
+  it('should validate logging settings', () => {
+    expect(
+      validateLoggingConfig(
+        { targetBucket: 'logs', logBucket: { expirationDays: 0, archiveDays: 1.5 } },
+        'app-bucket'
+      ).errors
+    ).toEqual([
+      'logBucket settings only apply when targetBucket is left out',
+      'Log bucket expirationDays must be a positive whole number of days',
+      'Log bucket archiveDays must be a whole number of days',
+    ]);
+  });
+});
+
+describe('Storage Management Validation', () => {
+  it('should require archive tiers in increasing order', () => {
+    expect(
+      validateIntelligentTieringConfig([
+        { name: 'none' },
+        { name: 'reversed', archiveAccessDays: 365, deepArchiveAccessDays: 180 },
+        { name: 'none' },
+      ]).errors
+    ).toEqual([
+      "Duplicate Intelligent-Tiering configuration name 'none'",
+      "Intelligent-Tiering configuration 'none' needs archiveAccessDays or deepArchiveAccessDays",
+      "Intelligent-Tiering configuration 'reversed' deepArchiveAccessDays must be greater than archiveAccessDays",
+      "Intelligent-Tiering configuration 'none' needs archiveAccessDays or deepArchiveAccessDays",
+    ]);
+  });
+
+  it('should reject duplicate inventory and analytics names', () => {
+    const inventory = { name: 'weekly', destination: 'arn:aws:s3:::reports' };
+    expect(validateInventoryConfig([inventory, inventory, inventory]).errors).toEqual([
+      "Duplicate inventory configuration name 'weekly'",
+    ]);
+    expect(
+      validateAnalyticsConfig([{ name: 'all' }, { name: 'raw', destinationPrefix: 'raw/' }]).errors
+    ).toEqual(["Analytics configuration 'raw' has a destinationPrefix but no destination"]);
+  });
+});
+
+describe('Grant Policy', () => {
+  const principal = { type: 'AWS' as const, identifier: 'arn:aws:iam::123456789012:role/app' };
+
+  it('should grant full access to the bucket and its objects', () => {
+    const policy = createGrantPolicy('full', { bucketArn: 'arn:aws:s3:::data', principal });
+
+    expect(policy.statements).toEqual([
+      {
+        sid: 'GrantFullAccess',
+        effect: 'Allow',
+        principals: [{ type: 'AWS', identifiers: principal.identifier }],
+        actions: ['s3:*'],
+        resources: ['arn:aws:s3:::data', 'arn:aws:s3:::data/*'],
+      },
+    ]);
+  });
+
+  it('should not require a KMS key for reads', () => {
+    const policy = createGrantPolicy('read', {
+      bucketArn: 'arn:aws:s3:::data',
+      principal,
+      kmsKeyArn: 'arn:aws:kms:us-east-1:123456789012:key/data',
+    });
+
+    expect(policy.statements.map(statement => statement.sid)).toEqual(['GrantReadAccess']);
+  });
+
+  it('should not list the bucket for prefixed writes', () => {
+    const policy = createGrantPolicy('write', {
+      bucketArn: 'arn:aws:s3:::data',
+      principal,
+      prefixes: ['uploads/'],
+    });
+
+    expect(policy.statements).toHaveLength(1);
+    expect(policy.statements[0]?.resources).toEqual(['arn:aws:s3:::data/uploads/*']);
+  });
+
+  it('should validate service principals and prefixes', () => {
+    expect(validateGrant({ service: 'logging.s3.amazonaws.com', sourceAccount: '1' }).isValid).toBe(
+      true
+    );
+    expect(validateGrant(principal.identifier, { prefixes: ['', '/logs/'] }).errors).toEqual([
+      'Grant prefixes cannot be empty; leave out prefixes to grant the whole bucket',
+      "Grant prefix '/logs/' cannot start with /",
+    ]);
+  });
+});
+
+describe('Replication Policy', () => {
+  it('should only allow replication actions on the source and destination buckets', () => {
+    const policy = createReplicationPolicy('arn:aws:s3:::source', [
+      { bucketArn: 'arn:aws:s3:::replica' },
+    ]);
+
+    expect(policy.statements).toEqual([
+      {
+        sid: 'ReadSourceBucket',
+        effect: 'Allow',
+        actions: ['s3:GetReplicationConfiguration', 's3:ListBucket'],
+        resources: 'arn:aws:s3:::source',
+      },
+      {
+        sid: 'ReadSourceObjects',
+        effect: 'Allow',
+        actions: [
+          's3:GetObjectVersionForReplication',
+          's3:GetObjectVersionAcl',
+          's3:GetObjectVersionTagging',
+        ],
+        resources: 'arn:aws:s3:::source/*',
+      },
+      {
+        sid: 'ReplicateObjects',
+        effect: 'Allow',
+        actions: ['s3:ReplicateObject', 's3:ReplicateTags'],
+        resources: ['arn:aws:s3:::replica/*'],
+      },
+    ]);
+  });
+
+  it('should scope KMS permissions to objects in the replicated buckets', () => {
+    const policy = createReplicationPolicy(
+      'arn:aws:s3:::source',
+      [{ bucketArn: 'arn:aws:s3:::replica', kmsKeyArn: 'arn:aws:kms:us-west-2:1:key/replica' }],
+      'arn:aws:kms:us-east-1:1:key/source'
+    );
+
+    expect(policy.statements.slice(-2)).toEqual([
+      {
+        sid: 'DecryptSourceObjects',
+        effect: 'Allow',
+        actions: 'kms:Decrypt',
+        resources: 'arn:aws:kms:us-east-1:1:key/source',
+        conditions: {
+          StringLike: {
+            'kms:EncryptionContext:aws:s3:arn': ['arn:aws:s3:::source', 'arn:aws:s3:::source/*'],
+          },
+        },
+      },
+      {
+        sid: 'EncryptReplicas',
+        effect: 'Allow',
+        actions: 'kms:Encrypt',
+        resources: ['arn:aws:kms:us-west-2:1:key/replica'],
+        conditions: {
+          StringLike: {
+            'kms:EncryptionContext:aws:s3:arn': ['arn:aws:s3:::replica', 'arn:aws:s3:::replica/*'],
+          },
+        },
+      },
+    ]);
+  });
+
+  it('should validate replication rules', () => {
+    const result = validateReplicationConfig({
+      sourceKmsKeyArn: 'arn:aws:kms:us-east-1:1:key/source',
+      destinations: [
+        { bucket: 'arn:aws:s3:::a', id: 'dr', replicationTime: true, metrics: false },
+        { bucket: 'arn:aws:s3:::b', id: 'dr', priority: 0, kmsKeyArn: 'key' },
+      ],
+    });
+
+    expect(result.errors).toEqual([
+      "Replication rule 'dr': replication time control requires metrics",
+      "Replication rule 'dr': a kmsKeyArn is required to replicate KMS-encrypted objects",
+      "Duplicate replication rule ID 'dr'",
+      "Replication rule 'dr' has the same priority as another rule",
+    ]);
+    expect(validateReplicationConfig({ destinations: [] }).errors).toEqual([
+      'Replication needs at least one destination',
+    ]);
+  });
+});
+
+describe('Lifecycle Rule Validation', () => {
+  it('should accept the default lifecycle rules', () => {
+    expect(validateLifecycleRules(S3_DEFAULTS.lifecycle)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should reject duplicate rule IDs', () => {
+    const result = validateLifecycleRules([
+      { id: 'cleanup', expiration: { days: 30 } },
+      { id: 'cleanup', expiration: { days: 60 } },
+    ]);
+
+    expect(result.errors).toEqual(["Duplicate lifecycle rule ID 'cleanup'"]);
+  });
+
+  it('should reject transitions that move objects to warmer storage classes', () => {
+    const result = validateLifecycleRules([
+      {
+        id: 'archive',
+        transitions: [
+          { days: 60, storageClass: 'STANDARD_IA' },
+          { days: 30, storageClass: 'GLACIER' },
+        ],
+      },
+    ]);
+
+    expect(result.errors).toEqual([
+      "Lifecycle rule 'archive': transition to STANDARD_IA after 60 days cannot follow the transition to GLACIER after 30 days",
+    ]);
+  });
+
+  it('should reject transitions below the AWS minimum days', () => {
+    const result = validateLifecycleRules([
+      {
+        id: 'tiering',
+        transitions: [
+          { days: 10, storageClass: 'STANDARD_IA' },
+          { days: 20, storageClass: 'GLACIER' },
+        ],
+      },
+    ]);
+
+    expect(result.errors).toEqual([
+      "Lifecycle rule 'tiering': transition to STANDARD_IA after 10 days is below the 30-day minimum",
+      "Lifecycle rule 'tiering': transition to GLACIER must be at least 30 days after the transition to STANDARD_IA",
+    ]);
+  });
+
+  it('should reject expirations before the last transition', () => {
+    const result = validateLifecycleRules([
+      {
+        id: 'versions',
+        noncurrentVersionTransitions: [{ noncurrentDays: 90, storageClass: 'GLACIER' }],
+        noncurrentVersionExpiration: { noncurrentDays: 60 },
+      },
+    ]);
+
+    expect(result.errors).toEqual([
+      "Lifecycle rule 'versions' (noncurrent versions): expiration after 60 days must come after the transition to GLACIER after 90 days",
+    ]);
+  });
+});
+
 describe('S3 Defaults', () => {
   it('should have secure encryption defaults', () => {
     expect(S3_DEFAULTS.encryption.sseAlgorithm).toBe('AES256');
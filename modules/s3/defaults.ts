@@ -2,7 +2,25 @@
  * Secure defaults for S3 buckets
  */
 
-import { S3LifecycleRule } from './types';
+import { PolicyDocument, PolicyStatement } from '../iam/types';
+import {
+  S3Args,
+  S3EncryptionConfig,
+  S3AnalyticsConfig,
+  S3GrantAccess,
+  S3GrantOptions,
+  S3GrantPrincipal,
+  S3IntelligentTieringConfig,
+  S3InventoryConfig,
+  S3ResolvedGrantPrincipal,
+  S3ServicePrincipal,
+  S3LifecycleRule,
+  S3LogBucketConfig,
+  S3LoggingConfig,
+  S3ObjectLockConfig,
+  S3ReplicationConfig,
+  S3VersioningConfig,
+} from './types';
 
 /**
  * Default encryption configuration for S3 buckets
@@ -13,6 +31,144 @@ export const S3_ENCRYPTION_DEFAULTS = {
   bucketKeyEnabled: true,
 } as const;
 
+/**
+ * Default customer-managed KMS key configuration
+ */
+export const S3_KMS_KEY_DEFAULTS = {
+  aliasPrefix: 'alias/s3/',
+  deletionWindowInDays: 30,
+  enableKeyRotation: true,
+} as const;
+
+/**
+ * Access log bucket defaults
+ * S3 delivers server access logs with its logging service principal, which only writes to
+ * buckets encrypted with SSE-S3 and without Object Lock default retention
+ */
+export const S3_LOG_BUCKET_DEFAULTS = {
+  nameSuffix: '-logs',
+  objectOwnership: 'BucketOwnerEnforced',
+  expirationDays: 365,
+  archiveDays: 90,
+  noncurrentDays: 7,
+  servicePrincipal: 'logging.s3.amazonaws.com',
+  sid: 'S3ServerAccessLogsPolicy',
+} as const;
+
+/**
+ * Days without access before Intelligent-Tiering moves objects to each archive tier
+ */
+export const S3_INTELLIGENT_TIERING_LIMITS = {
+  ARCHIVE_ACCESS: { minimum: 90, maximum: 730 },
+  DEEP_ARCHIVE_ACCESS: { minimum: 180, maximum: 730 },
+} as const;
+
+/**
+ * Inventory report defaults
+ * Weekly reports cover most lifecycle and audit questions at a seventh of the daily cost
+ */
+export const S3_INVENTORY_DEFAULTS = {
+  frequency: 'Weekly',
+  format: 'CSV',
+  includedObjectVersions: 'Current',
+  optionalFields: [
+    'Size',
+    'LastModifiedDate',
+    'StorageClass',
+    'EncryptionStatus',
+    'IntelligentTieringAccessTier',
+  ],
+} as const;
+
+/**
+ * Object metadata that inventory reports can list
+ */
+export const S3_INVENTORY_OPTIONAL_FIELDS = [
+  'Size',
+  'LastModifiedDate',
+  'StorageClass',
+  'ETag',
+  'IsMultipartUploaded',
+  'ReplicationStatus',
+  'EncryptionStatus',
+  'ObjectLockRetainUntilDate',
+  'ObjectLockMode',
+  'ObjectLockLegalHoldStatus',
+  'IntelligentTieringAccessTier',
+  'BucketKeyStatus',
+  'ChecksumAlgorithm',
+  'ObjectAccessControlList',
+  'ObjectOwner',
+] as const;
+
+/**
+ * Inventory and storage class analysis report delivery defaults
+ */
+export const S3_REPORT_DELIVERY_DEFAULTS = {
+  servicePrincipal: 's3.amazonaws.com',
+  sid: 'S3ReportDeliveryPolicy',
+} as const;
+
+/**
+ * CloudFront Origin Access Control defaults
+ * CloudFront signs every origin request, so the bucket policy can require the distribution's ARN
+ */
+export const S3_CLOUDFRONT_DEFAULTS = {
+  originType: 's3',
+  signingBehavior: 'always',
+  signingProtocol: 'sigv4',
+  servicePrincipal: 'cloudfront.amazonaws.com',
+  sid: 'AllowCloudFrontServicePrincipal',
+} as const;
+
+/**
+ * S3 actions for each grant access level, on objects and on the bucket itself
+ * Writes do not include s3:PutObjectAcl; the bucket owner owns every object
+ */
+export const S3_GRANT_ACTIONS = {
+  read: { objects: ['s3:GetObject', 's3:GetObjectVersion'], bucket: ['s3:ListBucket'] },
+  write: { objects: ['s3:PutObject', 's3:DeleteObject', 's3:DeleteObjectVersion'], bucket: [] },
+  full: { objects: ['s3:*'], bucket: ['s3:*'] },
+} as const;
+
+/**
+ * Statement IDs of the bucket policy statements for each grant access level
+ */
+export const S3_GRANT_SIDS = {
+  read: 'GrantReadAccess',
+  write: 'GrantWriteAccess',
+  full: 'GrantFullAccess',
+} as const;
+
+/**
+ * KMS actions granted on the bucket key alongside each bucket grant
+ */
+export const S3_KMS_GRANT_ACTIONS = {
+  read: ['kms:Decrypt'],
+  write: ['kms:GenerateDataKey', 'kms:Decrypt'],
+  full: ['kms:GenerateDataKey', 'kms:Decrypt', 'kms:ReEncrypt*'],
+} as const;
+
+/**
+ * KMS actions for key administrators, none of which encrypt or decrypt data
+ */
+export const S3_KMS_ADMIN_ACTIONS = [
+  'kms:Create*',
+  'kms:Describe*',
+  'kms:Enable*',
+  'kms:List*',
+  'kms:Put*',
+  'kms:Update*',
+  'kms:Revoke*',
+  'kms:Disable*',
+  'kms:Get*',
+  'kms:Delete*',
+  'kms:TagResource',
+  'kms:UntagResource',
+  'kms:ScheduleKeyDeletion',
+  'kms:CancelKeyDeletion',
+] as const;
+
 /**
  * Default versioning configuration for S3 buckets
  * Enables versioning by default for data protection
@@ -95,6 +251,16 @@ export const S3_REQUEST_PAYER_DEFAULTS = {
   requestPayer: 'BucketOwner',
 } as const;
 
+/**
+ * Default replication configuration
+ * Delete markers are not replicated so deletes in the source bucket cannot wipe the replicas
+ */
+export const S3_REPLICATION_DEFAULTS = {
+  replicateDeleteMarkers: false,
+  replicationTime: false,
+  replicationTimeMinutes: 15,
+} as const;
+
 /**
  * Default tags for S3 buckets
  */
@@ -233,6 +399,118 @@ export function validateBucketName(bucketName: string): { isValid: boolean; erro
   };
 }
 
+/**
+ * Storage classes in the order lifecycle transitions may move objects through
+ * Objects only ever move down this list
+ */
+export const S3_TRANSITION_ORDER = [
+  'STANDARD_IA',
+  'INTELLIGENT_TIERING',
+  'ONEZONE_IA',
+  'GLACIER_IR',
+  'GLACIER',
+  'DEEP_ARCHIVE',
+] as const;
+
+/**
+ * Minimum days before objects can transition to a storage class, and before objects in it can
+ * transition again
+ */
+export const S3_TRANSITION_MINIMUM_DAYS: Readonly<Record<string, number>> = {
+  STANDARD_IA: 30,
+  ONEZONE_IA: 30,
+};
+
+/**
+ * Checks the transitions of one rule, for current or noncurrent versions
+ * Values that are only known at deployment time are skipped
+ */
+function validateTransitions(
+  label: string,
+  transitions: readonly { days?: unknown; storageClass: unknown }[],
+  expirationDays: unknown,
+  errors: string[]
+): void {
+  const scheduled = transitions
+    .filter(
+      (transition): transition is { days: number; storageClass: string } =>
+        typeof transition.days === 'number' && typeof transition.storageClass === 'string'
+    )
+    .sort((a, b) => a.days - b.days);
+
+  scheduled.forEach((transition, i) => {
+    const minimumDays = S3_TRANSITION_MINIMUM_DAYS[transition.storageClass];
+    if (minimumDays !== undefined && transition.days < minimumDays) {
+      errors.push(
+        `${label}: transition to ${transition.storageClass} after ${transition.days} days is below the ${minimumDays}-day minimum`
+      );
+    }
+
+    const previous = scheduled[i - 1];
+    if (!previous) {
+      return;
+    }
+    const order: readonly string[] = S3_TRANSITION_ORDER;
+    if (order.indexOf(transition.storageClass) <= order.indexOf(previous.storageClass)) {
+      errors.push(
+        `${label}: transition to ${transition.storageClass} after ${transition.days} days cannot follow the transition to ${previous.storageClass} after ${previous.days} days`
+      );
+      return;
+    }
+    const previousMinimum = S3_TRANSITION_MINIMUM_DAYS[previous.storageClass];
+    if (previousMinimum !== undefined && transition.days - previous.days < previousMinimum) {
+      errors.push(
+        `${label}: transition to ${transition.storageClass} must be at least ${previousMinimum} days after the transition to ${previous.storageClass}`
+      );
+    }
+  });
+
+  const last = scheduled[scheduled.length - 1];
+  if (last && typeof expirationDays === 'number' && expirationDays <= last.days) {
+    errors.push(
+      `${label}: expiration after ${expirationDays} days must come after the transition to ${last.storageClass} after ${last.days} days`
+    );
+  }
+}
+
+/**
+ * Validates lifecycle rules: unique IDs, transitions that only move objects to colder storage
+ * classes, AWS minimum days, and expirations after the last transition
+ */
+export function validateLifecycleRules(rules: readonly S3LifecycleRule[]): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  rules.forEach((rule, i) => {
+    if (rules.findIndex(other => other.id === rule.id) !== i) {
+      errors.push(`Duplicate lifecycle rule ID '${rule.id}'`);
+    }
+
+    validateTransitions(
+      `Lifecycle rule '${rule.id}'`,
+      rule.transitions ?? [],
+      rule.expiration?.days,
+      errors
+    );
+    validateTransitions(
+      `Lifecycle rule '${rule.id}' (noncurrent versions)`,
+      (rule.noncurrentVersionTransitions ?? []).map(transition => ({
+        days: transition.noncurrentDays,
+        storageClass: transition.storageClass,
+      })),
+      rule.noncurrentVersionExpiration?.noncurrentDays,
+      errors
+    );
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
 /**
  * Creates a comprehensive bucket policy for common use cases
  */
@@ -322,6 +600,803 @@ export function createSecureBucketPolicy(
   );
 }
 
+/**
+ * Merges bucket policy documents into one document
+ * S3 allows a single policy per bucket, so every grant has to end up in the same document.
+ * Identical statements are kept once and clashing statement IDs get a numeric suffix.
+ */
+export function mergeBucketPolicies(documents: readonly string[]): string {
+  const statements: Record<string, unknown>[] = [];
+  const seen = new Set<string>();
+  const sids = new Set<string>();
+
+  documents.forEach(document => {
+    const parsed = JSON.parse(document) as { Statement?: unknown };
+    const documentStatements = Array.isArray(parsed.Statement)
+      ? parsed.Statement
+      : parsed.Statement
+        ? [parsed.Statement]
+        : [];
+
+    documentStatements.forEach((statement: Record<string, unknown>) => {
+      const key = JSON.stringify(statement);
+      if (seen.has(key)) {
+        return;
+      }
+      seen.add(key);
+
+      if (typeof statement.Sid !== 'string') {
+        statements.push(statement);
+        return;
+      }
+      let sid = statement.Sid;
+      for (let suffix = 2; sids.has(sid); suffix++) {
+        sid = `${statement.Sid}${suffix}`;
+      }
+      sids.add(sid);
+      statements.push({ ...statement, Sid: sid });
+    });
+  });
+
+  return JSON.stringify(
+    {
+      Version: '2012-10-17',
+      Statement: statements,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Validates a replication configuration
+ */
+export function validateReplicationConfig(
+  config: S3ReplicationConfig,
+  versioning?: S3VersioningConfig,
+  kmsEncrypted = config.sourceKmsKeyArn !== undefined
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (versioning?.enabled === false) {
+    errors.push('Replication requires versioning; remove versioning.enabled: false');
+  }
+  if (config.destinations.length === 0) {
+    errors.push('Replication needs at least one destination');
+  }
+
+  const ids = config.destinations.map((destination, i) => destination.id ?? `replicate-${i}`);
+  const priorities = config.destinations.map((destination, i) => destination.priority ?? i);
+  config.destinations.forEach((destination, i) => {
+    const id = destination.id ?? `replicate-${i}`;
+    const priority = destination.priority ?? i;
+    if (ids.indexOf(id) !== i) {
+      errors.push(`Duplicate replication rule ID '${id}'`);
+    }
+    if (priorities.indexOf(priority) !== i) {
+      errors.push(`Replication rule '${id}' has the same priority as another rule`);
+    }
+    if (destination.replicationTime && destination.metrics === false) {
+      errors.push(`Replication rule '${id}': replication time control requires metrics`);
+    }
+    if (kmsEncrypted && !destination.kmsKeyArn) {
+      errors.push(
+        `Replication rule '${id}': a kmsKeyArn is required to replicate KMS-encrypted objects`
+      );
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Creates the least-privilege policy for the replication role
+ * The role can only read replication data from the source bucket and write replicas to the
+ * destination buckets, and can only use the KMS keys for objects in those buckets (the bucket
+ * ARN is the encryption context when S3 bucket keys are enabled)
+ */
+export function createReplicationPolicy(
+  sourceBucketArn: string,
+  destinations: readonly {
+    bucketArn: string;
+    kmsKeyArn?: string;
+    account?: string;
+    replicateDeleteMarkers?: boolean;
+  }[],
+  sourceKmsKeyArn?: string
+): PolicyDocument {
+  const objectsIn = (bucketArn: string) => `${bucketArn}/*`;
+  const statements: PolicyStatement[] = [
+    {
+      sid: 'ReadSourceBucket',
+      effect: 'Allow',
+      actions: ['s3:GetReplicationConfiguration', 's3:ListBucket'],
+      resources: sourceBucketArn,
+    },
+    {
+      sid: 'ReadSourceObjects',
+      effect: 'Allow',
+      actions: [
+        's3:GetObjectVersionForReplication',
+        's3:GetObjectVersionAcl',
+        's3:GetObjectVersionTagging',
+      ],
+      resources: objectsIn(sourceBucketArn),
+    },
+    {
+      sid: 'ReplicateObjects',
+      effect: 'Allow',
+      actions: ['s3:ReplicateObject', 's3:ReplicateTags'],
+      resources: destinations.map(destination => objectsIn(destination.bucketArn)),
+    },
+  ];
+
+  const deleteMarkerDestinations = destinations.filter(
+    destination => destination.replicateDeleteMarkers
+  );
+  if (deleteMarkerDestinations.length > 0) {
+    statements.push({
+      sid: 'ReplicateDeleteMarkers',
+      effect: 'Allow',
+      actions: 's3:ReplicateDelete',
+      resources: deleteMarkerDestinations.map(destination => objectsIn(destination.bucketArn)),
+    });
+  }
+
+  const crossAccountDestinations = destinations.filter(destination => destination.account);
+  if (crossAccountDestinations.length > 0) {
+    statements.push({
+      sid: 'TransferReplicaOwnership',
+      effect: 'Allow',
+      actions: 's3:ObjectOwnerOverrideToBucketOwner',
+      resources: crossAccountDestinations.map(destination => objectsIn(destination.bucketArn)),
+    });
+  }
+
+  if (sourceKmsKeyArn) {
+    statements.push({
+      sid: 'DecryptSourceObjects',
+      effect: 'Allow',
+      actions: 'kms:Decrypt',
+      resources: sourceKmsKeyArn,
+      conditions: {
+        StringLike: {
+          'kms:EncryptionContext:aws:s3:arn': [sourceBucketArn, objectsIn(sourceBucketArn)],
+        },
+      },
+    });
+  }
+
+  const encryptedDestinations = destinations.filter(destination => destination.kmsKeyArn);
+  if (encryptedDestinations.length > 0) {
+    statements.push({
+      sid: 'EncryptReplicas',
+      effect: 'Allow',
+      actions: 'kms:Encrypt',
+      resources: encryptedDestinations.map(destination => destination.kmsKeyArn as string),
+      conditions: {
+        StringLike: {
+          'kms:EncryptionContext:aws:s3:arn': encryptedDestinations.flatMap(destination => [
+            destination.bucketArn,
+            objectsIn(destination.bucketArn),
+          ]),
+        },
+      },
+    });
+  }
+
+  return {
+    version: '2012-10-17',
+    statements,
+  };
+}
+
+/**
+ * Returns the Object Lock retention period in days, counting a year as 365 days
+ */
+export function objectLockRetentionDays(config: S3ObjectLockConfig): number {
+  return config.days ?? (config.years ?? 0) * 365;
+}
+
+/**
+ * Creates the default lifecycle rules of a bucket with Object Lock
+ * Noncurrent versions are kept at least until their retention ends
+ */
+export function createObjectLockLifecycleRules(config: S3ObjectLockConfig): S3LifecycleRule[] {
+  const retentionDays = objectLockRetentionDays(config);
+  return S3_LIFECYCLE_DEFAULTS.map(rule =>
+    rule.noncurrentVersionExpiration &&
+    Number(rule.noncurrentVersionExpiration.noncurrentDays) < retentionDays
+      ? { ...rule, noncurrentVersionExpiration: { noncurrentDays: retentionDays } }
+      : rule
+  );
+}
+
+/**
+ * Validates an Object Lock configuration against the rest of the bucket configuration
+ * Objects must not be deleted before their retention ends, so settings that would delete them
+ * earlier are refused
+ */
+export function validateObjectLockConfig(
+  config: S3ObjectLockConfig,
+  bucket: Pick<S3Args, 'forceDestroy' | 'versioning' | 'lifecycleRules'> = {}
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  const periods = [config.days, config.years].filter(
+    (period): period is number => period !== undefined
+  );
+  if (periods.length !== 1) {
+    errors.push('Object Lock retention needs exactly one of days or years');
+  } else if (periods.some(period => !Number.isInteger(period) || period < 1)) {
+    errors.push('Object Lock retention period must be a positive whole number');
+  }
+
+  if (bucket.forceDestroy === true) {
+    errors.push('Object Lock cannot be combined with forceDestroy: true');
+  }
+  if (bucket.versioning?.enabled === false) {
+    errors.push('Object Lock requires versioning; remove versioning.enabled: false');
+  }
+
+  const retentionDays = objectLockRetentionDays(config);
+  (bucket.lifecycleRules ?? []).forEach(rule => {
+    if (rule.enabled === false) {
+      return;
+    }
+    const expirationDays = rule.expiration?.days;
+    if (typeof expirationDays === 'number' && expirationDays < retentionDays) {
+      errors.push(
+        `Lifecycle rule '${rule.id}' expires objects after ${expirationDays} days, before the ${retentionDays}-day Object Lock retention ends`
+      );
+    }
+    const noncurrentDays = rule.noncurrentVersionExpiration?.noncurrentDays;
+    if (typeof noncurrentDays === 'number' && noncurrentDays < retentionDays) {
+      errors.push(
+        `Lifecycle rule '${rule.id}' expires noncurrent versions after ${noncurrentDays} days, before the ${retentionDays}-day Object Lock retention ends`
+      );
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates an encryption configuration
+ */
+export function validateEncryptionConfig(config: S3EncryptionConfig): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (config.createKmsKey) {
+    if (config.kmsKeyId !== undefined) {
+      errors.push('createKmsKey cannot be combined with kmsKeyId');
+    }
+    if (typeof config.sseAlgorithm === 'string' && !config.sseAlgorithm.startsWith('aws:kms')) {
+      errors.push(`createKmsKey requires KMS encryption, not ${config.sseAlgorithm}`);
+    }
+    const alias = typeof config.createKmsKey === 'object' ? config.createKmsKey.alias : undefined;
+    if (alias !== undefined && !/^alias\/[a-zA-Z0-9/_-]+$/.test(alias)) {
+      errors.push(
+        `KMS key alias '${alias}' must start with alias/ and use only a-z, 0-9, /, _ and -`
+      );
+    }
+    if (alias?.startsWith('alias/aws/')) {
+      errors.push(`KMS key alias '${alias}' uses the reserved alias/aws/ prefix`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Creates the key policy for a bucket's KMS key
+ * Administrators can manage but not use the key. Each grant lets its principals use the key only
+ * through S3 in the bucket's region and only for objects in the bucket.
+ */
+export function createBucketKeyPolicy(options: {
+  region: string;
+  bucketArn: string;
+  administratorArns: readonly string[];
+  grants: readonly {
+    sid: string;
+    principal: S3ResolvedGrantPrincipal;
+    actions: readonly string[];
+  }[];
+}): PolicyDocument {
+  const statements: PolicyStatement[] = [
+    {
+      sid: 'KeyAdministration',
+      effect: 'Allow',
+      actions: [...S3_KMS_ADMIN_ACTIONS],
+      resources: '*',
+      principals: [{ type: 'AWS', identifiers: [...options.administratorArns] }],
+    },
+  ];
+
+  // Grants of the same kind share a statement, as long as their conditions match
+  const grantStatements: PolicyStatement[] = [];
+  options.grants.forEach(grant => {
+    const conditions = mergeConditions(
+      {
+        StringEquals: { 'kms:ViaService': `s3.${options.region}.amazonaws.com` },
+        StringLike: {
+          'kms:EncryptionContext:aws:s3:arn': [options.bucketArn, `${options.bucketArn}/*`],
+        },
+      },
+      principalConditions(grant.principal)
+    );
+    const existing = grantStatements.find(
+      statement =>
+        statement.sid === grant.sid &&
+        statement.principals?.[0]?.type === grant.principal.type &&
+        JSON.stringify(statement.actions) === JSON.stringify(grant.actions) &&
+        JSON.stringify(statement.conditions) === JSON.stringify(conditions)
+    );
+    const principal = existing?.principals?.[0];
+    if (principal && Array.isArray(principal.identifiers)) {
+      if (!principal.identifiers.includes(grant.principal.identifier)) {
+        principal.identifiers.push(grant.principal.identifier);
+      }
+      return;
+    }
+    grantStatements.push({
+      sid: grant.sid,
+      effect: 'Allow',
+      actions: [...grant.actions],
+      resources: '*',
+      principals: [{ type: grant.principal.type, identifiers: [grant.principal.identifier] }],
+      conditions,
+    });
+  });
+
+  // Statement IDs must be unique within the policy
+  grantStatements.forEach(statement => {
+    const sid = statement.sid ?? '';
+    let unique = sid;
+    for (let suffix = 2; statements.some(other => other.sid === unique); suffix++) {
+      unique = `${sid}${suffix}`;
+    }
+    statements.push({ ...statement, sid: unique });
+  });
+
+  return {
+    version: '2012-10-17',
+    statements,
+  };
+}
+
+/**
+ * Merges policy condition blocks, combining keys under the same operator
+ */
+function mergeConditions(
+  ...blocks: Record<string, Record<string, string | string[]>>[]
+): Record<string, Record<string, string | string[]>> {
+  const merged: Record<string, Record<string, string | string[]>> = {};
+  blocks.forEach(block =>
+    Object.entries(block).forEach(([operator, values]) => {
+      merged[operator] = { ...merged[operator], ...values };
+    })
+  );
+  return merged;
+}
+
+/**
+ * Confused deputy conditions for service principals
+ */
+function principalConditions(
+  principal: S3ResolvedGrantPrincipal
+): Record<string, Record<string, string | string[]>> {
+  return {
+    ...(principal.sourceAccount && {
+      StringEquals: { 'aws:SourceAccount': principal.sourceAccount },
+    }),
+    ...(principal.sourceArn && { ArnLike: { 'aws:SourceArn': principal.sourceArn } }),
+  };
+}
+
+/**
+ * Whether a grant principal is an AWS service rather than an IAM principal ARN
+ */
+export function isServicePrincipal(principal: S3GrantPrincipal): principal is S3ServicePrincipal {
+  return typeof principal === 'object' && 'service' in principal;
+}
+
+/**
+ * Validates a bucket grant
+ */
+export function validateGrant(
+  principal: S3GrantPrincipal,
+  options: S3GrantOptions = {}
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (isServicePrincipal(principal)) {
+    if (!principal.service) {
+      errors.push('Service principal grants need a service');
+    }
+    if (principal.sourceArn === undefined && principal.sourceAccount === undefined) {
+      errors.push(
+        `Grant to ${principal.service} needs sourceArn or sourceAccount to prevent confused deputy access`
+      );
+    }
+  }
+
+  (options.prefixes ?? []).forEach(prefix => {
+    if (prefix === '') {
+      errors.push('Grant prefixes cannot be empty; leave out prefixes to grant the whole bucket');
+    } else if (/[*?]/.test(prefix)) {
+      errors.push(`Grant prefix '${prefix}' cannot contain wildcards`);
+    } else if (prefix.startsWith('/')) {
+      errors.push(`Grant prefix '${prefix}' cannot start with /`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Creates the bucket policy statements for a grant
+ * Allows the access level's actions, limited to the prefixes and VPC endpoints, and denies
+ * uploads that are not encrypted with the required KMS key
+ */
+export function createGrantPolicy(
+  access: S3GrantAccess,
+  grant: {
+    bucketArn: string;
+    principal: S3ResolvedGrantPrincipal;
+    prefixes?: readonly string[];
+    kmsKeyArn?: string;
+    sourceVpces?: readonly string[];
+  }
+): PolicyDocument {
+  const sid = S3_GRANT_SIDS[access];
+  const actions = S3_GRANT_ACTIONS[access];
+  const { bucketArn } = grant;
+  const prefixes = grant.prefixes ?? [];
+  const principals: PolicyStatement['principals'] = [
+    { type: grant.principal.type, identifiers: grant.principal.identifier },
+  ];
+  const conditions = mergeConditions(
+    principalConditions(grant.principal),
+    grant.sourceVpces && grant.sourceVpces.length > 0
+      ? { StringEquals: { 'aws:SourceVpce': [...grant.sourceVpces] } }
+      : {}
+  );
+  const withConditions = (extra: Record<string, Record<string, string | string[]>> = {}) => {
+    const merged = mergeConditions(conditions, extra);
+    return Object.keys(merged).length > 0 ? { conditions: merged } : {};
+  };
+  const objects =
+    prefixes.length > 0 ? prefixes.map(prefix => `${bucketArn}/${prefix}*`) : `${bucketArn}/*`;
+
+  const statements: PolicyStatement[] = [];
+  if (prefixes.length === 0) {
+    statements.push({
+      sid,
+      effect: 'Allow',
+      principals,
+      actions: [...new Set<string>([...actions.objects, ...actions.bucket])],
+      resources: actions.bucket.length > 0 ? [bucketArn, `${bucketArn}/*`] : objects,
+      ...withConditions(),
+    });
+  } else {
+    statements.push({
+      sid,
+      effect: 'Allow',
+      principals,
+      actions: [...actions.objects],
+      resources: objects,
+      ...withConditions(),
+    });
+    // Listing is limited to the prefixes; other bucket-level actions are not granted
+    if (actions.bucket.length > 0) {
+      statements.push({
+        sid: `${sid}List`,
+        effect: 'Allow',
+        principals,
+        actions: 's3:ListBucket',
+        resources: bucketArn,
+        ...withConditions({ StringLike: { 's3:prefix': prefixes.map(prefix => `${prefix}*`) } }),
+      });
+    }
+  }
+
+  if (grant.kmsKeyArn && access !== 'read') {
+    statements.push({
+      sid: `${sid}RequireKmsKey`,
+      effect: 'Deny',
+      principals,
+      actions: 's3:PutObject',
+      resources: objects,
+      conditions: {
+        StringNotEquals: { 's3:x-amz-server-side-encryption-aws-kms-key-id': grant.kmsKeyArn },
+      },
+    });
+  }
+
+  return {
+    version: '2012-10-17',
+    statements,
+  };
+}
+
+/**
+ * Validates access logging for a bucket
+ */
+export function validateLoggingConfig(
+  config: S3LoggingConfig,
+  bucketName: string
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const logBucket = config.logBucket ?? {};
+
+  if (config.targetBucket === bucketName || logBucket.name === bucketName) {
+    errors.push(
+      `Bucket '${bucketName}' cannot log to itself; every log delivery would be logged again`
+    );
+  }
+  if (config.targetBucket !== undefined && config.logBucket) {
+    errors.push('logBucket settings only apply when targetBucket is left out');
+  }
+  if (
+    logBucket.expirationDays !== undefined &&
+    (!Number.isInteger(logBucket.expirationDays) || logBucket.expirationDays < 1)
+  ) {
+    errors.push('Log bucket expirationDays must be a positive whole number of days');
+  }
+  if (
+    typeof logBucket.archiveDays === 'number' &&
+    (!Number.isInteger(logBucket.archiveDays) || logBucket.archiveDays < 0)
+  ) {
+    errors.push('Log bucket archiveDays must be a whole number of days');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Creates the lifecycle rules of an access log bucket
+ * Logs are archived and then expired; archiving is skipped when logs expire first
+ */
+export function createLogBucketLifecycleRules(config: S3LogBucketConfig = {}): S3LifecycleRule[] {
+  const defaults = S3_LOG_BUCKET_DEFAULTS;
+  const expirationDays = config.expirationDays ?? defaults.expirationDays;
+  const archiveDays = config.archiveDays ?? defaults.archiveDays;
+
+  return [
+    ...(archiveDays !== false && archiveDays < expirationDays
+      ? [
+          {
+            id: 'archive-access-logs',
+            enabled: true,
+            transitions: [{ days: archiveDays, storageClass: 'GLACIER' }],
+          },
+        ]
+      : []),
+    {
+      id: 'expire-access-logs',
+      enabled: true,
+      expiration: { days: expirationDays },
+    },
+    {
+      id: 'noncurrent-version-expiration',
+      enabled: true,
+      noncurrentVersionExpiration: { noncurrentDays: defaults.noncurrentDays },
+    },
+  ];
+}
+
+/**
+ * Creates the bucket policy statement that lets S3 deliver a bucket's server access logs
+ */
+export function createAccessLogDeliveryPolicy(
+  logBucketArn: string,
+  source: { bucketArn: string; accountId: string; prefix?: string }
+): PolicyDocument {
+  return {
+    version: '2012-10-17',
+    statements: [
+      {
+        sid: S3_LOG_BUCKET_DEFAULTS.sid,
+        effect: 'Allow',
+        principals: [{ type: 'Service', identifiers: S3_LOG_BUCKET_DEFAULTS.servicePrincipal }],
+        actions: 's3:PutObject',
+        resources: `${logBucketArn}/${source.prefix ?? ''}*`,
+        conditions: {
+          ArnLike: { 'aws:SourceArn': source.bucketArn },
+          StringEquals: { 'aws:SourceAccount': source.accountId },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Creates the bucket policy statement that lets a CloudFront distribution read objects through
+ * Origin Access Control
+ */
+export function createCloudFrontAccessPolicy(
+  bucketArn: string,
+  distributionArn: string
+): PolicyDocument {
+  return {
+    version: '2012-10-17',
+    statements: [
+      {
+        sid: S3_CLOUDFRONT_DEFAULTS.sid,
+        effect: 'Allow',
+        principals: [{ type: 'Service', identifiers: S3_CLOUDFRONT_DEFAULTS.servicePrincipal }],
+        actions: 's3:GetObject',
+        resources: `${bucketArn}/*`,
+        conditions: {
+          StringEquals: { 'AWS:SourceArn': distributionArn },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Collects an error for each name used by more than one configuration
+ */
+function duplicateNameErrors(kind: string, configs: readonly { name: string }[]): string[] {
+  const names = configs.map(config => config.name);
+  return names
+    .filter((name, index) => names.indexOf(name) !== index)
+    .filter((name, index, duplicates) => duplicates.indexOf(name) === index)
+    .map(name => `Duplicate ${kind} configuration name '${name}'`);
+}
+
+/**
+ * Validates Intelligent-Tiering archive configurations
+ */
+export function validateIntelligentTieringConfig(configs: readonly S3IntelligentTieringConfig[]): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors = duplicateNameErrors('Intelligent-Tiering', configs);
+  const limits = S3_INTELLIGENT_TIERING_LIMITS;
+
+  configs.forEach(config => {
+    const { archiveAccessDays, deepArchiveAccessDays } = config;
+    if (archiveAccessDays === undefined && deepArchiveAccessDays === undefined) {
+      errors.push(
+        `Intelligent-Tiering configuration '${config.name}' needs archiveAccessDays or deepArchiveAccessDays`
+      );
+    }
+    if (
+      archiveAccessDays !== undefined &&
+      (archiveAccessDays < limits.ARCHIVE_ACCESS.minimum ||
+        archiveAccessDays > limits.ARCHIVE_ACCESS.maximum)
+    ) {
+      errors.push(
+        `Intelligent-Tiering configuration '${config.name}' archiveAccessDays must be between ${limits.ARCHIVE_ACCESS.minimum} and ${limits.ARCHIVE_ACCESS.maximum}`
+      );
+    }
+    if (
+      deepArchiveAccessDays !== undefined &&
+      (deepArchiveAccessDays < limits.DEEP_ARCHIVE_ACCESS.minimum ||
+        deepArchiveAccessDays > limits.DEEP_ARCHIVE_ACCESS.maximum)
+    ) {
+      errors.push(
+        `Intelligent-Tiering configuration '${config.name}' deepArchiveAccessDays must be between ${limits.DEEP_ARCHIVE_ACCESS.minimum} and ${limits.DEEP_ARCHIVE_ACCESS.maximum}`
+      );
+    }
+    if (
+      archiveAccessDays !== undefined &&
+      deepArchiveAccessDays !== undefined &&
+      deepArchiveAccessDays <= archiveAccessDays
+    ) {
+      errors.push(
+        `Intelligent-Tiering configuration '${config.name}' deepArchiveAccessDays must be greater than archiveAccessDays`
+      );
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates inventory report configurations
+ */
+export function validateInventoryConfig(configs: readonly S3InventoryConfig[]): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors = duplicateNameErrors('inventory', configs);
+  const fields: readonly string[] = S3_INVENTORY_OPTIONAL_FIELDS;
+
+  configs.forEach(config => {
+    (config.optionalFields ?? [])
+      .filter(field => !fields.includes(field))
+      .forEach(field => {
+        errors.push(
+          `Inventory configuration '${config.name}' cannot list unknown field '${field}'`
+        );
+      });
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates storage class analysis configurations
+ */
+export function validateAnalyticsConfig(configs: readonly S3AnalyticsConfig[]): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors = duplicateNameErrors('analytics', configs);
+
+  configs.forEach(config => {
+    if (config.destination === undefined && config.destinationPrefix !== undefined) {
+      errors.push(
+        `Analytics configuration '${config.name}' has a destinationPrefix but no destination`
+      );
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Creates the bucket policy statement that lets S3 deliver a bucket's inventory reports and
+ * storage class analysis exports
+ */
+export function createReportDeliveryPolicy(
+  destinationBucketArn: string,
+  source: { bucketArn: string; accountId: string; prefix?: string }
+): PolicyDocument {
+  return {
+    version: '2012-10-17',
+    statements: [
+      {
+        sid: S3_REPORT_DELIVERY_DEFAULTS.sid,
+        effect: 'Allow',
+        principals: [
+          { type: 'Service', identifiers: S3_REPORT_DELIVERY_DEFAULTS.servicePrincipal },
+        ],
+        actions: 's3:PutObject',
+        resources: `${destinationBucketArn}/${source.prefix ?? ''}*`,
+        conditions: {
+          ArnLike: { 'aws:SourceArn': source.bucketArn },
+          StringEquals: {
+            'aws:SourceAccount': source.accountId,
+            's3:x-amz-acl': 'bucket-owner-full-control',
+          },
+        },
+      },
+    ],
+  };
+}
+
 /**
  * All S3 defaults consolidated
  */
@@ -338,4 +1413,10 @@ export const S3_DEFAULTS = {
   storageClasses: S3_STORAGE_CLASSES,
   corsWeb: S3_CORS_WEB_DEFAULTS,
   corsApi: S3_CORS_API_DEFAULTS,
+  replication: S3_REPLICATION_DEFAULTS,
+  kmsKey: S3_KMS_KEY_DEFAULTS,
+  logBucket: S3_LOG_BUCKET_DEFAULTS,
+  inventory: S3_INVENTORY_DEFAULTS,
+  reportDelivery: S3_REPORT_DELIVERY_DEFAULTS,
+  cloudFront: S3_CLOUDFRONT_DEFAULTS,
 } as const;
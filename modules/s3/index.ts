@@ -2,11 +2,17 @@
  * S3 Module - Secure object storage
  *
  * Provides a secure, production-ready S3 bucket with:
- * - Encryption at rest by default (AES256)
+ * - Encryption at rest by default (AES256), or with a dedicated customer-managed KMS key
  * - Versioning enabled for data protection
  * - Public access blocked by default
  * - Lifecycle management for cost optimization
+ * - Intelligent-Tiering archive tiers, inventory reports and storage class analysis
+ * - Replication across regions and accounts
+ * - Private origins for CloudFront through Origin Access Control
+ * - Object Lock (WORM) retention
+ * - Access logging into a created or shared, hardened log bucket
  * - Comprehensive security policies
+ * - Grants limited by prefix, VPC endpoint and KMS key, for IAM and service principals
  * - Proper tagging and monitoring
  *
  * @example
@@ -17,6 +23,7 @@
  * const bucket = new S3Component('documents', {
  *   name: 'my-company-documents',
  * });
+ * bucket.finalize();
  *
  * // Bucket with custom lifecycle rules
  * const dataBucket = new S3Component('data', {
@@ -78,8 +85,21 @@ export type {
   S3TopicConfig,
   S3QueueConfig,
   S3LoggingConfig,
+  S3LogBucketConfig,
+  S3IntelligentTieringConfig,
+  S3InventoryConfig,
+  S3AnalyticsConfig,
   S3CorsRule,
   S3WebsiteConfig,
+  S3ReplicationConfig,
+  S3ReplicationDestination,
+  S3ObjectLockConfig,
+  S3KmsKeyConfig,
+  S3GrantAccess,
+  S3GrantPrincipal,
+  S3ServicePrincipal,
+  S3ResolvedGrantPrincipal,
+  S3GrantOptions,
 } from './types';
 
 // Export defaults and utilities for advanced users
@@ -99,7 +119,41 @@ export {
   S3_CORS_API_DEFAULTS,
   generateSecureBucketName,
   validateBucketName,
+  validateLifecycleRules,
+  S3_TRANSITION_ORDER,
+  S3_TRANSITION_MINIMUM_DAYS,
   createSecureBucketPolicy,
+  mergeBucketPolicies,
+  S3_REPLICATION_DEFAULTS,
+  validateReplicationConfig,
+  createReplicationPolicy,
+  validateObjectLockConfig,
+  objectLockRetentionDays,
+  createObjectLockLifecycleRules,
+  S3_KMS_KEY_DEFAULTS,
+  S3_KMS_GRANT_ACTIONS,
+  S3_KMS_ADMIN_ACTIONS,
+  validateEncryptionConfig,
+  createBucketKeyPolicy,
+  S3_GRANT_ACTIONS,
+  S3_GRANT_SIDS,
+  isServicePrincipal,
+  validateGrant,
+  createGrantPolicy,
+  S3_CLOUDFRONT_DEFAULTS,
+  createCloudFrontAccessPolicy,
+  S3_LOG_BUCKET_DEFAULTS,
+  validateLoggingConfig,
+  createLogBucketLifecycleRules,
+  createAccessLogDeliveryPolicy,
+  S3_INTELLIGENT_TIERING_LIMITS,
+  S3_INVENTORY_DEFAULTS,
+  S3_INVENTORY_OPTIONAL_FIELDS,
+  S3_REPORT_DELIVERY_DEFAULTS,
+  validateIntelligentTieringConfig,
+  validateInventoryConfig,
+  validateAnalyticsConfig,
+  createReportDeliveryPolicy,
 } from './defaults';
 
 // Convenience re-export for common use case
@@ -13,24 +13,215 @@ import * as aws from '@pulumi/aws';
 import * as pulumi from '@pulumi/pulumi';
 import { ComponentResource, ComponentResourceOptions } from '@pulumi/pulumi';
 
-import { S3Args, S3Outputs } from './types';
-import { S3_DEFAULTS, validateBucketName, createSecureBucketPolicy } from './defaults';
+import { createTrustPolicy, policyDocumentToJson } from '../iam/defaults';
+import {
+  S3Args,
+  S3Outputs,
+  S3GrantAccess,
+  S3GrantOptions,
+  S3GrantPrincipal,
+  S3AnalyticsConfig,
+  S3IntelligentTieringConfig,
+  S3InventoryConfig,
+  S3KmsKeyConfig,
+  S3LoggingConfig,
+  S3ResolvedGrantPrincipal,
+  S3LifecycleRule,
+  S3ObjectLockConfig,
+  S3ReplicationConfig,
+  S3ReplicationDestination,
+} from './types';
+import {
+  S3_DEFAULTS,
+  S3_KMS_GRANT_ACTIONS,
+  S3_GRANT_SIDS,
+  isServicePrincipal,
+  validateGrant,
+  validateBucketName,
+  validateEncryptionConfig,
+  validateLifecycleRules,
+  validateReplicationConfig,
+  validateObjectLockConfig,
+  createSecureBucketPolicy,
+  createReplicationPolicy,
+  createBucketKeyPolicy,
+  createGrantPolicy,
+  createCloudFrontAccessPolicy,
+  validateLoggingConfig,
+  validateIntelligentTieringConfig,
+  validateInventoryConfig,
+  validateAnalyticsConfig,
+  createReportDeliveryPolicy,
+  createLogBucketLifecycleRules,
+  createObjectLockLifecycleRules,
+  createAccessLogDeliveryPolicy,
+  mergeBucketPolicies,
+} from './defaults';
+
+/**
+ * Names of the components whose merged documents are waiting for finalize()
+ * Nothing is rendered until finalize() is called, so a program run by the Pulumi engine that
+ * exits with components left open fails instead of hanging on their documents
+ */
+const unfinalizedComponents = new Set<string>();
+let unfinalizedCheckRegistered = false;
+
+function trackUntilFinalized(name: string): void {
+  unfinalizedComponents.add(name);
+  if (!unfinalizedCheckRegistered) {
+    unfinalizedCheckRegistered = true;
+    process.on('beforeExit', () => {
+      if (unfinalizedComponents.size > 0 && pulumi.runtime.hasEngine()) {
+        const names = [...unfinalizedComponents].map(component => `'${component}'`).join(', ');
+        throw new Error(
+          `S3 components ${names} were never finalized: call finalize() after their last grant.`
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Maps a lifecycle rule to the provider's rule shape
+ */
+function toLifecycleRule(rule: S3LifecycleRule) {
+  return {
+    id: rule.id,
+    status: rule.enabled === false ? 'Disabled' : 'Enabled',
+    ...((rule.prefix || rule.tags) && {
+      filter: {
+        ...(rule.prefix && { prefix: rule.prefix }),
+        ...(rule.tags && { tags: rule.tags }),
+      },
+    }),
+    ...(rule.transitions && {
+      transitions: rule.transitions.map(t => ({
+        ...(t.days !== undefined && { days: t.days }),
+        ...(t.date !== undefined && { date: t.date }),
+        storageClass: t.storageClass,
+      })),
+    }),
+    ...(rule.expiration && {
+      expiration: {
+        ...(rule.expiration.days !== undefined && { days: rule.expiration.days }),
+        ...(rule.expiration.date !== undefined && { date: rule.expiration.date }),
+        ...(rule.expiration.expiredObjectDeleteMarker !== undefined && {
+          expiredObjectDeleteMarker: rule.expiration.expiredObjectDeleteMarker,
+        }),
+      },
+    }),
+    ...(rule.abortIncompleteMultipartUpload && {
+      abortIncompleteMultipartUpload: {
+        daysAfterInitiation: rule.abortIncompleteMultipartUpload.daysAfterInitiation,
+      },
+    }),
+    ...(rule.noncurrentVersionExpiration && {
+      noncurrentVersionExpiration: {
+        noncurrentDays: rule.noncurrentVersionExpiration.noncurrentDays,
+      },
+    }),
+    ...(rule.noncurrentVersionTransitions && {
+      noncurrentVersionTransitions: rule.noncurrentVersionTransitions.map(t => ({
+        noncurrentDays: t.noncurrentDays,
+        storageClass: t.storageClass,
+      })),
+    }),
+  };
+}
+
+/**
+ * Resolves a grant principal's inputs
+ */
+function resolveGrantPrincipal(
+  principal: S3GrantPrincipal
+): pulumi.Output<S3ResolvedGrantPrincipal> {
+  if (isServicePrincipal(principal)) {
+    return pulumi
+      .all([principal.sourceArn, principal.sourceAccount])
+      .apply(([sourceArn, sourceAccount]) => ({
+        type: 'Service' as const,
+        identifier: principal.service,
+        ...(sourceArn && { sourceArn }),
+        ...(sourceAccount && { sourceAccount }),
+      }));
+  }
+  return pulumi.output(principal).apply(identifier => ({ type: 'AWS' as const, identifier }));
+}
+
+/**
+ * Maps a replication destination's prefix and tags to the provider's rule filter
+ */
+function toReplicationFilter(destination: S3ReplicationDestination) {
+  const tags = destination.tags ?? {};
+  const tagFilters = Object.entries(tags).map(([key, value]) => ({ key, value }));
+  const [tag] = tagFilters;
+  if (!tag) {
+    return destination.prefix ? { prefix: destination.prefix } : {};
+  }
+  if (!destination.prefix && tagFilters.length === 1) {
+    return { tag };
+  }
+  return {
+    and: {
+      ...(destination.prefix && { prefix: destination.prefix }),
+      tags,
+    },
+  };
+}
+
+/**
+ * Defaults the replica key of destinations that are S3 components with their own KMS key
+ */
+function withReplicaKeys(config: S3ReplicationConfig): S3ReplicationConfig {
+  return {
+    ...config,
+    destinations: config.destinations.map(destination =>
+      destination.kmsKeyArn === undefined &&
+      destination.bucket instanceof S3Component &&
+      destination.bucket.kmsKey
+        ? { ...destination, kmsKeyArn: destination.bucket.kmsKey.arn }
+        : destination
+    ),
+  };
+}
 
 /**
  * S3 Component for secure object storage
  */
 export class S3Component extends ComponentResource implements S3Outputs {
   private readonly componentName: string;
+  private readonly lifecycleRules: S3LifecycleRule[];
+  private readonly policyDocuments: pulumi.Input<string>[];
+  private finalized = false;
+  private readonly finalization: Promise<boolean>;
+  private readonly resolveFinalization: (finalized: boolean) => void;
+  private readonly versioningEnabled: pulumi.Input<boolean> | undefined;
+  private readonly objectLockConfig: S3ObjectLockConfig | undefined;
+  private readonly keyGrants: {
+    sid: string;
+    principal: S3GrantPrincipal;
+    actions: readonly string[];
+  }[];
   public readonly bucket: aws.s3.Bucket;
   public readonly publicAccessBlock: aws.s3.BucketPublicAccessBlock;
   public readonly encryption: aws.s3.BucketServerSideEncryptionConfigurationV2;
   public readonly versioning: aws.s3.BucketVersioningV2;
-  public readonly lifecycle?: aws.s3.BucketLifecycleConfigurationV2;
+  public lifecycle?: aws.s3.BucketLifecycleConfigurationV2;
   public readonly notification?: aws.s3.BucketNotification;
   public readonly logging?: aws.s3.BucketLoggingV2;
+  public readonly logBucket?: S3Component;
+  public readonly intelligentTiering?: aws.s3.BucketIntelligentTieringConfiguration[];
+  public readonly inventory?: aws.s3.Inventory[];
+  public readonly analytics?: aws.s3.AnalyticsConfiguration[];
   public readonly cors?: aws.s3.BucketCorsConfigurationV2;
-  public readonly bucketPolicy?: aws.s3.BucketPolicy;
+  public bucketPolicy?: aws.s3.BucketPolicy;
   public readonly website?: aws.s3.BucketWebsiteConfigurationV2;
+  public readonly replicationRole?: aws.iam.Role;
+  public readonly replication?: aws.s3.BucketReplicationConfig;
+  public readonly objectLock?: aws.s3.BucketObjectLockConfigurationV2;
+  public readonly kmsKey?: aws.kms.Key;
+  public readonly kmsKeyAlias?: aws.kms.Alias;
+  public originAccessControl?: aws.cloudfront.OriginAccessControl;
 
   // Computed outputs
   public readonly bucketName: pulumi.Output<string>;
@@ -45,6 +236,14 @@ export class S3Component extends ComponentResource implements S3Outputs {
 
     this.componentName = name;
 
+    // Merged documents are rendered once finalize() is called
+    let resolveFinalization: (finalized: boolean) => void = () => undefined;
+    this.finalization = new Promise(resolve => {
+      resolveFinalization = resolve;
+    });
+    this.resolveFinalization = resolveFinalization;
+    trackUntilFinalized(name);
+
     // Validate bucket name
     const bucketName = args.name;
     const validation = validateBucketName(bucketName);
@@ -52,6 +251,79 @@ export class S3Component extends ComponentResource implements S3Outputs {
       throw new Error(`Invalid bucket name: ${validation.errors.join(', ')}`);
     }
 
+    if (args.encryption) {
+      const encryptionValidation = validateEncryptionConfig(args.encryption);
+      if (!encryptionValidation.isValid) {
+        throw new Error(
+          `Invalid encryption configuration: ${encryptionValidation.errors.join(', ')}`
+        );
+      }
+    }
+
+    const replicationConfig = args.replication && withReplicaKeys(args.replication);
+    if (replicationConfig) {
+      const replicationValidation = validateReplicationConfig(
+        replicationConfig,
+        args.versioning,
+        Boolean(replicationConfig.sourceKmsKeyArn || args.encryption?.createKmsKey)
+      );
+      if (!replicationValidation.isValid) {
+        throw new Error(
+          `Invalid replication configuration: ${replicationValidation.errors.join(', ')}`
+        );
+      }
+    }
+
+    if (args.logging) {
+      const loggingValidation = validateLoggingConfig(args.logging, bucketName);
+      if (!loggingValidation.isValid) {
+        throw new Error(`Invalid logging configuration: ${loggingValidation.errors.join(', ')}`);
+      }
+    }
+
+    if (args.intelligentTiering) {
+      const tieringValidation = validateIntelligentTieringConfig(args.intelligentTiering);
+      if (!tieringValidation.isValid) {
+        throw new Error(
+          `Invalid Intelligent-Tiering configuration: ${tieringValidation.errors.join(', ')}`
+        );
+      }
+    }
+
+    if (args.inventory) {
+      const inventoryValidation = validateInventoryConfig(args.inventory);
+      if (!inventoryValidation.isValid) {
+        throw new Error(
+          `Invalid inventory configuration: ${inventoryValidation.errors.join(', ')}`
+        );
+      }
+    }
+
+    if (args.analytics) {
+      const analyticsValidation = validateAnalyticsConfig(args.analytics);
+      if (!analyticsValidation.isValid) {
+        throw new Error(
+          `Invalid analytics configuration: ${analyticsValidation.errors.join(', ')}`
+        );
+      }
+    }
+
+    this.objectLockConfig = args.objectLock;
+    const defaultLifecycleRules = args.objectLock
+      ? createObjectLockLifecycleRules(args.objectLock)
+      : S3_DEFAULTS.lifecycle;
+    if (args.objectLock) {
+      const objectLockValidation = validateObjectLockConfig(args.objectLock, {
+        ...args,
+        lifecycleRules: args.lifecycleRules || defaultLifecycleRules,
+      });
+      if (!objectLockValidation.isValid) {
+        throw new Error(
+          `Invalid Object Lock configuration: ${objectLockValidation.errors.join(', ')}`
+        );
+      }
+    }
+
     // Merge tags with defaults
     const tags = pulumi.all([args.tags || {}]).apply(([userTags]) => ({
       ...S3_DEFAULTS.tags,
@@ -65,6 +337,8 @@ export class S3Component extends ComponentResource implements S3Outputs {
       {
         bucket: bucketName,
         forceDestroy: args.forceDestroy || false,
+        // Object Lock can only be enabled when the bucket is created
+        ...(args.objectLock && { objectLockConfiguration: { objectLockEnabled: 'Enabled' } }),
         tags,
       },
       { parent: this }
@@ -107,8 +381,24 @@ export class S3Component extends ComponentResource implements S3Outputs {
       { parent: this, dependsOn: [objectOwnership] }
     );
 
+    // Create a dedicated KMS key when requested; grants add to its key policy
+    this.keyGrants = [];
+    const createKmsKey = args.encryption?.createKmsKey;
+    if (createKmsKey) {
+      const kmsKey = this.createKmsKey(
+        typeof createKmsKey === 'object' ? createKmsKey : {},
+        bucketName,
+        tags
+      );
+      this.kmsKey = kmsKey.key;
+      this.kmsKeyAlias = kmsKey.alias;
+    }
+
     // Configure encryption
     const encryptionConfig = args.encryption || S3_DEFAULTS.encryption;
+    const bucketKeyEnabled =
+      encryptionConfig.bucketKeyEnabled ??
+      (this.kmsKey ? S3_DEFAULTS.encryption.bucketKeyEnabled : undefined);
     this.encryption = new aws.s3.BucketServerSideEncryptionConfigurationV2(
       `${name}-encryption`,
       {
@@ -116,98 +406,69 @@ export class S3Component extends ComponentResource implements S3Outputs {
         rules: [
           {
             applyServerSideEncryptionByDefault: {
-              sseAlgorithm: encryptionConfig.sseAlgorithm || 'AES256',
+              sseAlgorithm: encryptionConfig.sseAlgorithm || (this.kmsKey ? 'aws:kms' : 'AES256'),
               ...('kmsKeyId' in encryptionConfig &&
                 encryptionConfig.kmsKeyId && { kmsMasterKeyId: encryptionConfig.kmsKeyId }),
+              ...(this.kmsKey && { kmsMasterKeyId: this.kmsKey.arn }),
             },
-            ...(encryptionConfig.bucketKeyEnabled !== undefined && {
-              bucketKeyEnabled: encryptionConfig.bucketKeyEnabled,
-            }),
+            ...(bucketKeyEnabled !== undefined && { bucketKeyEnabled }),
           },
         ],
       },
       { parent: this }
     );
 
-    // Configure versioning
+    // Configure versioning; replication and Object Lock always need it
     const versioningConfig = args.versioning || S3_DEFAULTS.versioning;
+    this.versioningEnabled = args.replication || args.objectLock ? true : versioningConfig.enabled;
     this.versioning = new aws.s3.BucketVersioningV2(
       `${name}-versioning`,
       {
         bucket: this.bucket.id,
         versioningConfiguration: {
-          status: versioningConfig.enabled ? 'Enabled' : 'Suspended',
+          status: this.versioningEnabled ? 'Enabled' : 'Suspended',
           mfaDelete: versioningConfig.mfaDelete ? 'Enabled' : 'Disabled',
         },
       },
       { parent: this }
     );
 
-    // Configure lifecycle rules
-    const lifecycleRules = args.lifecycleRules || S3_DEFAULTS.lifecycle;
-    if (lifecycleRules.length > 0) {
-      this.lifecycle = new aws.s3.BucketLifecycleConfigurationV2(
-        `${name}-lifecycle`,
+    // Configure Object Lock default retention
+    if (args.objectLock) {
+      this.objectLock = new aws.s3.BucketObjectLockConfigurationV2(
+        `${name}-object-lock`,
         {
           bucket: this.bucket.id,
-          rules: lifecycleRules.map(rule => ({
-            id: rule.id,
-            status: rule.enabled === false ? 'Disabled' : 'Enabled',
-            ...((rule.prefix || rule.tags) && {
-              filter: {
-                ...(rule.prefix && { prefix: rule.prefix }),
-                ...(rule.tags && { tags: rule.tags }),
-              },
-            }),
-            ...(rule.transitions && {
-              transitions: rule.transitions.map(t => ({
-                ...(t.days !== undefined && { days: t.days }),
-                ...(t.date !== undefined && { date: t.date }),
-                storageClass: t.storageClass,
-              })),
-            }),
-            ...(rule.expiration && {
-              expiration: {
-                ...(rule.expiration.days !== undefined && { days: rule.expiration.days }),
-                ...(rule.expiration.date !== undefined && { date: rule.expiration.date }),
-                ...(rule.expiration.expiredObjectDeleteMarker !== undefined && {
-                  expiredObjectDeleteMarker: rule.expiration.expiredObjectDeleteMarker,
-                }),
-              },
-            }),
-            ...(rule.abortIncompleteMultipartUpload && {
-              abortIncompleteMultipartUpload: {
-                daysAfterInitiation: rule.abortIncompleteMultipartUpload.daysAfterInitiation,
-              },
-            }),
-            ...(rule.noncurrentVersionExpiration && {
-              noncurrentVersionExpiration: {
-                noncurrentDays: rule.noncurrentVersionExpiration.noncurrentDays,
-              },
-            }),
-            ...(rule.noncurrentVersionTransitions && {
-              noncurrentVersionTransitions: rule.noncurrentVersionTransitions.map(t => ({
-                noncurrentDays: t.noncurrentDays,
-                storageClass: t.storageClass,
-              })),
-            }),
-          })),
+          objectLockEnabled: 'Enabled',
+          rule: {
+            defaultRetention: {
+              mode: args.objectLock.mode,
+              ...(args.objectLock.days !== undefined && { days: args.objectLock.days }),
+              ...(args.objectLock.years !== undefined && { years: args.objectLock.years }),
+            },
+          },
         },
-        { parent: this }
+        { parent: this, dependsOn: [this.versioning] }
       );
     }
 
-    // Configure logging
+    // Configure lifecycle rules; more can be added with addLifecycleRule
+    this.lifecycleRules = [...(args.lifecycleRules || defaultLifecycleRules)];
+    const lifecycleValidation = validateLifecycleRules(this.lifecycleRules);
+    if (!lifecycleValidation.isValid) {
+      throw new Error(`Invalid lifecycle rules: ${lifecycleValidation.errors.join(', ')}`);
+    }
+    if (this.lifecycleRules.length > 0) {
+      this.lifecycle = this.createLifecycleConfiguration();
+    }
+
+    // Configure logging, into a created log bucket unless a target bucket is given
     if (args.logging) {
-      this.logging = new aws.s3.BucketLoggingV2(
-        `${name}-logging`,
-        {
-          bucket: this.bucket.id,
-          targetBucket: args.logging.targetBucket,
-          targetPrefix: args.logging.targetPrefix || '',
-        },
-        { parent: this }
-      );
+      const logging = this.createLogging(args.logging, bucketName, args.tags);
+      this.logging = logging.configuration;
+      if (logging.logBucket) {
+        this.logBucket = logging.logBucket;
+      }
     }
 
     // Configure CORS
@@ -255,16 +516,10 @@ export class S3Component extends ComponentResource implements S3Outputs {
       );
     }
 
-    // Configure bucket policy
+    // Configure bucket policy; grants are merged into the same policy
+    this.policyDocuments = [];
     if (args.policy) {
-      this.bucketPolicy = new aws.s3.BucketPolicy(
-        `${name}-policy`,
-        {
-          bucket: this.bucket.id,
-          policy: args.policy,
-        },
-        { parent: this, dependsOn: [this.publicAccessBlock] }
-      );
+      this.addPolicyDocument(args.policy);
     }
 
     // Configure notifications
@@ -326,6 +581,19 @@ export class S3Component extends ComponentResource implements S3Outputs {
       );
     }
 
+    // Configure Intelligent-Tiering archive tiers, inventory reports and storage class analysis
+    if (args.intelligentTiering && args.intelligentTiering.length > 0) {
+      this.intelligentTiering = args.intelligentTiering.map(config =>
+        this.createIntelligentTiering(config)
+      );
+    }
+    if (args.inventory && args.inventory.length > 0) {
+      this.inventory = args.inventory.map(config => this.createInventory(config));
+    }
+    if (args.analytics && args.analytics.length > 0) {
+      this.analytics = args.analytics.map(config => this.createAnalytics(config));
+    }
+
     // Set computed outputs
     this.bucketName = this.bucket.id;
     this.bucketArn = this.bucket.arn;
@@ -337,6 +605,13 @@ export class S3Component extends ComponentResource implements S3Outputs {
       this.websiteDomain = this.website.websiteDomain;
     }
 
+    // Configure replication
+    if (replicationConfig) {
+      const replication = this.createReplication(replicationConfig, tags);
+      this.replicationRole = replication.role;
+      this.replication = replication.configuration;
+    }
+
     // Register outputs
     this.registerOutputs({
       bucket: this.bucket,
@@ -346,9 +621,18 @@ export class S3Component extends ComponentResource implements S3Outputs {
       lifecycle: this.lifecycle,
       notification: this.notification,
       logging: this.logging,
+      logBucket: this.logBucket,
+      intelligentTiering: this.intelligentTiering,
+      inventory: this.inventory,
+      analytics: this.analytics,
       cors: this.cors,
       bucketPolicy: this.bucketPolicy,
       website: this.website,
+      replicationRole: this.replicationRole,
+      replication: this.replication,
+      objectLock: this.objectLock,
+      kmsKey: this.kmsKey,
+      kmsKeyAlias: this.kmsKeyAlias,
       bucketName: this.bucketName,
       bucketArn: this.bucketArn,
       bucketDomainName: this.bucketDomainName,
@@ -359,7 +643,7 @@ export class S3Component extends ComponentResource implements S3Outputs {
   }
 
   /**
-   * Creates a secure bucket policy for the bucket
+   * Adds secure policy statements to the bucket policy
    */
   public createSecurePolicy(
     options: {
@@ -371,137 +655,689 @@ export class S3Component extends ComponentResource implements S3Outputs {
   ): aws.s3.BucketPolicy {
     const policy = this.bucketName.apply(name => createSecureBucketPolicy(name, options));
 
-    return new aws.s3.BucketPolicy(
-      `${this.componentName}-secure-policy`,
+    return this.addPolicyDocument(policy);
+  }
+
+  /**
+   * Adds a lifecycle rule to the bucket
+   * Rules from every caller end up in the bucket's single lifecycle configuration, so call this
+   * before the component is finalized (for example from other components sharing the bucket)
+   */
+  public addLifecycleRule(rule: S3LifecycleRule): this {
+    if (this.finalized) {
+      throw new Error(
+        `Cannot add lifecycle rule '${rule.id}' to S3 component '${this.componentName}': it has been finalized.`
+      );
+    }
+
+    const validation = validateLifecycleRules([...this.lifecycleRules, rule]);
+    if (!validation.isValid) {
+      throw new Error(`Invalid lifecycle rules: ${validation.errors.join(', ')}`);
+    }
+    if (this.objectLockConfig) {
+      const objectLockValidation = validateObjectLockConfig(this.objectLockConfig, {
+        lifecycleRules: [rule],
+      });
+      if (!objectLockValidation.isValid) {
+        throw new Error(
+          `Invalid Object Lock configuration: ${objectLockValidation.errors.join(', ')}`
+        );
+      }
+    }
+
+    this.lifecycleRules.push(rule);
+    if (!this.lifecycle) {
+      this.lifecycle = this.createLifecycleConfiguration();
+    }
+    return this;
+  }
+
+  /**
+   * Creates the bucket's lifecycle configuration
+   * The rules are read when the component is finalized, so rules added by addLifecycleRule after
+   * the component exists are included; adding rules after that throws
+   */
+  private createLifecycleConfiguration(): aws.s3.BucketLifecycleConfigurationV2 {
+    const rules = pulumi
+      .output(this.finalization)
+      .apply(() => this.lifecycleRules.map(toLifecycleRule));
+
+    return new aws.s3.BucketLifecycleConfigurationV2(
+      `${this.componentName}-lifecycle`,
       {
         bucket: this.bucket.id,
-        policy,
+        rules,
       },
-      { parent: this, dependsOn: [this.publicAccessBlock] }
+      { parent: this }
     );
   }
 
   /**
-   * Adds a lifecycle rule to the bucket
+   * Grants read access to the bucket through the bucket policy
+   */
+  public grantReadAccess(
+    principal: S3GrantPrincipal,
+    options: S3GrantOptions = {}
+  ): aws.s3.BucketPolicy {
+    return this.grant('read', principal, options);
+  }
+
+  /**
+   * Grants write access to the bucket through the bucket policy
+   */
+  public grantWriteAccess(
+    principal: S3GrantPrincipal,
+    options: S3GrantOptions = {}
+  ): aws.s3.BucketPolicy {
+    return this.grant('write', principal, options);
+  }
+
+  /**
+   * Grants full access to the bucket through the bucket policy
+   */
+  public grantFullAccess(
+    principal: S3GrantPrincipal,
+    options: S3GrantOptions = {}
+  ): aws.s3.BucketPolicy {
+    return this.grant('full', principal, options);
+  }
+
+  /**
+   * Creates a CloudFront Origin Access Control for the bucket, once
+   * Use it as the originAccessControlId of the distribution's origin, with the bucket's regional
+   * domain name, and allow the distribution with grantCloudFrontAccess
+   */
+  public createOriginAccessControl(): aws.cloudfront.OriginAccessControl {
+    if (this.website) {
+      throw new Error(
+        'CloudFront Origin Access Control does not work with S3 website endpoints. Remove the website configuration and set the default root object on the distribution instead.'
+      );
+    }
+
+    if (!this.originAccessControl) {
+      const defaults = S3_DEFAULTS.cloudFront;
+      this.originAccessControl = new aws.cloudfront.OriginAccessControl(
+        `${this.componentName}-oac`,
+        {
+          name: this.bucketName,
+          description: this.bucketName.apply(name => `Origin access to the ${name} S3 bucket`),
+          originAccessControlOriginType: defaults.originType,
+          signingBehavior: defaults.signingBehavior,
+          signingProtocol: defaults.signingProtocol,
+        },
+        { parent: this }
+      );
+    }
+    return this.originAccessControl;
+  }
+
+  /**
+   * Lets a CloudFront distribution read objects through the bucket's Origin Access Control
+   * Requests are only allowed when CloudFront signs them for this distribution (AWS:SourceArn)
    */
-  public addLifecycleRule(_rule: {
-    id: string;
-    enabled?: boolean;
-    prefix?: string;
-    tags?: Record<string, string>;
-    transitions?: Array<{
-      days?: number;
-      date?: string;
-      storageClass: string;
-    }>;
-    expiration?: {
-      days?: number;
-      date?: string;
-      expiredObjectDeleteMarker?: boolean;
-    };
-  }): void {
-    // This would typically be implemented by updating the lifecycle configuration
-    // For now, we'll throw an error suggesting the user configure this at creation time
-    throw new Error(
-      'Lifecycle rules should be configured at bucket creation time. Please recreate the bucket with the desired lifecycle rules.'
+  public grantCloudFrontAccess(distributionArn: pulumi.Input<string>): aws.s3.BucketPolicy {
+    this.createOriginAccessControl();
+
+    const policy = pulumi
+      .all([this.bucketArn, distributionArn])
+      .apply(([bucketArn, distribution]) =>
+        policyDocumentToJson(createCloudFrontAccessPolicy(bucketArn, distribution))
+      );
+
+    this.addKeyGrant(
+      S3_DEFAULTS.cloudFront.sid,
+      { service: S3_DEFAULTS.cloudFront.servicePrincipal, sourceArn: distributionArn },
+      ['kms:Decrypt']
     );
+    return this.addPolicyDocument(policy);
   }
 
   /**
-   * Grants read access to the bucket
+   * Lets S3 deliver another bucket's server access logs to this bucket, under the prefix
    */
-  public grantReadAccess(principalArn: string): aws.s3.BucketPolicy {
-    const policy = this.bucketArn.apply(arn =>
-      JSON.stringify({
-        Version: '2012-10-17',
-        Statement: [
+  public grantAccessLogDelivery(
+    sourceBucketArn: pulumi.Input<string>,
+    targetPrefix: pulumi.Input<string> = ''
+  ): aws.s3.BucketPolicy {
+    if (this.kmsKey) {
+      throw new Error(
+        'S3 cannot deliver access logs to a bucket encrypted with a KMS key. Use SSE-S3 for the log bucket.'
+      );
+    }
+    if (this.objectLockConfig) {
+      throw new Error(
+        'S3 cannot deliver access logs to a bucket with Object Lock default retention.'
+      );
+    }
+
+    const accountId = aws.getCallerIdentityOutput({}, { parent: this }).accountId;
+    const policy = pulumi
+      .all([this.bucket.arn, sourceBucketArn, accountId, targetPrefix])
+      .apply(([logBucketArn, bucketArn, account, prefix]) =>
+        policyDocumentToJson(
+          createAccessLogDeliveryPolicy(logBucketArn, { bucketArn, accountId: account, prefix })
+        )
+      );
+
+    return this.addPolicyDocument(policy);
+  }
+
+  /**
+   * Lets S3 deliver another bucket's inventory reports and storage class analysis exports to
+   * this bucket, under the prefix, encrypting them with the bucket's KMS key if it has one
+   */
+  public grantReportDelivery(
+    sourceBucketArn: pulumi.Input<string>,
+    destinationPrefix: pulumi.Input<string> = ''
+  ): aws.s3.BucketPolicy {
+    const accountId = aws.getCallerIdentityOutput({}, { parent: this }).accountId;
+    const policy = pulumi
+      .all([this.bucket.arn, sourceBucketArn, accountId, destinationPrefix])
+      .apply(([destinationBucketArn, bucketArn, account, prefix]) =>
+        policyDocumentToJson(
+          createReportDeliveryPolicy(destinationBucketArn, {
+            bucketArn,
+            accountId: account,
+            prefix,
+          })
+        )
+      );
+
+    // Reports written to a bucket with its own key are encrypted with that key
+    this.addKeyGrant(
+      S3_DEFAULTS.reportDelivery.sid,
+      {
+        service: S3_DEFAULTS.reportDelivery.servicePrincipal,
+        sourceArn: sourceBucketArn,
+        sourceAccount: accountId,
+      },
+      ['kms:GenerateDataKey']
+    );
+    return this.addPolicyDocument(policy);
+  }
+
+  /**
+   * Adds a grant to the bucket policy, and to the key policy of the bucket's KMS key
+   */
+  private grant(
+    access: S3GrantAccess,
+    principal: S3GrantPrincipal,
+    options: S3GrantOptions
+  ): aws.s3.BucketPolicy {
+    const validation = validateGrant(principal, options);
+    if (!validation.isValid) {
+      throw new Error(`Invalid grant: ${validation.errors.join(', ')}`);
+    }
+
+    const sourceVpces = ([] as pulumi.Input<string>[]).concat(options.sourceVpce ?? []);
+    const policy = pulumi
+      .all([
+        this.bucketArn,
+        resolveGrantPrincipal(principal),
+        options.kmsKeyArn,
+        pulumi.all(sourceVpces),
+      ])
+      .apply(([bucketArn, resolvedPrincipal, kmsKeyArn, vpces]) =>
+        policyDocumentToJson(
+          createGrantPolicy(access, {
+            bucketArn,
+            principal: resolvedPrincipal,
+            ...(options.prefixes && { prefixes: options.prefixes }),
+            ...(kmsKeyArn && { kmsKeyArn }),
+            sourceVpces: vpces,
+          })
+        )
+      );
+
+    this.addKeyGrant(S3_GRANT_SIDS[access], principal, S3_KMS_GRANT_ACTIONS[access]);
+    return this.addPolicyDocument(policy);
+  }
+
+  /**
+   * Creates the logging configuration, and the log bucket when no target bucket is given
+   * Log buckets created or shared as components get the log delivery policy for this bucket
+   */
+  private createLogging(
+    config: S3LoggingConfig,
+    bucketName: string,
+    tags: S3Args['tags']
+  ): { logBucket?: S3Component; configuration: aws.s3.BucketLoggingV2 } {
+    const name = this.componentName;
+    const defaults = S3_DEFAULTS.logBucket;
+
+    if (config.targetBucket !== undefined && !(config.targetBucket instanceof S3Component)) {
+      return {
+        configuration: new aws.s3.BucketLoggingV2(
+          `${name}-logging`,
           {
-            Sid: 'GrantReadAccess',
-            Effect: 'Allow',
-            Principal: {
-              AWS: principalArn,
-            },
-            Action: ['s3:GetObject', 's3:GetObjectVersion', 's3:ListBucket'],
-            Resource: [arn, `${arn}/*`],
+            bucket: this.bucket.id,
+            targetBucket: config.targetBucket,
+            targetPrefix: config.targetPrefix || '',
           },
-        ],
-      })
-    );
+          { parent: this }
+        ),
+      };
+    }
+
+    const logBucketConfig = config.logBucket ?? {};
+    const logBucket =
+      config.targetBucket ??
+      new S3Component(
+        `${name}-logs`,
+        {
+          name: logBucketConfig.name ?? `${bucketName}${defaults.nameSuffix}`,
+          objectOwnership: defaults.objectOwnership,
+          lifecycleRules: createLogBucketLifecycleRules(logBucketConfig),
+          ...(logBucketConfig.forceDestroy !== undefined && {
+            forceDestroy: logBucketConfig.forceDestroy,
+          }),
+          ...(tags && { tags }),
+        },
+        { parent: this }
+      );
 
-    return new aws.s3.BucketPolicy(
-      `${this.componentName}-read-policy`,
+    const targetPrefix = config.targetPrefix ?? `${bucketName}/`;
+    const deliveryPolicy = logBucket.grantAccessLogDelivery(this.bucket.arn, targetPrefix);
+    const configuration = new aws.s3.BucketLoggingV2(
+      `${name}-logging`,
       {
         bucket: this.bucket.id,
-        policy,
+        targetBucket: logBucket.bucketName,
+        targetPrefix,
       },
-      { parent: this, dependsOn: [this.publicAccessBlock] }
+      // Logs are only delivered once the log bucket allows them
+      { parent: this, dependsOn: [deliveryPolicy] }
     );
+    return { ...(config.targetBucket === undefined && { logBucket }), configuration };
   }
 
   /**
-   * Grants write access to the bucket
+   * Creates an Intelligent-Tiering configuration with the requested archive tiers
    */
-  public grantWriteAccess(principalArn: string): aws.s3.BucketPolicy {
-    const policy = this.bucketArn.apply(arn =>
-      JSON.stringify({
-        Version: '2012-10-17',
-        Statement: [
-          {
-            Sid: 'GrantWriteAccess',
-            Effect: 'Allow',
-            Principal: {
-              AWS: principalArn,
-            },
-            Action: [
-              's3:PutObject',
-              's3:PutObjectAcl',
-              's3:DeleteObject',
-              's3:DeleteObjectVersion',
-            ],
-            Resource: `${arn}/*`,
+  private createIntelligentTiering(
+    config: S3IntelligentTieringConfig
+  ): aws.s3.BucketIntelligentTieringConfiguration {
+    return new aws.s3.BucketIntelligentTieringConfiguration(
+      `${this.componentName}-tiering-${config.name}`,
+      {
+        bucket: this.bucket.id,
+        name: config.name,
+        status: config.enabled === false ? 'Disabled' : 'Enabled',
+        ...((config.prefix || config.tags) && {
+          filter: {
+            ...(config.prefix && { prefix: config.prefix }),
+            ...(config.tags && { tags: config.tags }),
           },
+        }),
+        tierings: [
+          ...(config.archiveAccessDays !== undefined
+            ? [{ accessTier: 'ARCHIVE_ACCESS', days: config.archiveAccessDays }]
+            : []),
+          ...(config.deepArchiveAccessDays !== undefined
+            ? [{ accessTier: 'DEEP_ARCHIVE_ACCESS', days: config.deepArchiveAccessDays }]
+            : []),
         ],
-      })
+      },
+      { parent: this }
     );
+  }
 
-    return new aws.s3.BucketPolicy(
-      `${this.componentName}-write-policy`,
+  /**
+   * Creates an inventory configuration, with SSE-S3 encrypted reports
+   */
+  private createInventory(config: S3InventoryConfig): aws.s3.Inventory {
+    const defaults = S3_DEFAULTS.inventory;
+    const destination = this.reportDestination(config.destination, config.destinationPrefix);
+
+    return new aws.s3.Inventory(
+      `${this.componentName}-inventory-${config.name}`,
       {
         bucket: this.bucket.id,
-        policy,
+        name: config.name,
+        enabled: config.enabled ?? true,
+        includedObjectVersions: config.includedObjectVersions ?? defaults.includedObjectVersions,
+        optionalFields: [...(config.optionalFields ?? defaults.optionalFields)],
+        schedule: { frequency: config.frequency ?? defaults.frequency },
+        ...(config.prefix && { filter: { prefix: config.prefix } }),
+        destination: {
+          bucket: {
+            bucketArn: destination.bucketArn,
+            format: config.format ?? defaults.format,
+            ...(config.destinationPrefix && { prefix: config.destinationPrefix }),
+            ...(config.destinationAccountId && { accountId: config.destinationAccountId }),
+            encryption: { sseS3: {} },
+          },
+        },
       },
-      { parent: this, dependsOn: [this.publicAccessBlock] }
+      { parent: this, dependsOn: destination.dependsOn }
     );
   }
 
   /**
-   * Grants full access to the bucket
+   * Creates a storage class analysis configuration, exporting daily CSV results when a
+   * destination is given
    */
-  public grantFullAccess(principalArn: string): aws.s3.BucketPolicy {
-    const policy = this.bucketArn.apply(arn =>
-      JSON.stringify({
-        Version: '2012-10-17',
-        Statement: [
-          {
-            Sid: 'GrantFullAccess',
-            Effect: 'Allow',
-            Principal: {
-              AWS: principalArn,
+  private createAnalytics(config: S3AnalyticsConfig): aws.s3.AnalyticsConfiguration {
+    const destination =
+      config.destination !== undefined
+        ? this.reportDestination(config.destination, config.destinationPrefix)
+        : undefined;
+
+    return new aws.s3.AnalyticsConfiguration(
+      `${this.componentName}-analytics-${config.name}`,
+      {
+        bucket: this.bucket.id,
+        name: config.name,
+        ...((config.prefix || config.tags) && {
+          filter: {
+            ...(config.prefix && { prefix: config.prefix }),
+            ...(config.tags && { tags: config.tags }),
+          },
+        }),
+        ...(destination && {
+          storageClassAnalysis: {
+            dataExport: {
+              outputSchemaVersion: 'V_1',
+              destination: {
+                s3BucketDestination: {
+                  bucketArn: destination.bucketArn,
+                  format: 'CSV',
+                  ...(config.destinationPrefix && { prefix: config.destinationPrefix }),
+                  ...(config.destinationAccountId && {
+                    bucketAccountId: config.destinationAccountId,
+                  }),
+                },
+              },
             },
-            Action: 's3:*',
-            Resource: [arn, `${arn}/*`],
           },
-        ],
-      })
+        }),
+      },
+      { parent: this, dependsOn: destination?.dependsOn ?? [] }
     );
+  }
 
-    return new aws.s3.BucketPolicy(
-      `${this.componentName}-full-policy`,
+  /**
+   * Resolves the bucket receiving inventory or analysis reports
+   * S3 components get the report delivery policy for this bucket
+   */
+  private reportDestination(
+    destination: S3Component | pulumi.Input<string>,
+    prefix: string | undefined
+  ): { bucketArn: pulumi.Input<string>; dependsOn: pulumi.Resource[] } {
+    if (destination instanceof S3Component) {
+      return {
+        bucketArn: destination.bucketArn,
+        dependsOn: [destination.grantReportDelivery(this.bucket.arn, prefix ?? '')],
+      };
+    }
+    return { bucketArn: destination, dependsOn: [] };
+  }
+
+  /**
+   * Creates the replication role and replication configuration
+   */
+  private createReplication(
+    config: S3ReplicationConfig,
+    tags: pulumi.Input<Record<string, pulumi.Input<string>>>
+  ): { role: aws.iam.Role; configuration: aws.s3.BucketReplicationConfig } {
+    const name = this.componentName;
+    const defaults = S3_DEFAULTS.replication;
+
+    const destinations = config.destinations.map((destination, i) => {
+      const id = destination.id ?? `replicate-${i}`;
+      const bucket = destination.bucket;
+      if (bucket instanceof S3Component && !bucket.versioningEnabled) {
+        throw new Error(
+          `Invalid replication configuration: destination of rule '${id}' must have versioning enabled`
+        );
+      }
+      return {
+        ...destination,
+        id,
+        priority: destination.priority ?? i,
+        bucketArn: bucket instanceof S3Component ? bucket.bucketArn : bucket,
+        versioning: bucket instanceof S3Component ? [bucket.versioning] : [],
+        replicateDeleteMarkers:
+          destination.replicateDeleteMarkers ?? defaults.replicateDeleteMarkers,
+        replicationTime: destination.replicationTime ?? defaults.replicationTime,
+      };
+    });
+
+    const role = new aws.iam.Role(
+      `${name}-replication-role`,
+      {
+        assumeRolePolicy: policyDocumentToJson(
+          createTrustPolicy({ services: ['s3.amazonaws.com'] })
+        ),
+        tags,
+      },
+      { parent: this }
+    );
+
+    const policy = new aws.iam.RolePolicy(
+      `${name}-replication-policy`,
+      {
+        role: role.id,
+        name: 'S3Replication',
+        policy: pulumi
+          .all([
+            this.bucketArn,
+            pulumi.all(
+              destinations.map(destination =>
+                pulumi.all([destination.bucketArn, destination.kmsKeyArn, destination.account])
+              )
+            ),
+            config.sourceKmsKeyArn ?? this.kmsKey?.arn,
+          ])
+          .apply(([sourceBucketArn, resolved, sourceKmsKeyArn]) =>
+            policyDocumentToJson(
+              createReplicationPolicy(
+                sourceBucketArn,
+                resolved.map(([bucketArn, kmsKeyArn, account], i) => ({
+                  bucketArn,
+                  ...(kmsKeyArn && { kmsKeyArn }),
+                  ...(account && { account }),
+                  replicateDeleteMarkers: destinations[i]?.replicateDeleteMarkers ?? false,
+                })),
+                sourceKmsKeyArn
+              )
+            )
+          ),
+      },
+      { parent: this }
+    );
+
+    // The replication role reads objects encrypted with the bucket's own key
+    this.addKeyGrant('AllowReplication', role.arn, ['kms:Decrypt']);
+    // and encrypts replicas with the key of destination components that created one
+    destinations.forEach(destination => {
+      const bucket = destination.bucket;
+      if (
+        bucket instanceof S3Component &&
+        bucket.kmsKey &&
+        destination.kmsKeyArn === bucket.kmsKey.arn
+      ) {
+        bucket.addKeyGrant('AllowReplicaEncryption', role.arn, [
+          'kms:Encrypt',
+          'kms:GenerateDataKey',
+        ]);
+      }
+    });
+
+    const minutes = defaults.replicationTimeMinutes;
+    const configuration = new aws.s3.BucketReplicationConfig(
+      `${name}-replication`,
       {
         bucket: this.bucket.id,
+        role: role.arn,
+        rules: destinations.map(destination => ({
+          id: destination.id,
+          priority: destination.priority,
+          status: 'Enabled',
+          filter: toReplicationFilter(destination),
+          deleteMarkerReplication: {
+            status: destination.replicateDeleteMarkers ? 'Enabled' : 'Disabled',
+          },
+          ...(destination.kmsKeyArn && {
+            sourceSelectionCriteria: { sseKmsEncryptedObjects: { status: 'Enabled' } },
+          }),
+          destination: {
+            bucket: destination.bucketArn,
+            ...(destination.storageClass && { storageClass: destination.storageClass }),
+            ...(destination.account && {
+              account: destination.account,
+              accessControlTranslation: { owner: 'Destination' },
+            }),
+            ...(destination.kmsKeyArn && {
+              encryptionConfiguration: { replicaKmsKeyId: destination.kmsKeyArn },
+            }),
+            ...(destination.replicationTime && {
+              replicationTime: { status: 'Enabled', time: { minutes } },
+            }),
+            ...((destination.metrics ?? destination.replicationTime) && {
+              metrics: {
+                status: 'Enabled',
+                ...(destination.replicationTime && { eventThreshold: { minutes } }),
+              },
+            }),
+          },
+        })),
+      },
+      {
+        parent: this,
+        dependsOn: [
+          this.versioning,
+          policy,
+          ...destinations.flatMap(destination => destination.versioning),
+        ],
+      }
+    );
+
+    return { role, configuration };
+  }
+
+  /**
+   * Creates the bucket's KMS key and alias
+   * The key policy is rendered when the component is finalized, so every grant made before that
+   * is included
+   */
+  private createKmsKey(
+    config: S3KmsKeyConfig,
+    bucketName: string,
+    tags: pulumi.Input<Record<string, pulumi.Input<string>>>
+  ): { key: aws.kms.Key; alias: aws.kms.Alias } {
+    const name = this.componentName;
+    const defaults = S3_DEFAULTS.kmsKey;
+    const accountId = aws.getCallerIdentityOutput({}, { parent: this }).accountId;
+    const region = aws.getRegionOutput({}, { parent: this }).name;
+    const administratorArns = config.administratorArns ?? [
+      accountId.apply(account => `arn:aws:iam::${account}:root`),
+    ];
+
+    const policy = pulumi.output(this.finalization).apply(() =>
+      pulumi
+        .all([
+          region,
+          this.bucket.arn,
+          pulumi.all([...administratorArns]),
+          pulumi.all(this.keyGrants.map(grant => resolveGrantPrincipal(grant.principal))),
+        ])
+        .apply(([regionName, bucketArn, admins, principals]) =>
+          policyDocumentToJson(
+            createBucketKeyPolicy({
+              region: regionName,
+              bucketArn,
+              administratorArns: admins,
+              grants: this.keyGrants.map((grant, index) => ({
+                ...grant,
+                principal: principals[index]!,
+              })),
+            })
+          )
+        )
+    );
+
+    const key = new aws.kms.Key(
+      `${name}-key`,
+      {
+        description: `Encrypts objects in the ${bucketName} S3 bucket`,
+        enableKeyRotation: defaults.enableKeyRotation,
+        deletionWindowInDays: config.deletionWindowInDays ?? defaults.deletionWindowInDays,
         policy,
+        tags,
       },
-      { parent: this, dependsOn: [this.publicAccessBlock] }
+      { parent: this }
     );
+
+    const alias = new aws.kms.Alias(
+      `${name}-key-alias`,
+      {
+        name: config.alias ?? `${defaults.aliasPrefix}${bucketName.replace(/\./g, '-')}`,
+        targetKeyId: key.keyId,
+      },
+      { parent: this }
+    );
+
+    return { key, alias };
+  }
+
+  /**
+   * Lets a principal use the bucket's KMS key through S3, if the component created one
+   */
+  private addKeyGrant(sid: string, principal: S3GrantPrincipal, actions: readonly string[]): void {
+    if (!this.kmsKey) {
+      return;
+    }
+    if (this.finalized) {
+      throw new Error(
+        `Cannot add to the KMS key policy of S3 component '${this.componentName}': it has been finalized.`
+      );
+    }
+    this.keyGrants.push({ sid, principal, actions });
+  }
+
+  /**
+   * Renders the merged bucket policy, the lifecycle configuration and the KMS key policy from
+   * everything added so far, and finalizes the log bucket the component created
+   * Must be called once the last grant or lifecycle rule has been added; adding more afterwards
+   * throws
+   */
+  public finalize(): void {
+    if (this.finalized) {
+      return;
+    }
+    this.finalized = true;
+    unfinalizedComponents.delete(this.componentName);
+    this.resolveFinalization(true);
+    this.logBucket?.finalize();
+  }
+
+  /**
+   * Adds a policy document to the bucket's single bucket policy
+   * The documents are merged when the component is finalized; adding documents after that throws
+   */
+  private addPolicyDocument(document: pulumi.Input<string>): aws.s3.BucketPolicy {
+    if (this.finalized) {
+      throw new Error(
+        `Cannot add to the bucket policy of S3 component '${this.componentName}': it has been finalized.`
+      );
+    }
+
+    this.policyDocuments.push(document);
+    if (!this.bucketPolicy) {
+      const policy = pulumi
+        .output(this.finalization)
+        .apply(() => pulumi.all(this.policyDocuments).apply(mergeBucketPolicies));
+
+      this.bucketPolicy = new aws.s3.BucketPolicy(
+        `${this.componentName}-policy`,
+        {
+          bucket: this.bucket.id,
+          policy,
+        },
+        { parent: this, dependsOn: [this.publicAccessBlock] }
+      );
+    }
+    return this.bucketPolicy;
   }
 }
@@ -42,6 +42,36 @@ export interface S3EncryptionConfig {
    * @default true
    */
   readonly bucketKeyEnabled?: Input<boolean>;
+
+  /**
+   * Create a dedicated customer-managed KMS key for the bucket, with rotation and an alias
+   * Only the bucket's principals can use the key, and only through S3; cannot be combined
+   * with kmsKeyId
+   */
+  readonly createKmsKey?: boolean | S3KmsKeyConfig;
+}
+
+/**
+ * Customer-managed KMS key created for a bucket
+ */
+export interface S3KmsKeyConfig {
+  /**
+   * Key alias, starting with "alias/"
+   * @default "alias/s3/<bucket name>"
+   */
+  readonly alias?: string;
+
+  /**
+   * Principals allowed to administer the key; they cannot use it to encrypt or decrypt
+   * @default the account root
+   */
+  readonly administratorArns?: readonly Input<string>[];
+
+  /**
+   * Days to wait before the key is deleted
+   * @default 30
+   */
+  readonly deletionWindowInDays?: number;
 }
 
 /**
@@ -271,14 +301,50 @@ export interface S3QueueConfig {
  */
 export interface S3LoggingConfig {
   /**
-   * The name of the bucket where access logs are stored
+   * The bucket where access logs are stored: the name of an existing bucket, or a bucket
+   * component to share, which gets the log delivery policy. Leave out to create a log bucket
    */
-  readonly targetBucket: Input<string>;
+  readonly targetBucket?: Input<string> | import('./s3').S3Component;
 
   /**
    * The prefix for the access log objects
+   * @default "" for bucket names, "<bucket name>/" for created and shared log buckets
    */
   readonly targetPrefix?: Input<string>;
+
+  /**
+   * Settings for the log bucket created when targetBucket is left out
+   */
+  readonly logBucket?: S3LogBucketConfig;
+}
+
+/**
+ * S3 access log bucket configuration
+ */
+export interface S3LogBucketConfig {
+  /**
+   * The name of the log bucket
+   * @default "<bucket name>-logs"
+   */
+  readonly name?: string;
+
+  /**
+   * Days to keep access logs
+   * @default 365
+   */
+  readonly expirationDays?: number;
+
+  /**
+   * Days before access logs move to Glacier Flexible Retrieval; false to keep them in Standard
+   * @default 90
+   */
+  readonly archiveDays?: number | false;
+
+  /**
+   * Whether to delete the log bucket even if it contains logs
+   * @default false
+   */
+  readonly forceDestroy?: Input<boolean>;
 }
 
 /**
@@ -421,6 +487,341 @@ export interface S3Args {
    * Website configuration for static website hosting
    */
   readonly website?: S3WebsiteConfig;
+
+  /**
+   * Replication to other buckets in the same or other regions
+   * Requires versioning, which is enabled on the bucket when replication is configured
+   */
+  readonly replication?: S3ReplicationConfig;
+
+  /**
+   * Object Lock (WORM) with a default retention for new object versions
+   * Object Lock can only be enabled when the bucket is created and cannot be turned off; it
+   * requires versioning, which is enabled on the bucket
+   */
+  readonly objectLock?: S3ObjectLockConfig;
+
+  /**
+   * Intelligent-Tiering archive tiers for objects in the INTELLIGENT_TIERING storage class
+   */
+  readonly intelligentTiering?: readonly S3IntelligentTieringConfig[];
+
+  /**
+   * Daily or weekly inventory reports of the bucket's objects
+   */
+  readonly inventory?: readonly S3InventoryConfig[];
+
+  /**
+   * Storage class analysis of access patterns, to inform lifecycle rules
+   */
+  readonly analytics?: readonly S3AnalyticsConfig[];
+}
+
+/**
+ * S3 Object Lock configuration
+ */
+export interface S3ObjectLockConfig {
+  /**
+   * Default retention mode
+   * GOVERNANCE lets users with s3:BypassGovernanceRetention delete locked versions;
+   * COMPLIANCE versions cannot be deleted by anyone, including the root user, until retention ends
+   */
+  readonly mode: 'GOVERNANCE' | 'COMPLIANCE';
+
+  /**
+   * Default retention period in days; set either days or years
+   */
+  readonly days?: number;
+
+  /**
+   * Default retention period in years; set either days or years
+   */
+  readonly years?: number;
+}
+
+/**
+ * S3 replication configuration
+ */
+export interface S3ReplicationConfig {
+  /**
+   * Buckets to replicate to, one replication rule each
+   */
+  readonly destinations: readonly S3ReplicationDestination[];
+
+  /**
+   * ARN of the KMS key encrypting objects in this bucket
+   * Objects encrypted with it are replicated when set; every destination then needs a kmsKeyArn
+   */
+  readonly sourceKmsKeyArn?: Input<string>;
+}
+
+/**
+ * S3 replication destination
+ */
+export interface S3ReplicationDestination {
+  /**
+   * Destination bucket: an S3 component in the same program or a bucket ARN
+   * Versioning must be enabled on the destination bucket
+   */
+  readonly bucket: import('./s3').S3Component | Input<string>;
+
+  /**
+   * Replication rule ID
+   * @default "replicate-<index>"
+   */
+  readonly id?: string;
+
+  /**
+   * Rule priority; higher numbers win when rules overlap
+   * @default the destination's index
+   */
+  readonly priority?: number;
+
+  /**
+   * Only replicate objects with this key prefix
+   */
+  readonly prefix?: Input<string>;
+
+  /**
+   * Only replicate objects with all of these tags
+   */
+  readonly tags?: Record<string, Input<string>>;
+
+  /**
+   * Storage class for replicas
+   * @default the source object's storage class
+   */
+  readonly storageClass?: Input<string>;
+
+  /**
+   * Account ID owning the destination bucket; replicas are then owned by that account
+   */
+  readonly account?: Input<string>;
+
+  /**
+   * ARN of the KMS key replicas are re-encrypted with
+   * @default the destination's key, when it is an S3 component that created one
+   */
+  readonly kmsKeyArn?: Input<string>;
+
+  /**
+   * Whether to replicate delete markers
+   * @default false
+   */
+  readonly replicateDeleteMarkers?: boolean;
+
+  /**
+   * Whether to enable Replication Time Control, which replicates 99.99% of objects within
+   * 15 minutes and requires replication metrics
+   * @default false
+   */
+  readonly replicationTime?: boolean;
+
+  /**
+   * Whether to publish replication metrics to CloudWatch
+   * @default true with replicationTime, false otherwise
+   */
+  readonly metrics?: boolean;
+}
+
+/**
+ * S3 Intelligent-Tiering archive configuration
+ * Applies to objects stored in the INTELLIGENT_TIERING storage class, which objects enter when
+ * uploaded with it or through a lifecycle transition
+ */
+export interface S3IntelligentTieringConfig {
+  /**
+   * Unique name of the configuration
+   */
+  readonly name: string;
+
+  /**
+   * Whether the configuration is enabled
+   * @default true
+   */
+  readonly enabled?: boolean;
+
+  /**
+   * Only archive objects with this key prefix
+   */
+  readonly prefix?: string;
+
+  /**
+   * Only archive objects with all of these tags
+   */
+  readonly tags?: Record<string, string>;
+
+  /**
+   * Days without access before objects move to the Archive Access tier (90 to 730)
+   */
+  readonly archiveAccessDays?: number;
+
+  /**
+   * Days without access before objects move to the Deep Archive Access tier (180 to 730)
+   */
+  readonly deepArchiveAccessDays?: number;
+}
+
+/**
+ * S3 Inventory report configuration
+ */
+export interface S3InventoryConfig {
+  /**
+   * Unique name of the inventory configuration
+   */
+  readonly name: string;
+
+  /**
+   * Bucket receiving the reports: an S3 component in the same program, which gets the report
+   * delivery policy, or a bucket ARN
+   */
+  readonly destination: import('./s3').S3Component | Input<string>;
+
+  /**
+   * Key prefix of the reports in the destination bucket
+   */
+  readonly destinationPrefix?: string;
+
+  /**
+   * Account that owns the destination bucket, for destinations in other accounts
+   */
+  readonly destinationAccountId?: Input<string>;
+
+  /**
+   * How often reports are produced
+   * @default "Weekly"
+   */
+  readonly frequency?: 'Daily' | 'Weekly';
+
+  /**
+   * Report file format
+   * @default "CSV"
+   */
+  readonly format?: 'CSV' | 'ORC' | 'Parquet';
+
+  /**
+   * Object versions listed in the reports
+   * @default "Current"
+   */
+  readonly includedObjectVersions?: 'All' | 'Current';
+
+  /**
+   * Object metadata listed in the reports, besides the bucket, key and version
+   * @default ["Size", "LastModifiedDate", "StorageClass", "EncryptionStatus", "IntelligentTieringAccessTier"]
+   */
+  readonly optionalFields?: readonly string[];
+
+  /**
+   * Only list objects with this key prefix
+   */
+  readonly prefix?: string;
+
+  /**
+   * Whether the inventory is enabled
+   * @default true
+   */
+  readonly enabled?: boolean;
+}
+
+/**
+ * S3 storage class analysis configuration
+ */
+export interface S3AnalyticsConfig {
+  /**
+   * Unique name of the analytics configuration
+   */
+  readonly name: string;
+
+  /**
+   * Only analyze objects with this key prefix
+   */
+  readonly prefix?: string;
+
+  /**
+   * Only analyze objects with all of these tags
+   */
+  readonly tags?: Record<string, string>;
+
+  /**
+   * Bucket receiving daily CSV exports of the analysis: an S3 component in the same program,
+   * which gets the report delivery policy, or a bucket ARN. Leave out to only view the analysis
+   * in the S3 console
+   */
+  readonly destination?: import('./s3').S3Component | Input<string>;
+
+  /**
+   * Key prefix of the exports in the destination bucket
+   */
+  readonly destinationPrefix?: string;
+
+  /**
+   * Account that owns the destination bucket, for destinations in other accounts
+   */
+  readonly destinationAccountId?: Input<string>;
+}
+
+/**
+ * Level of access granted to a principal
+ */
+export type S3GrantAccess = 'read' | 'write' | 'full';
+
+/**
+ * AWS service granted access to the bucket
+ * The grant only applies when the service acts for the given resource or account, which
+ * protects against confused deputy access from other accounts
+ */
+export interface S3ServicePrincipal {
+  /**
+   * Service principal, e.g. "cloudtrail.amazonaws.com"
+   */
+  readonly service: string;
+
+  /**
+   * Only allow requests the service makes for this resource (aws:SourceArn)
+   */
+  readonly sourceArn?: Input<string>;
+
+  /**
+   * Only allow requests the service makes for this account (aws:SourceAccount)
+   */
+  readonly sourceAccount?: Input<string>;
+}
+
+/**
+ * Principal granted access to the bucket: an IAM principal ARN or an AWS service
+ */
+export type S3GrantPrincipal = Input<string> | S3ServicePrincipal;
+
+/**
+ * Grant principal with its inputs resolved, as used to render policies
+ */
+export interface S3ResolvedGrantPrincipal {
+  readonly type: 'AWS' | 'Service';
+  readonly identifier: string;
+  readonly sourceArn?: string;
+  readonly sourceAccount?: string;
+}
+
+/**
+ * Restrictions on a bucket grant
+ */
+export interface S3GrantOptions {
+  /**
+   * Only grant access to keys starting with these prefixes
+   * @default the whole bucket
+   */
+  readonly prefixes?: readonly string[];
+
+  /**
+   * Require uploads to be encrypted with this KMS key
+   * Uploads must send the x-amz-server-side-encryption-aws-kms-key-id header with the key ARN
+   */
+  readonly kmsKeyArn?: Input<string>;
+
+  /**
+   * Only allow requests through these VPC endpoints (aws:SourceVpce)
+   */
+  readonly sourceVpce?: Input<string> | readonly Input<string>[];
 }
 
 /**
@@ -504,6 +905,56 @@ export interface S3Outputs {
    */
   readonly website?: import('@pulumi/aws').s3.BucketWebsiteConfigurationV2;
 
+  /**
+   * The IAM role S3 assumes to replicate objects
+   */
+  readonly replicationRole?: import('@pulumi/aws').iam.Role;
+
+  /**
+   * The S3 bucket replication configuration
+   */
+  readonly replication?: import('@pulumi/aws').s3.BucketReplicationConfig;
+
+  /**
+   * The S3 bucket Object Lock configuration
+   */
+  readonly objectLock?: import('@pulumi/aws').s3.BucketObjectLockConfigurationV2;
+
+  /**
+   * The KMS key created for the bucket
+   */
+  readonly kmsKey?: import('@pulumi/aws').kms.Key;
+
+  /**
+   * The alias of the KMS key created for the bucket
+   */
+  readonly kmsKeyAlias?: import('@pulumi/aws').kms.Alias;
+
+  /**
+   * The S3 Intelligent-Tiering archive configurations
+   */
+  readonly intelligentTiering?: import('@pulumi/aws').s3.BucketIntelligentTieringConfiguration[];
+
+  /**
+   * The S3 inventory configurations
+   */
+  readonly inventory?: import('@pulumi/aws').s3.Inventory[];
+
+  /**
+   * The S3 storage class analysis configurations
+   */
+  readonly analytics?: import('@pulumi/aws').s3.AnalyticsConfiguration[];
+
+  /**
+   * The access log bucket created for the bucket
+   */
+  readonly logBucket?: import('./s3').S3Component;
+
+  /**
+   * The CloudFront Origin Access Control for the bucket
+   */
+  readonly originAccessControl?: import('@pulumi/aws').cloudfront.OriginAccessControl;
+
   /**
    * The bucket name
    */
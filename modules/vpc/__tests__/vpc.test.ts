@@ -4,8 +4,38 @@
  * Tests for the VPC module to ensure secure defaults and proper functionality
  */
 
+import * as aws from '@pulumi/aws';
 import { VpcComponent } from '../vpc';
-import { VPC_DEFAULTS, calculateSubnetCidrs } from '../defaults';
+import { SecurityGroupComponent } from '../security-group';
+import { VpcPeeringComponent } from '../peering';
+import { VpcAccessComponent } from '../access';
+import {
+  VPC_DEFAULTS,
+  calculateSubnetCidrs,
+  planSubnetTiers,
+  planIpv6SubnetTiers,
+  validateSubnetTiers,
+  validateAvailabilityZoneSelection,
+  selectAvailabilityZones,
+  validateNetworkAcl,
+  validateSecurityGroups,
+  validateDnsConfig,
+  validateVpcAccess,
+  createSessionLoggingPolicy,
+  validateNetworkFirewallConfig,
+  createDefaultNetworkAclRules,
+} from '../defaults';
+import {
+  parseIpv4Cidr,
+  formatIpv4Cidr,
+  cidrsOverlap,
+  prefixLengthForHostCount,
+  planSubnets,
+  parseIpv6Cidr,
+  formatIpv6Cidr,
+  ipv6SubnetCidr,
+  planIpv6Subnets,
+} from '../cidr';
 
 // Mock Pulumi for testing
 jest.mock('@pulumi/pulumi', () => ({
@@ -21,22 +51,140 @@ jest.mock('@pulumi/pulumi', () => ({
     create: (value: any) => ({ apply: (fn: any) => fn(value) }),
   },
   output: (value: any) => ({ apply: (fn: any) => fn(value) }),
+  all: (values: any) => ({ apply: (fn: any) => fn(values) }),
+  interpolate: (strings: TemplateStringsArray, ...values: any[]) =>
+    strings.reduce((acc, part, i) => acc + part + (i < values.length ? values[i] : ''), ''),
 }));
 
 jest.mock('@pulumi/aws', () => ({
-  getAvailabilityZones: () =>
-    Promise.resolve({
-      names: ['us-east-1a', 'us-east-1b', 'us-east-1c'],
-    }),
+  getAvailabilityZonesOutput: () => ({
+    apply: (fn: any) => {
+      const zones = fn({
+        names: ['us-east-1a', 'us-east-1b', 'us-east-1c', 'us-east-1d'],
+        zoneIds: ['use1-az1', 'use1-az2', 'use1-az4', 'use1-az6'],
+      });
+      return { apply: (select: any) => select(zones) };
+    },
+  }),
+  getCallerIdentityOutput: () => ({
+    accountId: { apply: (fn: any) => fn('123456789012') },
+  }),
+  autoscaling: {
+    Group: jest.fn(),
+  },
+  getRegionOutput: () => ({
+    name: { apply: (fn: any) => fn('us-east-1'), toString: () => 'us-east-1' },
+  }),
+  kms: {
+    Key: jest.fn().mockImplementation(() => ({
+      arn: 'arn:aws:kms:us-east-1:123456789012:key/flow-logs',
+    })),
+  },
+  cloudwatch: {
+    LogGroup: jest.fn().mockImplementation(() => ({
+      arn: { apply: (fn: any) => fn('arn:aws:logs:us-east-1:123456789012:log-group:flow-logs') },
+    })),
+  },
+  iam: {
+    Role: jest.fn(),
+    RolePolicy: jest.fn(),
+    RolePolicyAttachment: jest.fn(),
+    InstanceProfile: jest.fn(),
+  },
   ec2: {
-    Vpc: jest.fn(),
-    Subnet: jest.fn(),
-    InternetGateway: jest.fn(),
-    NatGateway: jest.fn(),
+    Vpc: Object.assign(
+      jest.fn().mockImplementation(() => ({
+        ipv6CidrBlock: { apply: (fn: any) => fn('2600:1f18:abcd:ef00::/56') },
+      })),
+      { get: jest.fn((_name: string, id: string) => ({ id })) }
+    ),
+    Subnet: Object.assign(jest.fn(), { get: jest.fn((_name: string, id: string) => ({ id })) }),
+    InternetGateway: Object.assign(jest.fn(), {
+      get: jest.fn((_name: string, id: string) => ({ id })),
+    }),
+    EgressOnlyInternetGateway: jest.fn().mockImplementation(() => ({ id: 'eigw-123' })),
+    NatGateway: Object.assign(jest.fn(), {
+      get: jest.fn((_name: string, id: string) => ({ id })),
+    }),
     Eip: jest.fn(),
-    RouteTable: jest.fn(),
+    RouteTable: Object.assign(jest.fn(), {
+      get: jest.fn((_name: string, id: string) => ({ id })),
+    }),
+    Route: jest.fn(),
+    RouteTableAssociation: jest.fn(),
+    FlowLog: jest.fn(),
+    NetworkInterface: jest.fn().mockImplementation((name: string) => ({ id: `${name}-id` })),
+    LaunchTemplate: jest.fn().mockImplementation(() => ({
+      id: 'lt-123',
+      latestVersion: { apply: (fn: any) => fn(3) },
+    })),
+    getAmiOutput: jest.fn().mockReturnValue({ id: 'ami-fck-nat' }),
+    getVpc: jest.fn(),
+    getSubnets: jest.fn(),
+    getSubnet: jest.fn(),
+    getRouteTables: jest.fn(),
+    getRouteTable: jest.fn(),
+    getNatGateways: jest.fn(),
+    getPrefixListOutput: jest.fn(({ name }) => ({
+      cidrBlocks: name.endsWith('.s3') ? ['52.216.0.0/15', '3.5.0.0/19'] : ['52.94.0.0/22'],
+    })),
+    getNetworkInterface: jest.fn(),
+    getInstance: jest.fn(),
+    VpcEndpoint: jest.fn(),
+    SecurityGroup: jest.fn().mockImplementation((name: string) => ({ id: `${name}-id` })),
+    DefaultSecurityGroup: jest.fn(),
+    DefaultNetworkAcl: jest.fn(),
+    NetworkAcl: jest.fn(),
+    VpcPeeringConnection: jest.fn().mockImplementation(() => ({ id: 'pcx-123' })),
+    VpcPeeringConnectionAccepter: jest.fn().mockImplementation(() => ({
+      vpcPeeringConnectionId: 'pcx-123',
+    })),
+    PeeringConnectionOptions: jest.fn(),
+  },
+  route53: {
+    Zone: jest.fn(),
+    ResolverEndpoint: jest.fn().mockImplementation((name: string) => ({ id: `${name}-id` })),
+    ResolverRule: jest.fn().mockImplementation((name: string) => ({ id: `${name}-id` })),
+    ResolverRuleAssociation: jest.fn(),
+    ResolverQueryLogConfig: jest.fn().mockImplementation(() => ({ id: 'rqlc-123' })),
+    ResolverQueryLogConfigAssociation: jest.fn(),
+  },
+  networkfirewall: {
+    RuleGroup: jest.fn().mockImplementation((name: string) => ({ arn: `${name}-arn` })),
+    FirewallPolicy: jest.fn().mockImplementation(() => ({ arn: 'firewall-policy-arn' })),
+    Firewall: jest.fn().mockImplementation(() => ({
+      arn: 'firewall-arn',
+      firewallStatuses: {
+        apply: (fn: any) =>
+          fn([
+            {
+              syncStates: ['a', 'b', 'c'].map(zone => ({
+                availabilityZone: `us-east-1${zone}`,
+                attachments: [{ endpointId: `vpce-fw-${zone}`, subnetId: `subnet-fw-${zone}` }],
+              })),
+            },
+          ]),
+      },
+    })),
+    LoggingConfiguration: jest.fn(),
+  },
+  ec2clientvpn: {
+    Endpoint: jest.fn().mockImplementation(() => ({ id: 'cvpn-endpoint-123' })),
+    NetworkAssociation: jest.fn(),
+    AuthorizationRule: jest.fn(),
     Route: jest.fn(),
+  },
+  ssm: {
+    Document: jest.fn(),
+  },
+  ec2transitgateway: {
+    VpcAttachment: jest.fn().mockImplementation(() => ({ id: 'tgw-attach-123' })),
     RouteTableAssociation: jest.fn(),
+    RouteTablePropagation: jest.fn(),
+  },
+  vpc: {
+    SecurityGroupIngressRule: jest.fn(),
+    SecurityGroupEgressRule: jest.fn(),
   },
 }));
 
@@ -49,6 +197,8 @@ describe('VPC Module', () => {
       expect(VPC_DEFAULTS.enableNatGateway).toBe(true);
       expect(VPC_DEFAULTS.availabilityZoneCount).toBe(2);
       expect(VPC_DEFAULTS.multiAzNatGateway).toBe(false);
+      expect(VPC_DEFAULTS.restrictDefaultSecurityGroup).toBe(true);
+      expect(VPC_DEFAULTS.restrictDefaultNetworkAcl).toBe(true);
     });
 
     it('should use RFC 1918 private address space', () => {
@@ -82,6 +232,103 @@ describe('VPC Module', () => {
 
       expect(result.privateSubnets).toEqual(['172.16.10.0/24', '172.16.11.0/24']);
     });
+    it('should keep subnets inside VPCs that are not on a /16 boundary', () => {
+      const result = calculateSubnetCidrs('10.0.16.0/20', 3);
+
+      expect(result.publicSubnets).toEqual(['10.0.16.0/24', '10.0.17.0/24', '10.0.18.0/24']);
+      expect(result.privateSubnets).toEqual(['10.0.26.0/24', '10.0.27.0/24', '10.0.28.0/24']);
+    });
+
+    it('should not overlap public and private subnets with more than 10 AZs', () => {
+      const result = calculateSubnetCidrs('10.0.0.0/16', 12);
+      const all = [...result.publicSubnets, ...result.privateSubnets];
+
+      expect(new Set(all).size).toBe(24);
+      expect(result.privateSubnets[0]).toBe('10.0.12.0/24');
+    });
+
+    it('should shrink subnets for small VPCs', () => {
+      const result = calculateSubnetCidrs('10.0.0.0/24', 2);
+
+      expect(result.publicSubnets).toEqual(['10.0.0.0/26', '10.0.0.64/26']);
+      expect(result.privateSubnets).toEqual(['10.0.0.128/26', '10.0.0.192/26']);
+    });
+
+    it('should reject VPCs too small for the requested AZs', () => {
+      expect(() => calculateSubnetCidrs('10.0.0.0/27', 2)).toThrow('too small');
+    });
+  });
+
+  describe('Subnet Planner', () => {
+    it('should parse and format CIDR blocks', () => {
+      const cidr = parseIpv4Cidr('172.16.32.0/19');
+
+      expect(cidr.prefixLength).toBe(19);
+      expect(formatIpv4Cidr(cidr)).toBe('172.16.32.0/19');
+    });
+
+    it('should reject malformed CIDR blocks', () => {
+      expect(() => parseIpv4Cidr('10.0.0/16')).toThrow('Invalid IPv4 CIDR block');
+      expect(() => parseIpv4Cidr('10.0.0.256/24')).toThrow('Invalid IPv4 CIDR block');
+      expect(() => parseIpv4Cidr('10.0.1.0/16')).toThrow('did you mean 10.0.0.0/16');
+    });
+
+    it('should detect overlapping CIDR blocks', () => {
+      expect(cidrsOverlap(parseIpv4Cidr('10.0.0.0/16'), parseIpv4Cidr('10.0.5.0/24'))).toBe(true);
+      expect(cidrsOverlap(parseIpv4Cidr('10.0.0.0/24'), parseIpv4Cidr('10.0.1.0/24'))).toBe(false);
+    });
+
+    it('should size subnets by host count including AWS reserved addresses', () => {
+      expect(prefixLengthForHostCount(251)).toBe(24);
+      expect(prefixLengthForHostCount(252)).toBe(23);
+      expect(prefixLengthForHostCount(1)).toBe(28);
+    });
+
+    it('should allocate groups in order without overlap', () => {
+      const plan = planSubnets('10.0.0.0/20', [
+        { name: 'public', count: 2, prefixLength: 26 },
+        { name: 'private', count: 2, hostCount: 500 },
+        { name: 'database', count: 2, prefixLength: 27 },
+      ]);
+
+      expect(plan['public']).toEqual(['10.0.0.0/26', '10.0.0.64/26']);
+      expect(plan['private']).toEqual(['10.0.2.0/23', '10.0.4.0/23']);
+      expect(plan['database']).toEqual(['10.0.0.128/27', '10.0.0.160/27']);
+    });
+
+    it('should plan around explicit CIDR blocks', () => {
+      const plan = planSubnets('10.0.0.0/16', [
+        { name: 'public', count: 2, prefixLength: 24 },
+        { name: 'legacy', count: 1, cidrBlocks: ['10.0.0.0/24'] },
+      ]);
+
+      expect(plan['legacy']).toEqual(['10.0.0.0/24']);
+      expect(plan['public']).toEqual(['10.0.1.0/24', '10.0.2.0/24']);
+    });
+
+    it('should reject overlapping explicit CIDR blocks', () => {
+      expect(() =>
+        planSubnets('10.0.0.0/16', [
+          { name: 'a', count: 1, cidrBlocks: ['10.0.0.0/23'] },
+          { name: 'b', count: 1, cidrBlocks: ['10.0.1.0/24'] },
+        ])
+      ).toThrow("Subnet 10.0.1.0/24 ('b') overlaps 10.0.0.0/23 ('a')");
+    });
+
+    it('should reject out-of-range CIDR blocks', () => {
+      expect(() =>
+        planSubnets('10.0.0.0/16', [{ name: 'a', count: 1, cidrBlocks: ['10.1.0.0/24'] }])
+      ).toThrow('outside the VPC CIDR');
+      expect(() => planSubnets('10.0.0.0/16', [{ name: 'a', count: 1, prefixLength: 29 }])).toThrow(
+        'must be between /16 and /28'
+      );
+    });
+
+    it('should fail when the address space is exhausted', () => {
+      expect(() => planSubnets('10.0.0.0/24', [{ name: 'a', count: 5, prefixLength: 26 }])).toThrow(
+        "no free /26 block for subnet 5 of 5 in 'a'"
+      );
+    });
   });
 
   describe('VPC Component', () => {
@@ -117,6 +364,2357 @@ describe('VPC Module', () => {
     });
   });
 
+  describe('Availability Zones', () => {
+    const available = {
+      names: ['eu-west-1a', 'eu-west-1b', 'eu-west-1c'],
+      zoneIds: ['euw1-az3', 'euw1-az1', 'euw1-az2'],
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should use the first available zones by default', () => {
+      expect(selectAvailabilityZones(available, { count: 2 })).toEqual([
+        'eu-west-1a',
+        'eu-west-1b',
+      ]);
+    });
+
+    it('should skip excluded zone names and IDs', () => {
+      expect(selectAvailabilityZones(available, { count: 2, exclude: ['eu-west-1a'] })).toEqual([
+        'eu-west-1b',
+        'eu-west-1c',
+      ]);
+      expect(selectAvailabilityZones(available, { count: 1, exclude: ['euw1-az3'] })).toEqual([
+        'eu-west-1b',
+      ]);
+    });
+
+    it('should resolve pinned zone names and IDs in the given order', () => {
+      expect(
+        selectAvailabilityZones(available, { count: 2, names: ['eu-west-1c', 'eu-west-1a'] })
+      ).toEqual(['eu-west-1c', 'eu-west-1a']);
+      expect(
+        selectAvailabilityZones(available, { count: 2, zoneIds: ['euw1-az1', 'euw1-az2'] })
+      ).toEqual(['eu-west-1b', 'eu-west-1c']);
+    });
+
+    it('should fail instead of guessing when the region has too few zones', () => {
+      expect(() => selectAvailabilityZones(available, { count: 4 })).toThrow(
+        'availabilityZoneCount is 4, but only 3 availability zones are available'
+      );
+      expect(() =>
+        selectAvailabilityZones(available, { count: 3, exclude: ['eu-west-1b'] })
+      ).toThrow('only 2 availability zones are available after excluding eu-west-1b');
+      expect(() => selectAvailabilityZones(available, { count: 1, names: ['us-east-1a'] })).toThrow(
+        'Availability zone us-east-1a is not available in this region'
+      );
+      expect(() => selectAvailabilityZones(available, { count: 1, zoneIds: ['use1-az1'] })).toThrow(
+        'Availability zone ID use1-az1 is not available in this region'
+      );
+    });
+
+    it('should validate pinning and exclusion options', () => {
+      expect(validateAvailabilityZoneSelection({ availabilityZones: ['a', 'b'] }).isValid).toBe(
+        true
+      );
+      expect(
+        validateAvailabilityZoneSelection({
+          availabilityZones: ['a', 'a'],
+          availabilityZoneIds: ['use1-az1'],
+          excludeAvailabilityZones: ['a'],
+          availabilityZoneCount: 3,
+        }).errors
+      ).toEqual([
+        'availabilityZones and availabilityZoneIds cannot be combined',
+        'Availability zone a is both pinned and excluded',
+        'Duplicate availability zone a',
+        'Availability zone a is both pinned and excluded',
+        'availabilityZoneCount 3 does not match the 2 pinned availability zones',
+      ]);
+    });
+
+    it('should place subnets in the pinned zones', () => {
+      new VpcComponent('pinned', {
+        name: 'pinned',
+        availabilityZoneIds: ['use1-az6', 'use1-az1', 'use1-az4'],
+      });
+
+      const publicZones = (aws.ec2.Subnet as unknown as jest.Mock).mock.calls
+        .filter(([name]) => name.startsWith('pinned-public-'))
+        .map(([, args]) => args.availabilityZone);
+      expect(publicZones).toEqual(['us-east-1d', 'us-east-1a', 'us-east-1c']);
+    });
+
+    it('should reject conflicting zone options', () => {
+      expect(
+        () =>
+          new VpcComponent('bad', {
+            name: 'bad',
+            availabilityZones: ['us-east-1a'],
+            availabilityZoneCount: 2,
+          })
+      ).toThrow('Invalid availability zones');
+    });
+  });
+
+  describe('Subnet Tiers', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    const subnetNames = (): string[] =>
+      (aws.ec2.Subnet as unknown as jest.Mock).mock.calls.map(call => call[0]);
+    const routeTableNames = (): string[] =>
+      (aws.ec2.RouteTable as unknown as jest.Mock).mock.calls.map(call => call[0]);
+
+    it('should keep default public and private resource names', () => {
+      new VpcComponent('legacy', { name: 'legacy' });
+
+      expect(subnetNames()).toEqual([
+        'legacy-public-0',
+        'legacy-public-1',
+        'legacy-private-0',
+        'legacy-private-1',
+      ]);
+      expect(routeTableNames()).toEqual([
+        'legacy-public-rt',
+        'legacy-private-rt-0',
+        'legacy-private-rt-1',
+      ]);
+    });
+
+    it('should create isolated tiers without a default route', () => {
+      const vpc = new VpcComponent('tiered', {
+        name: 'tiered',
+        subnetTiers: [
+          { name: 'public', routing: 'igw', prefixLength: 24 },
+          { name: 'private', routing: 'nat', prefixLength: 22 },
+          {
+            name: 'database',
+            routing: 'none',
+            prefixLength: 26,
+            tags: { DataClass: 'restricted' },
+          },
+        ],
+      });
+
+      expect(vpc.subnetsByTier['database']).toHaveLength(2);
+      expect(vpc.isolatedSubnets).toHaveLength(2);
+      expect(vpc.routeTables.isolated).toHaveLength(1);
+      expect(routeTableNames()).toContain('tiered-database-rt');
+
+      const routeNames = (aws.ec2.Route as unknown as jest.Mock).mock.calls.map(call => call[0]);
+      expect(routeNames).toEqual([
+        'tiered-public-route',
+        'tiered-private-route-0',
+        'tiered-private-route-1',
+      ]);
+
+      const databaseSubnet = (aws.ec2.Subnet as unknown as jest.Mock).mock.calls.find(
+        call => call[0] === 'tiered-database-0'
+      );
+      expect(databaseSubnet[1].mapPublicIpOnLaunch).toBe(false);
+      expect(databaseSubnet[1].tags.Type).toBe('database');
+      expect(databaseSubnet[1].tags.DataClass).toBe('restricted');
+    });
+
+    it('should plan tiers in order', () => {
+      const plan = planSubnetTiers(
+        '10.0.0.0/16',
+        [
+          { name: 'public', routing: 'igw' },
+          { name: 'transit', routing: 'none', prefixLength: 28 },
+        ],
+        2
+      );
+
+      expect(plan['public']).toEqual(['10.0.0.0/24', '10.0.1.0/24']);
+      expect(plan['transit']).toEqual(['10.0.2.0/28', '10.0.2.16/28']);
+    });
+
+    it('should reject invalid tier configuration', () => {
+      const result = validateSubnetTiers([
+        { name: 'App', routing: 'nat' },
+        { name: 'data', routing: 'none', prefixLength: 24, hostCount: 100 },
+        { name: 'data', routing: 'none' },
+      ]);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining("'App' can only contain"),
+          expect.stringContaining('only use one of'),
+          "Duplicate subnet tier name 'data'",
+          "At least one subnet tier must use 'igw' routing",
+        ])
+      );
+    });
+
+    it('should throw when tiers are invalid', () => {
+      expect(
+        () =>
+          new VpcComponent('invalid', {
+            name: 'invalid',
+            subnetTiers: [{ name: 'private', routing: 'nat' }],
+          })
+      ).toThrow('Invalid subnet tiers');
+    });
+  });
+
+  describe('IPv6 Planning', () => {
+    it('should parse and canonically format IPv6 CIDR blocks', () => {
+      expect(formatIpv6Cidr(parseIpv6Cidr('2600:1F18:ABCD:EF00:0:0:0:0/56'))).toBe(
+        '2600:1f18:abcd:ef00::/56'
+      );
+      expect(formatIpv6Cidr(parseIpv6Cidr('::/0'))).toBe('::/0');
+      expect(() => parseIpv6Cidr('2600:1f18:abcd:ef01::/56')).toThrow('host bits set');
+      expect(() => parseIpv6Cidr('2600::1f18::/56')).toThrow('Invalid IPv6 CIDR block');
+    });
+
+    it('should carve /64 subnets out of a /56', () => {
+      expect(ipv6SubnetCidr('2600:1f18:abcd:ef00::/56', 0)).toBe('2600:1f18:abcd:ef00::/64');
+      expect(ipv6SubnetCidr('2600:1f18:abcd:ef00::/56', 255)).toBe('2600:1f18:abcd:efff::/64');
+      expect(ipv6SubnetCidr('2600:1f18:abcd:0::/56', 0)).toBe('2600:1f18:abcd::/64');
+      expect(() => ipv6SubnetCidr('2600:1f18:abcd:ef00::/56', 256)).toThrow(
+        'holds 256 /64 subnets'
+      );
+    });
+
+    it('should plan IPv6 subnets alongside IPv4 tiers', () => {
+      const plan = planIpv6SubnetTiers(
+        [
+          { name: 'public', routing: 'igw' },
+          { name: 'private', routing: 'nat', ipv6SubnetIndexes: [0, 16, 32] },
+          { name: 'data', routing: 'none' },
+        ],
+        3
+      );
+
+      expect(plan).toEqual({ public: [1, 2, 3], private: [0, 16, 32], data: [4, 5, 6] });
+    });
+
+    it('should reject conflicting or exhausted IPv6 plans', () => {
+      expect(() =>
+        planIpv6Subnets(56, [
+          { name: 'a', count: 1, indexes: [7] },
+          { name: 'b', count: 1, indexes: [7] },
+        ])
+      ).toThrow("IPv6 subnet index 7 ('b') is already used by 'a'");
+      expect(() => planIpv6Subnets(60, [{ name: 'a', count: 17 }])).toThrow(
+        "no free /64 for subnet 17 of 17 in 'a'"
+      );
+    });
+  });
+
+  describe('IPv6 Dual-Stack', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    const routeArgs = (): any[] =>
+      (aws.ec2.Route as unknown as jest.Mock).mock.calls.map(call => ({
+        name: call[0],
+        ...call[1],
+      }));
+
+    it('should stay IPv4-only by default', () => {
+      const vpc = new VpcComponent('v4', { name: 'v4' });
+
+      expect(vpc.ipv6CidrBlock).toBeUndefined();
+      expect(vpc.egressOnlyInternetGateway).toBeUndefined();
+      const subnetArgs = (aws.ec2.Subnet as unknown as jest.Mock).mock.calls[0][1];
+      expect(subnetArgs.ipv6CidrBlock).toBeUndefined();
+      expect(routeArgs().some(route => route.destinationIpv6CidrBlock)).toBe(false);
+    });
+
+    it('should give every subnet a /64 from the Amazon-provided /56', () => {
+      const vpc = new VpcComponent('dual', { name: 'dual', enableIpv6: true });
+
+      expect(vpc.ipv6CidrBlock).toBeDefined();
+      const vpcArgs = (aws.ec2.Vpc as unknown as jest.Mock).mock.calls[0][1];
+      expect(vpcArgs.assignGeneratedIpv6CidrBlock).toBe(true);
+
+      const subnetArgs = (aws.ec2.Subnet as unknown as jest.Mock).mock.calls.map(call => call[1]);
+      expect(subnetArgs.map(args => args.ipv6CidrBlock)).toEqual([
+        '2600:1f18:abcd:ef00::/64',
+        '2600:1f18:abcd:ef01::/64',
+        '2600:1f18:abcd:ef02::/64',
+        '2600:1f18:abcd:ef03::/64',
+      ]);
+      expect(subnetArgs.every(args => args.assignIpv6AddressOnCreation === true)).toBe(true);
+    });
+
+    it('should route IPv6 through the IGW for public tiers and an egress-only IGW for private tiers', () => {
+      const vpc = new VpcComponent('dual', { name: 'dual', enableIpv6: true });
+
+      expect(vpc.egressOnlyInternetGateway).toBeDefined();
+      const ipv6Routes = routeArgs().filter(route => route.destinationIpv6CidrBlock === '::/0');
+      expect(ipv6Routes.map(route => route.name)).toEqual([
+        'dual-public-route-ipv6',
+        'dual-private-route-ipv6-0',
+        'dual-private-route-ipv6-1',
+      ]);
+      expect(ipv6Routes[1].egressOnlyGatewayId).toBe('eigw-123');
+      expect(ipv6Routes[1].gatewayId).toBeUndefined();
+    });
+
+    it('should add IPv6 network ACL rules and honour per-tier address assignment', () => {
+      new VpcComponent('dual', {
+        name: 'dual',
+        enableIpv6: true,
+        subnetTiers: [
+          { name: 'public', routing: 'igw' },
+          { name: 'data', routing: 'none', assignIpv6AddressOnCreation: false },
+        ],
+      });
+
+      expect(aws.ec2.EgressOnlyInternetGateway).not.toHaveBeenCalled();
+
+      const dataSubnet = (aws.ec2.Subnet as unknown as jest.Mock).mock.calls.find(
+        call => call[0] === 'dual-data-0'
+      )[1];
+      expect(dataSubnet.assignIpv6AddressOnCreation).toBe(false);
+
+      const dataAcl = (aws.ec2.NetworkAcl as unknown as jest.Mock).mock.calls.find(
+        call => call[0] === 'dual-data-nacl'
+      )[1];
+      expect(dataAcl.ingress).toContainEqual({
+        ruleNo: 101,
+        action: 'allow',
+        ipv6CidrBlock: '2600:1f18:abcd:ef00::/56',
+        protocol: '-1',
+        fromPort: 0,
+        toPort: 0,
+      });
+    });
+
+    it('should reject IPv6 tier options on IPv4-only VPCs', () => {
+      expect(
+        () =>
+          new VpcComponent('bad', {
+            name: 'bad',
+            subnetTiers: [{ name: 'public', routing: 'igw', ipv6SubnetIndexes: [0, 1] }],
+          })
+      ).toThrow('Subnet tier IPv6 options require enableIpv6');
+    });
+  });
+
+  describe('NAT Instances', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should use NAT gateways by default', () => {
+      const vpc = new VpcComponent('gw', { name: 'gw' });
+
+      expect(vpc.natGateways).toHaveLength(1);
+      expect(vpc.natNetworkInterfaces).toBeUndefined();
+      expect(aws.autoscaling.Group).not.toHaveBeenCalled();
+    });
+
+    it('should replace NAT gateways with a self-healing fck-nat instance', () => {
+      const vpc = new VpcComponent('dev', { name: 'dev', natMode: 'instance' });
+
+      expect(vpc.natGateways).toBeUndefined();
+      expect(aws.ec2.NatGateway).not.toHaveBeenCalled();
+      expect(vpc.natNetworkInterfaces).toHaveLength(1);
+      expect(vpc.natAutoScalingGroups).toHaveLength(1);
+
+      const eniArgs = (aws.ec2.NetworkInterface as unknown as jest.Mock).mock.calls[0][1];
+      expect(eniArgs.sourceDestCheck).toBe(false);
+
+      const templateArgs = (aws.ec2.LaunchTemplate as unknown as jest.Mock).mock.calls[0][1];
+      expect(templateArgs.imageId).toBe('ami-fck-nat');
+      expect(templateArgs.instanceType).toBe('t4g.nano');
+      expect(templateArgs.metadataOptions.httpTokens).toBe('required');
+      expect(templateArgs.blockDeviceMappings[0].ebs.encrypted).toBe('true');
+      expect(templateArgs.keyName).toBeUndefined();
+
+      const asgArgs = (aws.autoscaling.Group as unknown as jest.Mock).mock.calls[0][1];
+      expect(asgArgs).toMatchObject({ minSize: 1, maxSize: 1, desiredCapacity: 1 });
+      expect(asgArgs.launchTemplate.version).toBe('3');
+    });
+
+    it('should route private subnets to the NAT instance network interface', () => {
+      new VpcComponent('dev', { name: 'dev', natMode: 'instance', multiAzNatGateway: true });
+
+      const natRoutes = (aws.ec2.Route as unknown as jest.Mock).mock.calls
+        .map(call => call[1])
+        .filter(args => args.networkInterfaceId);
+      expect(natRoutes.map(args => args.networkInterfaceId)).toEqual([
+        'dev-nat-eni-0-id',
+        'dev-nat-eni-1-id',
+      ]);
+    });
+
+    it('should scope the instance role to its own interface and Elastic IP', () => {
+      new VpcComponent('dev', {
+        name: 'dev',
+        natMode: 'instance',
+        natInstance: { instanceType: 't4g.micro', amiId: 'ami-custom' },
+      });
+
+      const policyArgs = (aws.iam.RolePolicy as unknown as jest.Mock).mock.calls.find(
+        call => call[0] === 'dev-nat-policy-0'
+      )[1];
+      const policy = JSON.parse(policyArgs.policy);
+      expect(policy.Statement[0].Condition.StringEquals).toEqual({
+        'aws:ResourceTag/ModInfra:NatInstance': 'dev-nat-0',
+      });
+
+      const templateArgs = (aws.ec2.LaunchTemplate as unknown as jest.Mock).mock.calls[0][1];
+      expect(templateArgs.imageId).toBe('ami-custom');
+      expect(templateArgs.instanceType).toBe('t4g.micro');
+      expect(aws.ec2.getAmiOutput).not.toHaveBeenCalled();
+    });
+
+    it('should reject NAT instance settings in gateway mode', () => {
+      expect(
+        () => new VpcComponent('bad', { name: 'bad', natInstance: { instanceType: 't4g.micro' } })
+      ).toThrow("natInstance settings require natMode 'instance'");
+    });
+  });
+
+  describe('Flow Logs', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should send flow logs to a KMS-encrypted log group by default', () => {
+      const vpc = new VpcComponent('logged', { name: 'logged' });
+
+      expect(vpc.flowLog).toBeDefined();
+      expect(vpc.flowLogGroup).toBeDefined();
+      expect(vpc.flowLogRole).toBeDefined();
+      expect(vpc.flowLogKey).toBeDefined();
+
+      const keyArgs = (aws.kms.Key as unknown as jest.Mock).mock.calls[0][1];
+      expect(keyArgs.enableKeyRotation).toBe(true);
+
+      const logGroupArgs = (aws.cloudwatch.LogGroup as unknown as jest.Mock).mock.calls[0][1];
+      expect(logGroupArgs.name).toBe('/aws/vpc/flow-logs/logged');
+      expect(logGroupArgs.retentionInDays).toBe(365);
+      expect(logGroupArgs.kmsKeyId).toBe('arn:aws:kms:us-east-1:123456789012:key/flow-logs');
+
+      const flowLogArgs = (aws.ec2.FlowLog as unknown as jest.Mock).mock.calls[0][1];
+      expect(flowLogArgs.trafficType).toBe('ALL');
+      expect(flowLogArgs.maxAggregationInterval).toBe(60);
+      expect(flowLogArgs.logDestinationType).toBe('cloud-watch-logs');
+    });
+
+    it('should scope the delivery role to the flow log group', () => {
+      new VpcComponent('scoped', { name: 'scoped' });
+
+      const roleArgs = (aws.iam.Role as unknown as jest.Mock).mock.calls[0][1];
+      const trustPolicy = JSON.parse(roleArgs.assumeRolePolicy);
+      expect(trustPolicy.Statement[0].Principal.Service).toBe('vpc-flow-logs.amazonaws.com');
+      expect(trustPolicy.Statement[0].Condition.StringEquals['aws:SourceAccount']).toBe(
+        '123456789012'
+      );
+
+      const policyArgs = (aws.iam.RolePolicy as unknown as jest.Mock).mock.calls[0][1];
+      const policy = JSON.parse(policyArgs.policy);
+      expect(policy.Statement[0].Resource).toEqual([
+        'arn:aws:logs:us-east-1:123456789012:log-group:flow-logs',
+        'arn:aws:logs:us-east-1:123456789012:log-group:flow-logs:*',
+      ]);
+    });
+
+    it('should use a supplied KMS key without creating one', () => {
+      const vpc = new VpcComponent('byok', {
+        name: 'byok',
+        flowLogs: { kmsKeyId: 'arn:aws:kms:us-east-1:123456789012:key/existing' },
+      });
+
+      expect(vpc.flowLogKey).toBeUndefined();
+      expect(aws.kms.Key).not.toHaveBeenCalled();
+    });
+
+    it('should deliver flow logs to S3 without a role or log group', () => {
+      const vpc = new VpcComponent('s3-logs', {
+        name: 's3-logs',
+        flowLogs: {
+          destination: 's3',
+          s3BucketArn: 'arn:aws:s3:::flow-log-archive/vpc/',
+          trafficType: 'REJECT',
+        },
+      });
+
+      expect(vpc.flowLogGroup).toBeUndefined();
+      expect(vpc.flowLogRole).toBeUndefined();
+
+      const flowLogArgs = (aws.ec2.FlowLog as unknown as jest.Mock).mock.calls[0][1];
+      expect(flowLogArgs.logDestinationType).toBe('s3');
+      expect(flowLogArgs.logDestination).toBe('arn:aws:s3:::flow-log-archive/vpc/');
+      expect(flowLogArgs.trafficType).toBe('REJECT');
+    });
+
+    it('should allow flow logs to be disabled', () => {
+      const vpc = new VpcComponent('quiet', { name: 'quiet', flowLogs: { enabled: false } });
+
+      expect(vpc.flowLog).toBeUndefined();
+      expect(aws.ec2.FlowLog).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid flow log configuration', () => {
+      expect(
+        () => new VpcComponent('bad', { name: 'bad', flowLogs: { destination: 's3' } })
+      ).toThrow('s3BucketArn is required');
+      expect(
+        () => new VpcComponent('bad', { name: 'bad', flowLogs: { retentionInDays: 42 } })
+      ).toThrow('Invalid flow log retention period');
+    });
+  });
+
+  describe('Default Security Group and Network ACL', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should strip all rules from the default security group', () => {
+      const vpc = new VpcComponent('locked', { name: 'locked' });
+
+      expect(vpc.defaultSecurityGroup).toBeDefined();
+      const args = (aws.ec2.DefaultSecurityGroup as unknown as jest.Mock).mock.calls[0][1];
+      expect(args.ingress).toEqual([]);
+      expect(args.egress).toEqual([]);
+    });
+
+    it('should strip the default network ACL', () => {
+      const vpc = new VpcComponent('locked', { name: 'locked' });
+
+      expect(vpc.defaultNetworkAcl).toBeDefined();
+      const defaultAclArgs = (aws.ec2.DefaultNetworkAcl as unknown as jest.Mock).mock.calls[0][1];
+      expect(defaultAclArgs.ingress).toEqual([]);
+      expect(defaultAclArgs.egress).toEqual([]);
+
+      expect(Object.keys(vpc.networkAcls)).toEqual(['public', 'private']);
+      const aclCalls = (aws.ec2.NetworkAcl as unknown as jest.Mock).mock.calls;
+      expect(aclCalls.map(call => call[0])).toEqual(['locked-public-nacl', 'locked-private-nacl']);
+      expect(aclCalls[0][1].subnetIds).toHaveLength(2);
+    });
+
+    it('should leave the defaults alone when restriction is disabled', () => {
+      const vpc = new VpcComponent('open', {
+        name: 'open',
+        restrictDefaultSecurityGroup: false,
+        restrictDefaultNetworkAcl: false,
+      });
+
+      expect(vpc.defaultSecurityGroup).toBeUndefined();
+      expect(vpc.defaultNetworkAcl).toBeUndefined();
+      expect(aws.ec2.DefaultSecurityGroup).not.toHaveBeenCalled();
+      expect(aws.ec2.DefaultNetworkAcl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Network ACLs', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    const aclArgs = (tierName: string): any =>
+      (aws.ec2.NetworkAcl as unknown as jest.Mock).mock.calls.find(
+        call => call[0] === `acl-${tierName}-nacl`
+      )[1];
+
+    it('should allow return traffic on ephemeral ports for internet-facing tiers', () => {
+      const rules = createDefaultNetworkAclRules('nat', '10.0.0.0/16');
+
+      expect(rules.ingress).toContainEqual({
+        ruleNumber: 200,
+        action: 'allow',
+        protocol: 'tcp',
+        cidrBlock: '0.0.0.0/0',
+        fromPort: 1024,
+        toPort: 65535,
+      });
+      expect(rules.egress[0]!.cidrBlock).toBe('0.0.0.0/0');
+    });
+
+    it('should allow UDP return traffic and traffic from connected networks', () => {
+      const rules = createDefaultNetworkAclRules('nat', '10.0.0.0/16', undefined, {
+        connectedCidrs: ['10.100.0.0/16'],
+      });
+
+      expect(rules.ingress).toContainEqual({
+        ruleNumber: 210,
+        action: 'allow',
+        protocol: 'udp',
+        cidrBlock: '0.0.0.0/0',
+        fromPort: 1024,
+        toPort: 65535,
+      });
+      expect(rules.ingress).toContainEqual({
+        ruleNumber: 300,
+        action: 'allow',
+        protocol: 'all',
+        cidrBlock: '10.100.0.0/16',
+      });
+    });
+
+    it('should keep isolated tiers inside the VPC', () => {
+      const rules = createDefaultNetworkAclRules('none', '10.0.0.0/16');
+
+      for (const rule of [...rules.ingress, ...rules.egress]) {
+        expect(rule.cidrBlock).toBe('10.0.0.0/16');
+      }
+    });
+
+    it('should create a network ACL per tier with provider-format rules', () => {
+      const vpc = new VpcComponent('acl', {
+        name: 'acl',
+        subnetTiers: [
+          { name: 'public', routing: 'igw' },
+          { name: 'app', routing: 'nat' },
+          { name: 'data', routing: 'none' },
+        ],
+      });
+
+      expect(Object.keys(vpc.networkAcls)).toEqual(['public', 'app', 'data']);
+
+      const publicAcl = aclArgs('public');
+      expect(publicAcl.subnetIds).toHaveLength(2);
+      expect(publicAcl.ingress).toContainEqual({
+        ruleNo: 110,
+        action: 'allow',
+        cidrBlock: '0.0.0.0/0',
+        protocol: 'tcp',
+        fromPort: 443,
+        toPort: 443,
+      });
+
+      const dataAcl = aclArgs('data');
+      expect(dataAcl.egress).toEqual([
+        {
+          ruleNo: 100,
+          action: 'allow',
+          cidrBlock: '10.0.0.0/16',
+          protocol: '-1',
+          fromPort: 0,
+          toPort: 0,
+        },
+      ]);
+    });
+
+    it('should replace the defaults for a direction with custom rules', () => {
+      new VpcComponent('acl', {
+        name: 'acl',
+        subnetTiers: [
+          { name: 'public', routing: 'igw' },
+          {
+            name: 'private',
+            routing: 'nat',
+            networkAcl: {
+              ingress: [
+                {
+                  ruleNumber: 100,
+                  action: 'allow',
+                  protocol: 'tcp',
+                  cidrBlock: '10.0.0.0/16',
+                  fromPort: 5432,
+                },
+              ],
+            },
+          },
+        ],
+      });
+
+      const privateAcl = aclArgs('private');
+      expect(privateAcl.ingress).toHaveLength(1);
+      expect(privateAcl.ingress[0].toPort).toBe(5432);
+      // Egress keeps the defaults
+      expect(privateAcl.egress[0].cidrBlock).toBe('0.0.0.0/0');
+    });
+
+    it('should reject colliding rule numbers', () => {
+      const result = validateNetworkAcl('app', {
+        ingress: [
+          { ruleNumber: 100, action: 'allow', protocol: 'all', cidrBlock: '10.0.0.0/16' },
+          { ruleNumber: 100, action: 'deny', protocol: 'all', cidrBlock: '0.0.0.0/0' },
+        ],
+        egress: [{ ruleNumber: 100, action: 'allow', protocol: 'all', cidrBlock: '0.0.0.0/0' }],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        "Network ACL rule number 100 is used more than once in 'app' ingress",
+      ]);
+    });
+
+    it('should reject invalid rules', () => {
+      const result = validateNetworkAcl('app', {
+        egress: [
+          { ruleNumber: 0, action: 'allow', protocol: 'all', cidrBlock: '0.0.0.0/0' },
+          { ruleNumber: 10, action: 'allow', protocol: 'tcp', cidrBlock: '0.0.0.0/0' },
+          {
+            ruleNumber: 20,
+            action: 'allow',
+            protocol: 'all',
+            cidrBlock: '0.0.0.0/0',
+            fromPort: 22,
+          },
+          { ruleNumber: 30, action: 'allow', protocol: 'all', cidrBlock: '10.0.0.1/16' },
+        ],
+      });
+
+      expect(result.errors).toHaveLength(4);
+      expect(result.errors[0]).toContain('must be between 1 and 32766');
+      expect(result.errors[1]).toContain('needs a valid port range');
+      expect(result.errors[2]).toContain('only apply to tcp and udp');
+      expect(result.errors[3]).toContain('host bits set');
+    });
+
+    it('should fail VPC construction on invalid tier rules', () => {
+      expect(
+        () =>
+          new VpcComponent('bad', {
+            name: 'bad',
+            subnetTiers: [
+              {
+                name: 'public',
+                routing: 'igw',
+                networkAcl: {
+                  ingress: [
+                    { ruleNumber: 5, action: 'allow', protocol: 'udp', cidrBlock: '0.0.0.0/0' },
+                  ],
+                },
+              },
+            ],
+          })
+      ).toThrow('Invalid subnet tiers');
+    });
+  });
+
+  describe('Security Groups', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    const ingressCalls = (): any[][] =>
+      (aws.vpc.SecurityGroupIngressRule as unknown as jest.Mock).mock.calls;
+
+    it('should create groups without any rules by default', () => {
+      const sg = new SecurityGroupComponent('app', {
+        name: 'app',
+        vpcId: 'vpc-123',
+        groups: { web: {} },
+      });
+
+      expect(Object.keys(sg.securityGroups)).toEqual(['web']);
+      expect(sg.securityGroupIds.web).toBe('app-web-id');
+      expect(sg.ingressRules).toHaveLength(0);
+      expect(sg.egressRules).toHaveLength(0);
+
+      const groupArgs = (aws.ec2.SecurityGroup as unknown as jest.Mock).mock.calls[0][1];
+      expect(groupArgs.vpcId).toBe('vpc-123');
+      expect(groupArgs.ingress).toBeUndefined();
+      expect(groupArgs.egress).toBeUndefined();
+    });
+
+    it('should resolve rule references by group name, CIDR, prefix list and self', () => {
+      new SecurityGroupComponent('app', {
+        name: 'app',
+        vpcId: 'vpc-123',
+        groups: {
+          // Declared before the group it references
+          db: {
+            ingress: [
+              {
+                description: 'Postgres from web',
+                protocol: 'tcp',
+                fromPort: 5432,
+                securityGroup: 'web',
+              },
+              { description: 'Replication', protocol: 'all', self: true },
+            ],
+          },
+          web: {
+            ingress: [
+              { description: 'HTTPS', protocol: 'tcp', fromPort: 443, cidrBlock: '0.0.0.0/0' },
+            ],
+            egress: [
+              { description: 'S3', protocol: 'tcp', fromPort: 443, prefixListId: 'pl-63a5400a' },
+            ],
+          },
+        },
+      });
+
+      const [dbFromWeb, replication, https] = ingressCalls().map(call => call[1]);
+      expect(dbFromWeb).toMatchObject({
+        securityGroupId: 'app-db-id',
+        referencedSecurityGroupId: 'app-web-id',
+        ipProtocol: 'tcp',
+        fromPort: 5432,
+        toPort: 5432,
+      });
+      expect(replication).toMatchObject({
+        securityGroupId: 'app-db-id',
+        referencedSecurityGroupId: 'app-db-id',
+        ipProtocol: '-1',
+      });
+      expect(replication.fromPort).toBeUndefined();
+      expect(https).toMatchObject({ cidrIpv4: '0.0.0.0/0', ipProtocol: 'tcp' });
+
+      const [egressName, egress] = (aws.vpc.SecurityGroupEgressRule as unknown as jest.Mock).mock
+        .calls[0];
+      expect(egressName).toBe('app-web-egress-s3');
+      expect(egress).toMatchObject({ securityGroupId: 'app-web-id', prefixListId: 'pl-63a5400a' });
+    });
+
+    it('should name rule resources after the rule so reordering keeps them', () => {
+      new SecurityGroupComponent('app', {
+        name: 'app',
+        vpcId: 'vpc-123',
+        groups: {
+          web: {
+            ingress: [
+              {
+                description: 'HTTP from ALB',
+                protocol: 'tcp',
+                fromPort: 80,
+                securityGroupId: 'sg-1',
+              },
+              {
+                name: 'https',
+                description: 'HTTPS from the internet',
+                protocol: 'tcp',
+                fromPort: 443,
+                cidrBlock: '0.0.0.0/0',
+              },
+            ],
+          },
+        },
+      });
+
+      expect(ingressCalls().map(([name]) => name)).toEqual([
+        'app-web-ingress-http-from-alb',
+        'app-web-ingress-https',
+      ]);
+
+      const result = validateSecurityGroups({
+        web: {
+          ingress: [
+            { description: 'HTTPS', protocol: 'tcp', fromPort: 443, cidrBlock: '10.0.0.0/8' },
+            { description: 'https', protocol: 'tcp', fromPort: 443, cidrBlock: '10.1.0.0/16' },
+            { name: 'Web', description: 'Web', protocol: 'tcp', fromPort: 80, self: true },
+            { description: '→ *', protocol: 'tcp', fromPort: 8080, self: true },
+            { description: '* →', protocol: 'tcp', fromPort: 8443, self: true },
+          ],
+          egress: [
+            { description: 'HTTPS', protocol: 'tcp', fromPort: 443, cidrBlock: '0.0.0.0/0' },
+          ],
+        },
+      });
+      expect(result.errors).toEqual([
+        "Security group 'web' ingress rule 1 is named 'https' like another rule, set a unique name",
+        "Security group 'web' ingress rule 2 name 'Web' can only contain lowercase letters, numbers, and hyphens",
+        "Security group 'web' ingress rule 3 has no letters or numbers in its description to be named after, set name",
+        "Security group 'web' ingress rule 4 has no letters or numbers in its description to be named after, set name",
+      ]);
+    });
+
+    it('should reject rules with unknown references or ambiguous peers', () => {
+      const result = validateSecurityGroups({
+        web: {
+          ingress: [
+            { description: 'Missing', protocol: 'tcp', fromPort: 443, securityGroup: 'lb' },
+            {
+              description: 'Two peers',
+              protocol: 'tcp',
+              fromPort: 443,
+              cidrBlock: '10.0.0.0/8',
+              self: true,
+            },
+            { description: '', protocol: 'udp', cidrBlock: '10.0.0.0/8' },
+          ],
+        },
+      });
+
+      expect(result.errors).toEqual([
+        "Security group 'web' ingress rule 0 references unknown security group 'lb'",
+        "Security group 'web' ingress rule 1 must set exactly one of cidrBlock, ipv6CidrBlock, prefixListId, securityGroup, securityGroupId, or self",
+        "Security group 'web' ingress rule 2 needs a description",
+        "Security group 'web' ingress rule 2 needs a valid port range (0-65535)",
+      ]);
+      expect(
+        () =>
+          new SecurityGroupComponent('bad', {
+            name: 'bad',
+            vpcId: 'vpc-123',
+            groups: { Web: {} },
+          })
+      ).toThrow('Invalid security groups');
+    });
+  });
+
+  describe('VPC Endpoints', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should not create endpoints unless configured', () => {
+      const vpc = new VpcComponent('plain', { name: 'plain' });
+
+      expect(vpc.vpcEndpoints).toEqual({});
+      expect(vpc.endpointSecurityGroup).toBeUndefined();
+      expect(aws.ec2.VpcEndpoint).not.toHaveBeenCalled();
+    });
+
+    it('should create account-scoped S3 and DynamoDB gateway endpoints by default', () => {
+      const vpc = new VpcComponent('gw', { name: 'gw', vpcEndpoints: {} });
+
+      expect(Object.keys(vpc.vpcEndpoints)).toEqual(['s3', 'dynamodb']);
+      expect(vpc.endpointSecurityGroup).toBeUndefined();
+
+      const [resourceName, args] = (aws.ec2.VpcEndpoint as unknown as jest.Mock).mock.calls[0];
+      expect(resourceName).toBe('gw-s3-endpoint');
+      expect(args.serviceName).toBe('com.amazonaws.us-east-1.s3');
+      expect(args.vpcEndpointType).toBe('Gateway');
+      // One route table per private subnet
+      expect(args.routeTableIds).toHaveLength(2);
+
+      const policy = JSON.parse(args.policy);
+      expect(policy.Statement[0].Condition.StringEquals['aws:PrincipalAccount']).toBe(
+        '123456789012'
+      );
+    });
+
+    it('should route isolated tiers to gateway endpoints and open their network ACL to match', () => {
+      const vpc = new VpcComponent('gw', {
+        name: 'gw',
+        subnetTiers: [
+          { name: 'public', routing: 'igw' },
+          { name: 'app', routing: 'nat' },
+          { name: 'data', routing: 'none' },
+        ],
+        vpcEndpoints: {},
+      });
+
+      const args = (aws.ec2.VpcEndpoint as unknown as jest.Mock).mock.calls[0][1];
+      expect(args.routeTableIds).toEqual(
+        [...vpc.routeTables.private, ...vpc.routeTables.isolated].map(routeTable => routeTable.id)
+      );
+
+      // HTTPS out to the S3 and DynamoDB ranges, return traffic back in
+      const dataAcl = (aws.ec2.NetworkAcl as unknown as jest.Mock).mock.calls.find(
+        ([name]) => name === 'gw-data-nacl'
+      )[1];
+      expect(aws.ec2.getPrefixListOutput).toHaveBeenCalledWith(
+        { name: 'com.amazonaws.us-east-1.dynamodb' },
+        expect.anything()
+      );
+      expect(dataAcl.egress.slice(1)).toEqual(
+        ['52.216.0.0/15', '3.5.0.0/19', '52.94.0.0/22'].map((cidrBlock, i) => ({
+          ruleNo: 400 + i,
+          action: 'allow',
+          cidrBlock,
+          protocol: 'tcp',
+          fromPort: 443,
+          toPort: 443,
+        }))
+      );
+      expect(dataAcl.ingress).toContainEqual({
+        ruleNo: 402,
+        action: 'allow',
+        cidrBlock: '52.94.0.0/22',
+        protocol: 'tcp',
+        fromPort: 1024,
+        toPort: 65535,
+      });
+    });
+
+    it('should place interface endpoints behind an HTTPS-only security group', () => {
+      const vpc = new VpcComponent('ifc', {
+        name: 'ifc',
+        vpcEndpoints: { gatewayEndpoints: [], interfaceEndpoints: ['ecr.api', 'sts'] },
+      });
+
+      expect(Object.keys(vpc.vpcEndpoints)).toEqual(['ecr.api', 'sts']);
+      expect(vpc.endpointSecurityGroup).toBeDefined();
+
+      const [resourceName, args] = (aws.ec2.VpcEndpoint as unknown as jest.Mock).mock.calls[0];
+      expect(resourceName).toBe('ifc-ecr-api-endpoint');
+      expect(args.serviceName).toBe('com.amazonaws.us-east-1.ecr.api');
+      expect(args.vpcEndpointType).toBe('Interface');
+      expect(args.privateDnsEnabled).toBe(true);
+      expect(args.subnetIds).toHaveLength(2);
+      expect(args.policy).toBeUndefined();
+
+      const ruleCalls = (aws.vpc.SecurityGroupIngressRule as unknown as jest.Mock).mock.calls;
+      expect(ruleCalls).toHaveLength(1);
+      expect(ruleCalls[0][0]).toBe('ifc-endpoints-https-10-0-0-0-16');
+      expect(ruleCalls[0][1]).toMatchObject({
+        ipProtocol: 'tcp',
+        fromPort: 443,
+        toPort: 443,
+        cidrIpv4: '10.0.0.0/16',
+      });
+    });
+
+    it('should name endpoint rules after the networks they allow', () => {
+      new VpcComponent('ifc', {
+        name: 'ifc',
+        vpcEndpoints: {
+          interfaceEndpoints: ['sts'],
+          allowedCidrBlocks: ['10.0.0.0/16', '192.168.0.0/16', '10.0.0.0/16'],
+        },
+      });
+
+      expect(
+        (aws.vpc.SecurityGroupIngressRule as unknown as jest.Mock).mock.calls.map(
+          ([ruleName]) => ruleName
+        )
+      ).toEqual(['ifc-endpoints-https-10-0-0-0-16', 'ifc-endpoints-https-192-168-0-0-16']);
+    });
+
+    it('should apply custom endpoint policies', () => {
+      new VpcComponent('pol', {
+        name: 'pol',
+        vpcEndpoints: {
+          gatewayEndpoints: ['s3'],
+          policies: {
+            s3: {
+              version: '2012-10-17',
+              statements: [
+                {
+                  effect: 'Allow',
+                  principals: [{ type: 'AWS', identifiers: '*' }],
+                  actions: 's3:GetObject',
+                  resources: 'arn:aws:s3:::artifacts/*',
+                },
+              ],
+            },
+          },
+        },
+      });
+
+      const args = (aws.ec2.VpcEndpoint as unknown as jest.Mock).mock.calls[0][1];
+      expect(JSON.parse(args.policy).Statement[0].Resource).toBe('arn:aws:s3:::artifacts/*');
+    });
+
+    it('should reject invalid endpoint configuration', () => {
+      expect(
+        () =>
+          new VpcComponent('bad', {
+            name: 'bad',
+            vpcEndpoints: { interfaceEndpoints: ['sts', 'sts'] },
+          })
+      ).toThrow('Invalid VPC endpoint configuration');
+      expect(
+        () =>
+          new VpcComponent('bad', {
+            name: 'bad',
+            vpcEndpoints: { subnetTier: 'missing' },
+          })
+      ).toThrow('missing');
+    });
+  });
+
+  describe('Transit Gateway', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should not attach to a Transit Gateway unless configured', () => {
+      const vpc = new VpcComponent('plain', { name: 'plain' });
+
+      expect(vpc.transitGatewayAttachment).toBeUndefined();
+      expect(aws.ec2transitgateway.VpcAttachment).not.toHaveBeenCalled();
+    });
+
+    it('should attach the private tier and route destinations from every tier', () => {
+      const vpc = new VpcComponent('spoke', {
+        name: 'spoke',
+        transitGateway: {
+          transitGatewayId: 'tgw-123',
+          destinationCidrBlocks: ['10.100.0.0/16', '192.168.0.0/16'],
+        },
+      });
+
+      expect(vpc.transitGatewayAttachment).toBeDefined();
+
+      const [resourceName, args] = (aws.ec2transitgateway.VpcAttachment as unknown as jest.Mock)
+        .mock.calls[0];
+      expect(resourceName).toBe('spoke-tgw-attachment');
+      expect(args.transitGatewayId).toBe('tgw-123');
+      expect(args.subnetIds).toHaveLength(2);
+      expect(args.applianceModeSupport).toBe('disable');
+      expect(args.transitGatewayDefaultRouteTableAssociation).toBeUndefined();
+      expect(args.transitGatewayDefaultRouteTablePropagation).toBeUndefined();
+
+      const routeCalls = (aws.ec2.Route as unknown as jest.Mock).mock.calls.filter(([name]) =>
+        name.includes('-tgw-route-')
+      );
+      // One public route table and two private route tables, two destinations each
+      expect(routeCalls).toHaveLength(6);
+      expect(routeCalls[0][0]).toBe('spoke-public-tgw-route-0-10-100-0-0-16');
+      expect(routeCalls[0][1]).toMatchObject({
+        destinationCidrBlock: '10.100.0.0/16',
+        transitGatewayId: 'tgw-123',
+      });
+      expect(routeCalls[0][2].dependsOn).toEqual([vpc.transitGatewayAttachment]);
+    });
+
+    it('should limit routes to the selected tiers', () => {
+      new VpcComponent('spoke', {
+        name: 'spoke',
+        transitGateway: {
+          transitGatewayId: 'tgw-123',
+          destinationCidrBlocks: ['10.100.0.0/16'],
+          routeTiers: ['private'],
+        },
+      });
+
+      const routeNames = (aws.ec2.Route as unknown as jest.Mock).mock.calls
+        .map(([name]) => name as string)
+        .filter(name => name.includes('-tgw-route-'));
+      expect(routeNames).toEqual([
+        'spoke-private-tgw-route-0-10-100-0-0-16',
+        'spoke-private-tgw-route-1-10-100-0-0-16',
+      ]);
+    });
+
+    it('should route isolated tiers only when selected, and open their network ACL to match', () => {
+      const tgwRoutes = () =>
+        (aws.ec2.Route as unknown as jest.Mock).mock.calls
+          .map(([name]) => name as string)
+          .filter(name => name.includes('-tgw-route-'));
+      const dataAcl = () =>
+        (aws.ec2.NetworkAcl as unknown as jest.Mock).mock.calls.find(
+          ([name]) => name === 'spoke-data-nacl'
+        )[1];
+      const subnetTiers = [
+        { name: 'public', routing: 'igw' as const },
+        { name: 'private', routing: 'nat' as const },
+        { name: 'data', routing: 'none' as const },
+      ];
+
+      new VpcComponent('spoke', {
+        name: 'spoke',
+        subnetTiers,
+        transitGateway: { transitGatewayId: 'tgw-123', destinationCidrBlocks: ['10.100.0.0/16'] },
+      });
+
+      expect(tgwRoutes().filter(name => name.startsWith('spoke-data-'))).toEqual([]);
+      expect(dataAcl().egress.map((rule: { cidrBlock: string }) => rule.cidrBlock)).toEqual([
+        '10.0.0.0/16',
+      ]);
+
+      jest.clearAllMocks();
+      new VpcComponent('spoke', {
+        name: 'spoke',
+        subnetTiers,
+        transitGateway: {
+          transitGatewayId: 'tgw-123',
+          destinationCidrBlocks: ['10.100.0.0/16'],
+          routeTiers: ['data'],
+        },
+      });
+
+      expect(tgwRoutes()).toEqual(['spoke-data-tgw-route-0-10-100-0-0-16']);
+      const routed = {
+        ruleNo: 300,
+        action: 'allow',
+        cidrBlock: '10.100.0.0/16',
+        protocol: '-1',
+        fromPort: 0,
+        toPort: 0,
+      };
+      expect(dataAcl().ingress).toContainEqual(routed);
+      expect(dataAcl().egress).toContainEqual(routed);
+    });
+
+    it('should keep route names when destinations are reordered', () => {
+      const routeNames = (destinationCidrBlocks: string[]) => {
+        jest.clearAllMocks();
+        new VpcComponent('spoke', {
+          name: 'spoke',
+          transitGateway: {
+            transitGatewayId: 'tgw-123',
+            destinationCidrBlocks,
+            routeTiers: ['private'],
+          },
+        });
+        return (aws.ec2.Route as unknown as jest.Mock).mock.calls
+          .map(([name]) => name as string)
+          .filter(name => name.includes('-tgw-route-'))
+          .sort();
+      };
+
+      expect(routeNames(['10.100.0.0/16', '192.168.0.0/16'])).toEqual(
+        routeNames(['192.168.0.0/16', '10.100.0.0/16'])
+      );
+      expect(routeNames(['192.168.0.0/16'])).toEqual([
+        'spoke-private-tgw-route-0-192-168-0-0-16',
+        'spoke-private-tgw-route-1-192-168-0-0-16',
+      ]);
+    });
+
+    it('should associate and propagate explicit Transit Gateway route tables', () => {
+      new VpcComponent('seg', {
+        name: 'seg',
+        transitGateway: {
+          transitGatewayId: 'tgw-123',
+          applianceModeSupport: true,
+          associationRouteTableId: 'tgw-rtb-prod',
+          propagationRouteTableIds: ['tgw-rtb-shared', 'tgw-rtb-inspection'],
+        },
+      });
+
+      const args = (aws.ec2transitgateway.VpcAttachment as unknown as jest.Mock).mock.calls[0][1];
+      expect(args.applianceModeSupport).toBe('enable');
+      expect(args.transitGatewayDefaultRouteTableAssociation).toBe(false);
+      expect(args.transitGatewayDefaultRouteTablePropagation).toBe(false);
+
+      const associationCalls = (aws.ec2transitgateway.RouteTableAssociation as unknown as jest.Mock)
+        .mock.calls;
+      expect(associationCalls).toHaveLength(1);
+      expect(associationCalls[0][1]).toEqual({
+        transitGatewayAttachmentId: 'tgw-attach-123',
+        transitGatewayRouteTableId: 'tgw-rtb-prod',
+      });
+
+      const propagationCalls = (aws.ec2transitgateway.RouteTablePropagation as unknown as jest.Mock)
+        .mock.calls;
+      expect(propagationCalls.map(([, args]) => args.transitGatewayRouteTableId)).toEqual([
+        'tgw-rtb-shared',
+        'tgw-rtb-inspection',
+      ]);
+      expect(propagationCalls.map(([propagationName]) => propagationName)).toEqual([
+        'seg-tgw-propagation-tgw-rtb-shared',
+        'seg-tgw-propagation-tgw-rtb-inspection',
+      ]);
+    });
+
+    it('should name propagations to route tables created elsewhere after their key', () => {
+      const sharedRouteTable = { id: 'tgw-rtb-created-in-this-program' };
+      new VpcComponent('seg', {
+        name: 'seg',
+        transitGateway: {
+          transitGatewayId: 'tgw-123',
+          propagationRouteTableIds: { shared: sharedRouteTable.id },
+        },
+      });
+
+      const [propagationName, propagationArgs] = (
+        aws.ec2transitgateway.RouteTablePropagation as unknown as jest.Mock
+      ).mock.calls[0];
+      expect(propagationName).toBe('seg-tgw-propagation-shared');
+      expect(propagationArgs.transitGatewayRouteTableId).toBe(sharedRouteTable.id);
+    });
+
+    it('should reject destinations that overlap the VPC or clash with default routes', () => {
+      expect(
+        () =>
+          new VpcComponent('bad', {
+            name: 'bad',
+            transitGateway: { transitGatewayId: 'tgw-123', destinationCidrBlocks: ['10.0.5.0/24'] },
+          })
+      ).toThrow('is inside the VPC CIDR 10.0.0.0/16');
+      expect(
+        () =>
+          new VpcComponent('bad', {
+            name: 'bad',
+            transitGateway: { transitGatewayId: 'tgw-123', destinationCidrBlocks: ['0.0.0.0/0'] },
+          })
+      ).toThrow("clashes with the existing default route of tier 'public'");
+      expect(
+        () =>
+          new VpcComponent('bad', {
+            name: 'bad',
+            transitGateway: { transitGatewayId: 'tgw-123', routeTiers: ['missing'] },
+          })
+      ).toThrow("Transit Gateway route tier 'missing' does not exist");
+    });
+
+    it('should allow a default route to the Transit Gateway from tiers without one', () => {
+      new VpcComponent('central', {
+        name: 'central',
+        enableNatGateway: false,
+        transitGateway: {
+          transitGatewayId: 'tgw-123',
+          destinationCidrBlocks: ['0.0.0.0/0'],
+          routeTiers: ['private'],
+        },
+      });
+
+      const routeCalls = (aws.ec2.Route as unknown as jest.Mock).mock.calls.filter(([name]) =>
+        name.includes('-tgw-route-')
+      );
+      expect(routeCalls.length).toBeGreaterThan(0);
+      expect(routeCalls[0][1].destinationCidrBlock).toBe('0.0.0.0/0');
+    });
+  });
+
+  describe('DNS', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should not create DNS resources unless configured', () => {
+      const vpc = new VpcComponent('plain', { name: 'plain' });
+
+      expect(vpc.privateHostedZone).toBeUndefined();
+      expect(vpc.resolverInboundEndpoint).toBeUndefined();
+      expect(vpc.resolverOutboundEndpoint).toBeUndefined();
+      expect(vpc.resolverRules).toEqual([]);
+      expect(vpc.dnsQueryLogGroup).toBeUndefined();
+      expect(aws.route53.ResolverQueryLogConfig).not.toHaveBeenCalled();
+    });
+
+    it('should associate a private hosted zone and log queries with the flow log key', () => {
+      const vpc = new VpcComponent('app', {
+        name: 'app',
+        dns: { privateZoneName: 'internal.example.com' },
+      });
+
+      expect(vpc.privateHostedZone).toBeDefined();
+      const zoneArgs = (aws.route53.Zone as unknown as jest.Mock).mock.calls[0][1];
+      expect(zoneArgs.name).toBe('internal.example.com');
+      expect(zoneArgs.vpcs).toHaveLength(1);
+
+      // Query logging is on by default and reuses the flow log key
+      expect(vpc.dnsQueryLogKey).toBeUndefined();
+      expect(aws.kms.Key).toHaveBeenCalledTimes(1);
+      const logGroupCall = (aws.cloudwatch.LogGroup as unknown as jest.Mock).mock.calls.find(
+        ([name]) => name === 'app-dns-query-logs'
+      )!;
+      expect(logGroupCall[1]).toMatchObject({
+        name: '/aws/route53/resolver/app',
+        retentionInDays: 365,
+        kmsKeyId: 'arn:aws:kms:us-east-1:123456789012:key/flow-logs',
+      });
+      const associationArgs = (
+        aws.route53.ResolverQueryLogConfigAssociation as unknown as jest.Mock
+      ).mock.calls[0][1];
+      expect(associationArgs.resolverQueryLogConfigId).toBe('rqlc-123');
+
+      // No endpoints unless requested
+      expect(aws.route53.ResolverEndpoint).not.toHaveBeenCalled();
+    });
+
+    it('should create a dedicated log key when flow logs are off', () => {
+      const vpc = new VpcComponent('app', {
+        name: 'app',
+        flowLogs: { enabled: false },
+        dns: {},
+      });
+
+      expect(vpc.dnsQueryLogKey).toBeDefined();
+      expect((aws.kms.Key as unknown as jest.Mock).mock.calls[0][0]).toBe('app-dns-logs-key');
+    });
+
+    it('should forward domains through an outbound endpoint limited to the target resolvers', () => {
+      const vpc = new VpcComponent('hybrid', {
+        name: 'hybrid',
+        dns: {
+          forwardingRules: [
+            { domainName: 'corp.example.com', targetIps: ['192.168.10.2', '192.168.10.3'] },
+            { domainName: 'ad.example.com', targetIps: ['192.168.10.2'] },
+          ],
+          queryLogging: { enabled: false },
+        },
+      });
+
+      expect(vpc.resolverInboundEndpoint).toBeUndefined();
+      expect(vpc.resolverOutboundEndpoint).toBeDefined();
+      expect(vpc.resolverRules).toHaveLength(2);
+      expect(vpc.dnsQueryLogGroup).toBeUndefined();
+
+      const endpointCalls = (aws.route53.ResolverEndpoint as unknown as jest.Mock).mock.calls;
+      expect(endpointCalls).toHaveLength(1);
+      expect(endpointCalls[0][1].direction).toBe('OUTBOUND');
+      // One IP address per AZ of the private tier
+      expect(endpointCalls[0][1].ipAddresses).toHaveLength(2);
+
+      const egressRules = (aws.vpc.SecurityGroupEgressRule as unknown as jest.Mock).mock.calls;
+      expect(egressRules.map(([, args]) => `${args.ipProtocol} ${args.cidrIpv4}`)).toEqual([
+        'udp 192.168.10.2/32',
+        'tcp 192.168.10.2/32',
+        'udp 192.168.10.3/32',
+        'tcp 192.168.10.3/32',
+      ]);
+      // Named after the target resolver and the domain, not their position
+      expect(egressRules.map(([ruleName]) => ruleName)).toEqual([
+        'hybrid-resolver-outbound-dns-udp-192-168-10-2-32',
+        'hybrid-resolver-outbound-dns-tcp-192-168-10-2-32',
+        'hybrid-resolver-outbound-dns-udp-192-168-10-3-32',
+        'hybrid-resolver-outbound-dns-tcp-192-168-10-3-32',
+      ]);
+      expect(
+        (aws.route53.ResolverRuleAssociation as unknown as jest.Mock).mock.calls.map(
+          ([associationName]) => associationName
+        )
+      ).toEqual([
+        'hybrid-resolver-rule-association-corp-example-com',
+        'hybrid-resolver-rule-association-ad-example-com',
+      ]);
+
+      const [ruleName, ruleArgs] = (aws.route53.ResolverRule as unknown as jest.Mock).mock.calls[0];
+      expect(ruleName).toBe('hybrid-resolver-rule-corp-example-com');
+      expect(ruleArgs).toMatchObject({
+        name: 'hybrid-corp-example-com',
+        domainName: 'corp.example.com',
+        ruleType: 'FORWARD',
+        resolverEndpointId: 'hybrid-resolver-outbound-id',
+        targetIps: [
+          { ip: '192.168.10.2', port: 53 },
+          { ip: '192.168.10.3', port: 53 },
+        ],
+      });
+      expect(aws.route53.ResolverRuleAssociation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should accept queries on the inbound endpoint only from allowed networks', () => {
+      const vpc = new VpcComponent('hybrid', {
+        name: 'hybrid',
+        availabilityZoneCount: 1,
+        dns: { inboundEndpoint: true, inboundAllowedCidrBlocks: ['192.168.0.0/16'] },
+      });
+
+      expect(vpc.resolverInboundEndpoint).toBeDefined();
+      expect(vpc.resolverOutboundEndpoint).toBeUndefined();
+
+      const endpointArgs = (aws.route53.ResolverEndpoint as unknown as jest.Mock).mock.calls[0][1];
+      expect(endpointArgs.direction).toBe('INBOUND');
+      // Resolver needs two addresses even in a single-AZ VPC
+      expect(endpointArgs.ipAddresses).toHaveLength(2);
+
+      const ingressRules = (aws.vpc.SecurityGroupIngressRule as unknown as jest.Mock).mock.calls;
+      expect(ingressRules).toHaveLength(2);
+      expect(ingressRules[0][1]).toMatchObject({
+        ipProtocol: 'udp',
+        fromPort: 53,
+        toPort: 53,
+        cidrIpv4: '192.168.0.0/16',
+      });
+    });
+
+    it('should validate DNS configuration', () => {
+      const tiers = [{ name: 'private', routing: 'nat' as const }];
+
+      expect(validateDnsConfig({ privateZoneName: 'internal.example.com' }, tiers).isValid).toBe(
+        true
+      );
+
+      const result = validateDnsConfig(
+        {
+          subnetTier: 'missing',
+          privateZoneName: 'not a domain',
+          outboundEndpoint: false,
+          forwardingRules: [
+            { domainName: 'corp.example.com', targetIps: ['10.0.0.300'] },
+            { domainName: 'CORP.example.com', targetIps: [], port: 70000 },
+          ],
+          queryLogging: { retentionInDays: 42 },
+        },
+        tiers
+      );
+      expect(result.errors).toEqual([
+        "DNS subnet tier 'missing' does not exist",
+        "Invalid private hosted zone name 'not a domain'",
+        'Forwarding rules require the outbound endpoint',
+        "Invalid target IP '10.0.0.300' in forwarding rule 'corp.example.com'",
+        "Duplicate forwarding rule for 'CORP.example.com'",
+        "Forwarding rule 'CORP.example.com' has no target IPs",
+        "Invalid port 70000 in forwarding rule 'CORP.example.com'",
+        'Invalid DNS query log retention period: 42 days',
+      ]);
+
+      expect(
+        () => new VpcComponent('bad', { name: 'bad', dns: { subnetTier: 'missing' } })
+      ).toThrow('Invalid DNS configuration');
+    });
+  });
+
+  describe('Network Firewall', () => {
+    const firewallTiers = [
+      { name: 'firewall', routing: 'igw', prefixLength: 28 },
+      { name: 'public', routing: 'igw', prefixLength: 24 },
+      { name: 'private', routing: 'nat', prefixLength: 22 },
+    ] as const;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should not create a firewall unless configured', () => {
+      const vpc = new VpcComponent('plain', { name: 'plain' });
+
+      expect(vpc.networkFirewall).toBeUndefined();
+      expect(vpc.networkFirewallLogGroups).toEqual({});
+      expect(aws.networkfirewall.Firewall).not.toHaveBeenCalled();
+    });
+
+    it('should place the firewall in the firewall tier with an allow-list and Suricata rules', () => {
+      const vpc = new VpcComponent('edge', {
+        name: 'edge',
+        subnetTiers: firewallTiers,
+        firewall: {
+          allowedDomains: ['.amazonaws.com', 'github.com'],
+          suricataRules: 'drop tcp $HOME_NET any -> any 22 (msg:"No SSH out"; sid:1;)',
+        },
+      });
+
+      expect(vpc.networkFirewall).toBeDefined();
+      const ruleGroupCalls = (aws.networkfirewall.RuleGroup as unknown as jest.Mock).mock.calls;
+      expect(ruleGroupCalls).toHaveLength(2);
+      expect(ruleGroupCalls[0][1].ruleGroup.rulesSource.rulesSourceList).toEqual({
+        generatedRulesType: 'ALLOWLIST',
+        targetTypes: ['HTTP_HOST', 'TLS_SNI'],
+        targets: ['.amazonaws.com', 'github.com'],
+      });
+      expect(ruleGroupCalls[0][1].ruleGroup.ruleVariables.ipSets[0].ipSet.definitions).toEqual([
+        '10.0.0.0/16',
+      ]);
+      expect(ruleGroupCalls[1][1].ruleGroup.rulesSource.rulesString).toContain('No SSH out');
+      expect(ruleGroupCalls[1][1].capacity).toBe(100);
+
+      const policyArgs = (aws.networkfirewall.FirewallPolicy as unknown as jest.Mock).mock
+        .calls[0][1];
+      expect(policyArgs.firewallPolicy.statefulDefaultActions).toEqual([
+        'aws:drop_established',
+        'aws:alert_established',
+      ]);
+      expect(policyArgs.firewallPolicy.statefulRuleGroupReferences).toEqual([
+        { priority: 100, resourceArn: 'edge-firewall-domains-arn' },
+        { priority: 200, resourceArn: 'edge-firewall-suricata-arn' },
+      ]);
+
+      const firewallArgs = (aws.networkfirewall.Firewall as unknown as jest.Mock).mock.calls[0][1];
+      expect(firewallArgs.subnetMappings).toHaveLength(2);
+      expect(firewallArgs.deleteProtection).toBe(true);
+
+      // Firewall subnets never assign public IPs and are not public subnets
+      const firewallSubnets = (aws.ec2.Subnet as unknown as jest.Mock).mock.calls.filter(([name]) =>
+        name.startsWith('edge-firewall-')
+      );
+      expect(firewallSubnets).toHaveLength(2);
+      expect(firewallSubnets[0][1].mapPublicIpOnLaunch).toBe(false);
+      expect(vpc.publicSubnetIds).toHaveLength(2);
+    });
+
+    it('should route public subnets through the endpoint in their AZ in both directions', () => {
+      new VpcComponent('edge', {
+        name: 'edge',
+        subnetTiers: firewallTiers,
+        firewall: { allowedDomains: ['example.com'] },
+      });
+
+      const routeCalls = (aws.ec2.Route as unknown as jest.Mock).mock.calls;
+      const outbound = routeCalls.filter(([name]) => name.startsWith('edge-public-route-'));
+      expect(outbound.map(([, args]) => args.vpcEndpointId)).toEqual(['vpce-fw-a', 'vpce-fw-b']);
+      expect(outbound[0][1].destinationCidrBlock).toBe('0.0.0.0/0');
+
+      // The firewall tier itself still reaches the internet gateway directly
+      const firewallRoute = routeCalls.find(([name]) => name === 'edge-firewall-route');
+      expect(firewallRoute[1].vpcEndpointId).toBeUndefined();
+      expect(firewallRoute[1].destinationCidrBlock).toBe('0.0.0.0/0');
+
+      const inbound = routeCalls.filter(([name]) => name.startsWith('edge-igw-public-route-'));
+      expect(inbound).toHaveLength(2);
+      expect(inbound[1][1].vpcEndpointId).toBe('vpce-fw-b');
+
+      const edgeAssociation = (
+        aws.ec2.RouteTableAssociation as unknown as jest.Mock
+      ).mock.calls.find(([name]) => name === 'edge-igw-rta');
+      expect(edgeAssociation).toBeDefined();
+    });
+
+    it('should use allow-all network ACLs on the firewall tier', () => {
+      new VpcComponent('edge', {
+        name: 'edge',
+        subnetTiers: firewallTiers,
+        firewall: { allowedDomains: ['example.com'] },
+      });
+
+      const aclArgs = (aws.ec2.NetworkAcl as unknown as jest.Mock).mock.calls.find(
+        ([name]) => name === 'edge-firewall-nacl'
+      )[1];
+      expect(aclArgs.ingress).toEqual([
+        expect.objectContaining({ ruleNo: 100, action: 'allow', cidrBlock: '0.0.0.0/0' }),
+      ]);
+    });
+
+    it('should deliver alert and flow logs to encrypted log groups', () => {
+      const vpc = new VpcComponent('edge', {
+        name: 'edge',
+        subnetTiers: firewallTiers,
+        firewall: { allowedDomains: ['example.com'], defaultAction: 'alert' },
+      });
+
+      expect(Object.keys(vpc.networkFirewallLogGroups)).toEqual(['ALERT', 'FLOW']);
+      expect(aws.cloudwatch.LogGroup).toHaveBeenCalledWith(
+        'edge-firewall-alert-logs',
+        expect.objectContaining({ name: '/aws/network-firewall/edge/alert' }),
+        expect.anything()
+      );
+      // The flow log key is reused
+      expect(vpc.networkFirewallLogKey).toBeUndefined();
+
+      const loggingArgs = (aws.networkfirewall.LoggingConfiguration as unknown as jest.Mock).mock
+        .calls[0][1];
+      expect(loggingArgs.loggingConfiguration.logDestinationConfigs).toHaveLength(2);
+      expect(loggingArgs.loggingConfiguration.logDestinationConfigs[0]).toMatchObject({
+        logType: 'ALERT',
+        logDestinationType: 'CloudWatchLogs',
+      });
+
+      const policyArgs = (aws.networkfirewall.FirewallPolicy as unknown as jest.Mock).mock
+        .calls[0][1];
+      expect(policyArgs.firewallPolicy.statefulDefaultActions).toEqual(['aws:alert_established']);
+    });
+
+    it('should deliver logs to S3 without log groups', () => {
+      const vpc = new VpcComponent('edge', {
+        name: 'edge',
+        subnetTiers: firewallTiers,
+        firewall: {
+          allowedDomains: ['example.com'],
+          logging: { destination: 's3', s3BucketName: 'central-logs', logTypes: ['ALERT'] },
+        },
+      });
+
+      expect(vpc.networkFirewallLogGroups).toEqual({});
+      const loggingArgs = (aws.networkfirewall.LoggingConfiguration as unknown as jest.Mock).mock
+        .calls[0][1];
+      expect(loggingArgs.loggingConfiguration.logDestinationConfigs).toEqual([
+        {
+          logType: 'ALERT',
+          logDestinationType: 'S3',
+          logDestination: { bucketName: 'central-logs', prefix: 'network-firewall/edge' },
+        },
+      ]);
+    });
+
+    it('should validate the firewall configuration', () => {
+      expect(validateNetworkFirewallConfig({}, firewallTiers, false).isValid).toBe(true);
+
+      const result = validateNetworkFirewallConfig(
+        {
+          allowedDomains: ['example.com', 'not a domain', 'example.com'],
+          suricataRules: 'pass ip any any -> any any (sid:1;)\npass ip any any -> any any (sid:2;)',
+          suricataRuleCapacity: 1,
+          logging: { destination: 's3' },
+        },
+        [{ name: 'public', routing: 'igw' }],
+        true
+      );
+      expect(result.errors).toEqual([
+        "Firewall subnet tier 'firewall' does not exist",
+        'Network Firewall inspection does not support IPv6 VPCs',
+        "Invalid allowed domain 'not a domain'",
+        "Duplicate allowed domain 'example.com'",
+        '2 Suricata rules exceed the rule group capacity of 1',
+        's3BucketName is required when firewall logs are delivered to S3',
+      ]);
+
+      expect(
+        () =>
+          new VpcComponent('edge', {
+            name: 'edge',
+            firewall: {},
+          })
+      ).toThrow("Invalid Network Firewall configuration: Firewall subnet tier 'firewall'");
+    });
+  });
+
+  describe('Existing VPC Lookup', () => {
+    const subnet = (id: string, tier: string, availabilityZone: string) => ({
+      id,
+      availabilityZone,
+      tags: { Type: tier, Name: id },
+    });
+    const routeTable = (
+      routeTableId: string,
+      subnetIds: string[],
+      defaultRoute?: {
+        gatewayId?: string;
+        natGatewayId?: string;
+        networkInterfaceId?: string;
+        transitGatewayId?: string;
+        vpcEndpointId?: string;
+      },
+      main = false
+    ) => ({
+      routeTableId,
+      associations: [
+        ...subnetIds.map(subnetId => ({ subnetId, main: false })),
+        ...(main ? [{ subnetId: '', main: true }] : []),
+      ],
+      routes: defaultRoute
+        ? [
+            {
+              cidrBlock: '0.0.0.0/0',
+              gatewayId: '',
+              instanceId: '',
+              natGatewayId: '',
+              networkInterfaceId: '',
+              transitGatewayId: '',
+              vpcEndpointId: '',
+              ...defaultRoute,
+            },
+          ]
+        : [],
+    });
+
+    const mockLandingZone = (
+      subnets: ReturnType<typeof subnet>[],
+      routeTables = [
+        routeTable('rtb-public', ['subnet-pub-b', 'subnet-pub-a'], { gatewayId: 'igw-123' }),
+        routeTable('rtb-app', ['subnet-app-a', 'subnet-app-b'], { natGatewayId: 'nat-123' }),
+        // Data subnets have no explicit association and fall back to the main table
+        routeTable('rtb-main', [], undefined, true),
+      ]
+    ) => {
+      (aws.ec2.getVpc as unknown as jest.Mock).mockResolvedValue({
+        id: 'vpc-lz',
+        cidrBlock: '10.50.0.0/16',
+        ipv6CidrBlock: '',
+      });
+      (aws.ec2.getSubnets as unknown as jest.Mock).mockResolvedValue({
+        ids: subnets.map(s => s.id),
+      });
+      (aws.ec2.getSubnet as unknown as jest.Mock).mockImplementation(({ id }) =>
+        Promise.resolve(subnets.find(s => s.id === id))
+      );
+      (aws.ec2.getRouteTables as unknown as jest.Mock).mockResolvedValue({
+        ids: routeTables.map(rt => rt.routeTableId),
+      });
+      (aws.ec2.getRouteTable as unknown as jest.Mock).mockImplementation(({ routeTableId }) =>
+        Promise.resolve(routeTables.find(rt => rt.routeTableId === routeTableId))
+      );
+      (aws.ec2.getNatGateways as unknown as jest.Mock).mockResolvedValue({ ids: [] });
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should group tagged subnets into tiers and classify their routing', async () => {
+      mockLandingZone([
+        subnet('subnet-pub-b', 'public', 'us-east-1b'),
+        subnet('subnet-pub-a', 'public', 'us-east-1a'),
+        subnet('subnet-app-a', 'app', 'us-east-1a'),
+        subnet('subnet-app-b', 'app', 'us-east-1b'),
+        subnet('subnet-data-a', 'data', 'us-east-1a'),
+      ]);
+
+      const network = await VpcComponent.fromExisting('vpc-lz');
+
+      expect(network.cidrBlock).toBe('10.50.0.0/16');
+      expect(network.vpc).toEqual({ id: 'vpc-lz' });
+      expect(Object.keys(network.subnetsByTier).sort()).toEqual(['app', 'data', 'public']);
+      // Subnets are ordered by availability zone
+      expect(network.subnetsByTier['public']).toEqual([
+        { id: 'subnet-pub-a' },
+        { id: 'subnet-pub-b' },
+      ]);
+      expect(network.publicSubnets.map(s => s.id)).toEqual(['subnet-pub-a', 'subnet-pub-b']);
+      expect(network.privateSubnets.map(s => s.id)).toEqual(['subnet-app-a', 'subnet-app-b']);
+      expect(network.isolatedSubnets.map(s => s.id)).toEqual(['subnet-data-a']);
+
+      expect(network.internetGateway).toEqual({ id: 'igw-123' });
+      expect(network.natGateways).toBeUndefined();
+      expect(network.ipv6CidrBlock).toBeUndefined();
+      expect(network.routeTables.public).toEqual({ id: 'rtb-public' });
+      expect(network.routeTables.byTier['data']).toEqual([{ id: 'rtb-main' }]);
+      expect(network.routeTables.private).toHaveLength(1);
+
+      // Resources are read, never created
+      expect((aws.ec2.Subnet as unknown as jest.Mock).mock.calls).toHaveLength(0);
+      expect((aws.ec2.Subnet.get as unknown as jest.Mock).mock.calls[0][0]).toBe('vpc-lz-app-0');
+      expect(network.flowLog).toBeUndefined();
+      expect(network.vpcEndpoints).toEqual({});
+    });
+
+    it('should only count NAT Gateways and NAT instances as private routing', async () => {
+      mockLandingZone(
+        [
+          subnet('subnet-nat', 'nat-gateway', 'us-east-1a'),
+          subnet('subnet-instance', 'nat-instance', 'us-east-1a'),
+          subnet('subnet-appliance', 'appliance', 'us-east-1a'),
+          subnet('subnet-tgw', 'transit', 'us-east-1a'),
+          subnet('subnet-fw', 'inspected', 'us-east-1a'),
+        ],
+        [
+          routeTable('rtb-nat', ['subnet-nat'], { natGatewayId: 'nat-123' }),
+          routeTable('rtb-instance', ['subnet-instance'], { networkInterfaceId: 'eni-nat' }),
+          routeTable('rtb-appliance', ['subnet-appliance'], { networkInterfaceId: 'eni-app' }),
+          routeTable('rtb-tgw', ['subnet-tgw'], { transitGatewayId: 'tgw-123' }),
+          routeTable('rtb-fw', ['subnet-fw'], { vpcEndpointId: 'vpce-firewall' }),
+        ]
+      );
+      (aws.ec2.getNetworkInterface as unknown as jest.Mock).mockImplementation(({ id }) =>
+        Promise.resolve({ attachments: [{ instanceId: id === 'eni-nat' ? 'i-nat' : 'i-app' }] })
+      );
+      // Only the NAT instance forwards traffic
+      (aws.ec2.getInstance as unknown as jest.Mock).mockImplementation(({ instanceId }) =>
+        Promise.resolve({ sourceDestCheck: instanceId !== 'i-nat' })
+      );
+
+      const network = await VpcComponent.fromExisting('vpc-lz');
+
+      expect(network.privateSubnets.map(s => s.id)).toEqual(['subnet-nat', 'subnet-instance']);
+      expect(network.isolatedSubnets.map(s => s.id)).toEqual([
+        'subnet-appliance',
+        'subnet-fw',
+        'subnet-tgw',
+      ]);
+      expect(network.routeTables.isolated).toEqual([
+        { id: 'rtb-appliance' },
+        { id: 'rtb-fw' },
+        { id: 'rtb-tgw' },
+      ]);
+      expect(network.publicSubnets).toEqual([]);
+    });
+
+    it('should filter subnets on a custom tier tag and use the given provider', async () => {
+      mockLandingZone([subnet('subnet-app-a', 'app', 'us-east-1a')]);
+      const provider = { name: 'landing-zone' } as any;
+
+      const network = await VpcComponent.fromExisting('vpc-lz', {
+        name: 'lz',
+        tierTagKey: 'Type',
+        provider,
+      });
+
+      expect(network.routeTables.public).toBeUndefined();
+      const [args, opts] = (aws.ec2.getSubnets as unknown as jest.Mock).mock.calls[0];
+      expect(args.filters).toContainEqual({ name: 'tag-key', values: ['Type'] });
+      expect(opts.provider).toBe(provider);
+      expect((aws.ec2.Vpc.get as unknown as jest.Mock).mock.calls[0]).toEqual([
+        'lz-vpc',
+        'vpc-lz',
+        undefined,
+        { provider },
+      ]);
+    });
+
+    it('should reject VPCs without tagged subnets', async () => {
+      mockLandingZone([]);
+
+      await expect(VpcComponent.fromExisting('vpc-lz')).rejects.toThrow(
+        "VPC vpc-lz has no subnets tagged with 'Type'"
+      );
+    });
+
+    it('should be usable wherever a created VPC is', async () => {
+      mockLandingZone([subnet('subnet-app-a', 'app', 'us-east-1a')]);
+      const landingZone = await VpcComponent.fromExisting('vpc-lz');
+      const spoke = new VpcComponent('spoke', { name: 'spoke', cidrBlock: '10.60.0.0/16' });
+
+      const peering = new VpcPeeringComponent('lz-link', {
+        name: 'lz-link',
+        requester: { vpc: spoke, routeTiers: ['private'] },
+        accepter: { vpc: landingZone, routeTiers: ['app'] },
+      });
+
+      expect(peering.accepterRoutes).toHaveLength(1);
+      const routeCalls = (aws.ec2.Route as unknown as jest.Mock).mock.calls;
+      expect(routeCalls[routeCalls.length - 1][1]).toMatchObject({
+        routeTableId: 'rtb-app',
+        destinationCidrBlock: '10.60.0.0/16',
+      });
+    });
+  });
+
+  describe('VPC Peering', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    const peeringRoutes = () =>
+      (aws.ec2.Route as unknown as jest.Mock).mock.calls.filter(([name]) =>
+        name.startsWith('link-')
+      );
+
+    it('should request, accept and route a peering between two VPCs', () => {
+      const primary = new VpcComponent('primary', { name: 'primary', cidrBlock: '10.0.0.0/16' });
+      const secondary = new VpcComponent('secondary', {
+        name: 'secondary',
+        cidrBlock: '10.1.0.0/16',
+      });
+
+      const peering = new VpcPeeringComponent('link', {
+        name: 'link',
+        requester: { vpc: primary },
+        accepter: { vpc: secondary },
+      });
+
+      expect(peering.peeringConnectionId).toBe('pcx-123');
+
+      const connectionArgs = (aws.ec2.VpcPeeringConnection as unknown as jest.Mock).mock
+        .calls[0][1];
+      expect(connectionArgs.peerOwnerId.apply((id: string) => id)).toBe('123456789012');
+      expect(connectionArgs.tags.Side).toBe('requester');
+
+      const accepterArgs = (aws.ec2.VpcPeeringConnectionAccepter as unknown as jest.Mock).mock
+        .calls[0][1];
+      expect(accepterArgs).toMatchObject({ vpcPeeringConnectionId: 'pcx-123', autoAccept: true });
+
+      const optionCalls = (aws.ec2.PeeringConnectionOptions as unknown as jest.Mock).mock.calls;
+      expect(optionCalls.map(([, args]) => args.requester ?? args.accepter)).toEqual([
+        { allowRemoteVpcDnsResolution: true },
+        { allowRemoteVpcDnsResolution: true },
+      ]);
+      expect(optionCalls[0][2].dependsOn).toEqual([peering.peeringConnectionAccepter]);
+
+      // Public route table plus one private route table per AZ on each side
+      expect(peering.requesterRoutes).toHaveLength(3);
+      expect(peering.accepterRoutes).toHaveLength(3);
+      const routes = peeringRoutes();
+      expect(routes[0][0]).toBe('link-requester-public-route-0');
+      expect(routes[0][1]).toMatchObject({
+        destinationCidrBlock: '10.1.0.0/16',
+        vpcPeeringConnectionId: 'pcx-123',
+      });
+      expect(routes[3][0]).toBe('link-accepter-public-route-0');
+      expect(routes[3][1].destinationCidrBlock).toBe('10.0.0.0/16');
+    });
+
+    it('should let connections from the peer into the routed private tiers', () => {
+      const primary = new VpcComponent('primary', {
+        name: 'primary',
+        cidrBlock: '10.0.0.0/16',
+        connectedCidrBlocks: ['10.1.0.0/16'],
+      });
+      const secondary = new VpcComponent('secondary', {
+        name: 'secondary',
+        cidrBlock: '10.1.0.0/16',
+        connectedCidrBlocks: ['10.0.0.0/16'],
+      });
+
+      new VpcPeeringComponent('link', {
+        name: 'link',
+        requester: { vpc: primary, routeTiers: ['private'] },
+        accepter: { vpc: secondary, routeTiers: ['private'] },
+      });
+
+      // Each private route to the peer is matched by a network ACL rule admitting the peer
+      const aclRules = (aclName: string) =>
+        (aws.ec2.NetworkAcl as unknown as jest.Mock).mock.calls.find(
+          ([name]) => name === aclName
+        )[1];
+      for (const [side, aclName] of [
+        ['requester', 'primary-private-nacl'],
+        ['accepter', 'secondary-private-nacl'],
+      ] as const) {
+        const routes = peeringRoutes().filter(([name]) => name.startsWith(`link-${side}-`));
+        expect(routes).toHaveLength(2);
+        for (const [, route] of routes) {
+          expect(aclRules(aclName).ingress).toContainEqual({
+            ruleNo: 300,
+            action: 'allow',
+            cidrBlock: route.destinationCidrBlock,
+            protocol: '-1',
+            fromPort: 0,
+            toPort: 0,
+          });
+        }
+      }
+
+      expect(
+        () =>
+          new VpcComponent('bad', {
+            name: 'bad',
+            cidrBlock: '10.0.0.0/16',
+            connectedCidrBlocks: ['10.0.128.0/17'],
+          })
+      ).toThrow('Connected CIDR block 10.0.128.0/17 overlaps the VPC CIDR 10.0.0.0/16');
+    });
+
+    it('should manage each side through its own provider', () => {
+      const westProvider = { name: 'us-west-2' } as any;
+      const primary = new VpcComponent('primary', { name: 'primary', cidrBlock: '10.0.0.0/16' });
+      const secondary = new VpcComponent('secondary', {
+        name: 'secondary',
+        cidrBlock: '10.1.0.0/16',
+      });
+
+      new VpcPeeringComponent('link', {
+        name: 'link',
+        requester: { vpc: primary, routeTiers: ['private'] },
+        accepter: { vpc: secondary, routeTiers: ['private'], provider: westProvider },
+        allowRemoteVpcDnsResolution: false,
+      });
+
+      const connectionOpts = (aws.ec2.VpcPeeringConnection as unknown as jest.Mock).mock
+        .calls[0][2];
+      expect(connectionOpts.provider).toBeUndefined();
+      const accepterOpts = (aws.ec2.VpcPeeringConnectionAccepter as unknown as jest.Mock).mock
+        .calls[0][2];
+      expect(accepterOpts.provider).toBe(westProvider);
+      expect(aws.ec2.PeeringConnectionOptions).not.toHaveBeenCalled();
+
+      const routes = peeringRoutes();
+      expect(routes.map(([name]) => name)).toEqual([
+        'link-requester-private-route-0',
+        'link-requester-private-route-1',
+        'link-accepter-private-route-0',
+        'link-accepter-private-route-1',
+      ]);
+      expect(routes[2][2].provider).toBe(westProvider);
+    });
+
+    it('should leave isolated tiers out of the default peering routes', () => {
+      const tiers = {
+        subnetTiers: [
+          { name: 'public', routing: 'igw' as const },
+          { name: 'private', routing: 'nat' as const },
+          { name: 'data', routing: 'none' as const },
+        ],
+      };
+      const primary = new VpcComponent('primary', {
+        name: 'primary',
+        cidrBlock: '10.0.0.0/16',
+        ...tiers,
+      });
+      const secondary = new VpcComponent('secondary', {
+        name: 'secondary',
+        cidrBlock: '10.1.0.0/16',
+        ...tiers,
+      });
+
+      new VpcPeeringComponent('link', {
+        name: 'link',
+        requester: { vpc: primary },
+        accepter: { vpc: secondary, routeTiers: ['data'] },
+      });
+
+      expect(peeringRoutes().map(([name]) => name)).toEqual([
+        'link-requester-public-route-0',
+        'link-requester-private-route-0',
+        'link-requester-private-route-1',
+        'link-accepter-data-route-0',
+      ]);
+    });
+
+    it('should route IPv6 only when both VPCs are dual-stack', () => {
+      const primary = new VpcComponent('primary', {
+        name: 'primary',
+        cidrBlock: '10.0.0.0/16',
+        enableIpv6: true,
+      });
+      const secondary = new VpcComponent('secondary', {
+        name: 'secondary',
+        cidrBlock: '10.1.0.0/16',
+        enableIpv6: true,
+      });
+      const legacy = new VpcComponent('legacy', { name: 'legacy', cidrBlock: '10.2.0.0/16' });
+
+      const dualStack = new VpcPeeringComponent('link', {
+        name: 'link',
+        requester: { vpc: primary, routeTiers: ['public'] },
+        accepter: { vpc: secondary, routeTiers: ['public'] },
+      });
+      expect(dualStack.requesterRoutes).toHaveLength(2);
+      expect(
+        peeringRoutes().find(([name]) => name === 'link-requester-public-route-ipv6-0')![1]
+          .destinationIpv6CidrBlock
+      ).toBe(secondary.ipv6CidrBlock);
+
+      const mixed = new VpcPeeringComponent('mixed', {
+        name: 'mixed',
+        requester: { vpc: primary, routeTiers: ['public'] },
+        accepter: { vpc: legacy, routeTiers: ['public'] },
+      });
+      expect(mixed.requesterRoutes).toHaveLength(1);
+      expect(mixed.accepterRoutes).toHaveLength(1);
+    });
+
+    it('should reject overlapping CIDRs and unknown route tiers', () => {
+      const primary = new VpcComponent('primary', { name: 'primary', cidrBlock: '10.0.0.0/16' });
+      const overlapping = new VpcComponent('overlap', {
+        name: 'overlap',
+        cidrBlock: '10.0.128.0/17',
+      });
+
+      expect(
+        () =>
+          new VpcPeeringComponent('bad', {
+            name: 'bad',
+            requester: { vpc: primary },
+            accepter: { vpc: overlapping },
+          })
+      ).toThrow('Requester CIDR 10.0.0.0/16 overlaps accepter CIDR 10.0.128.0/17');
+      expect(
+        () =>
+          new VpcPeeringComponent('bad', {
+            name: 'bad',
+            requester: { vpc: primary },
+            accepter: { vpc: primary },
+          })
+      ).toThrow('A VPC cannot be peered with itself');
+      expect(aws.ec2.VpcPeeringConnection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Operator Access', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    const clientVpn = {
+      clientCidrBlock: '172.16.0.0/22',
+      serverCertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/server',
+      authentication: 'mutual-tls',
+      clientRootCertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/client-ca',
+    } as const;
+
+    it('should associate a mutual TLS Client VPN endpoint with the private subnets', () => {
+      const network = new VpcComponent('net', { name: 'net' });
+      const access = new VpcAccessComponent('ops', {
+        name: 'ops',
+        vpc: network,
+        clientVpn: { ...clientVpn, authorizedCidrBlocks: ['10.0.0.0/16', '10.50.0.0/16'] },
+      });
+
+      expect(access.clientVpnEndpoint).toBeDefined();
+      const endpointArgs = (aws.ec2clientvpn.Endpoint as unknown as jest.Mock).mock.calls[0][1];
+      expect(endpointArgs.authenticationOptions).toEqual([
+        {
+          type: 'certificate-authentication',
+          rootCertificateChainArn: clientVpn.clientRootCertificateArn,
+        },
+      ]);
+      expect(endpointArgs).toMatchObject({
+        clientCidrBlock: '172.16.0.0/22',
+        splitTunnel: true,
+        sessionTimeoutHours: 8,
+        disconnectOnSessionTimeout: true,
+        selfServicePortal: 'disabled',
+      });
+      expect(endpointArgs.connectionLogOptions.enabled).toBe(true);
+      expect(aws.cloudwatch.LogGroup).toHaveBeenCalledWith(
+        'ops-client-vpn-logs',
+        expect.objectContaining({ name: '/aws/client-vpn/ops', retentionInDays: 365 }),
+        expect.anything()
+      );
+
+      expect(aws.ec2clientvpn.NetworkAssociation).toHaveBeenCalledTimes(2);
+      const ruleCalls = (aws.ec2clientvpn.AuthorizationRule as unknown as jest.Mock).mock.calls;
+      expect(ruleCalls.map(([, args]) => args.targetNetworkCidr)).toEqual([
+        '10.0.0.0/16',
+        '10.50.0.0/16',
+      ]);
+      expect(ruleCalls[0][1].authorizeAllGroups).toBe(true);
+
+      // Only networks outside the VPC need explicit routes, one per associated subnet
+      const routeCalls = (aws.ec2clientvpn.Route as unknown as jest.Mock).mock.calls;
+      expect(routeCalls).toHaveLength(2);
+      expect(routeCalls[0][1].destinationCidrBlock).toBe('10.50.0.0/16');
+    });
+
+    it('should authorize a SAML group with the self-service portal', () => {
+      const network = new VpcComponent('net', { name: 'net' });
+      new VpcAccessComponent('ops', {
+        name: 'ops',
+        vpc: network,
+        clientVpn: {
+          clientCidrBlock: '172.16.0.0/22',
+          serverCertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/server',
+          authentication: 'saml',
+          samlProviderArn: 'arn:aws:iam::123456789012:saml-provider/okta',
+          selfServiceSamlProviderArn: 'arn:aws:iam::123456789012:saml-provider/okta-portal',
+          accessGroupId: 'network-admins',
+          connectionLogging: { enabled: false },
+        },
+      });
+
+      const endpointArgs = (aws.ec2clientvpn.Endpoint as unknown as jest.Mock).mock.calls[0][1];
+      expect(endpointArgs.authenticationOptions[0]).toMatchObject({
+        type: 'federated-authentication',
+        samlProviderArn: 'arn:aws:iam::123456789012:saml-provider/okta',
+      });
+      expect(endpointArgs.selfServicePortal).toBe('enabled');
+      expect(endpointArgs.connectionLogOptions).toEqual({ enabled: false });
+      expect(aws.kms.Key).not.toHaveBeenCalledWith(
+        'ops-access-logs-key',
+        expect.anything(),
+        expect.anything()
+      );
+
+      const ruleArgs = (aws.ec2clientvpn.AuthorizationRule as unknown as jest.Mock).mock
+        .calls[0][1];
+      expect(ruleArgs.accessGroupId).toBe('network-admins');
+      expect(ruleArgs.authorizeAllGroups).toBeUndefined();
+    });
+
+    it('should set up Session Manager with endpoints, an instance role and session logging', () => {
+      const network = new VpcComponent('net', { name: 'net' });
+      const access = new VpcAccessComponent('ops', {
+        name: 'ops',
+        vpc: network,
+        sessionManager: { logging: { s3BucketName: 'session-logs' } },
+      });
+
+      expect(Object.keys(access.sessionManagerEndpoints)).toEqual([
+        'ssm',
+        'ssmmessages',
+        'ec2messages',
+        'logs',
+      ]);
+      const endpointArgs = (aws.ec2.VpcEndpoint as unknown as jest.Mock).mock.calls.find(
+        ([name]) => name === 'ops-ssm-endpoint'
+      )[1];
+      expect(endpointArgs).toMatchObject({
+        serviceName: 'com.amazonaws.us-east-1.ssm',
+        vpcEndpointType: 'Interface',
+        privateDnsEnabled: true,
+      });
+      expect(endpointArgs.subnetIds).toHaveLength(2);
+
+      expect(access.instanceRole).toBeDefined();
+      expect(access.instanceProfile).toBeDefined();
+      expect(aws.iam.RolePolicyAttachment).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          policyArn: 'arn:aws:iam::aws:policy/AmazonSSMManagedInstanceCore',
+        }),
+        expect.anything()
+      );
+      const loggingPolicy = JSON.parse(
+        (aws.iam.RolePolicy as unknown as jest.Mock).mock.calls.find(
+          ([, args]) => args.name === 'SessionLogging'
+        )[1].policy
+      );
+      expect(loggingPolicy.Statement.map((statement: any) => statement.Sid)).toEqual([
+        'WriteSessionLogs',
+        'CheckLogGroupEncryption',
+        'WriteSessionTranscripts',
+        'CheckBucketEncryption',
+      ]);
+
+      const [, documentArgs] = (aws.ssm.Document as unknown as jest.Mock).mock.calls[0];
+      expect(documentArgs).toMatchObject({
+        name: 'ops-session-preferences',
+        documentType: 'Session',
+      });
+      const preferences = JSON.parse(documentArgs.content);
+      expect(preferences.inputs).toMatchObject({
+        s3BucketName: 'session-logs',
+        s3KeyPrefix: 'session-manager/ops',
+        s3EncryptionEnabled: true,
+        cloudWatchEncryptionEnabled: true,
+        idleSessionTimeout: '20',
+      });
+    });
+
+    it('should not duplicate interface endpoints the VPC already has', () => {
+      const network = new VpcComponent('net', {
+        name: 'net',
+        vpcEndpoints: { interfaceEndpoints: ['ssm', 'logs'] },
+      });
+      const access = new VpcAccessComponent('ops', {
+        name: 'ops',
+        vpc: network,
+        sessionManager: {},
+      });
+
+      expect(Object.keys(access.sessionManagerEndpoints)).toEqual(['ssmmessages', 'ec2messages']);
+    });
+
+    it('should only take over the account-wide preferences document on request', () => {
+      const network = new VpcComponent('net', { name: 'net' });
+      new VpcAccessComponent('named', {
+        name: 'named',
+        vpc: network,
+        sessionManager: { preferencesDocumentName: 'ops-sessions' },
+      });
+      new VpcAccessComponent('account', {
+        name: 'account',
+        vpc: network,
+        sessionManager: { manageAccountPreferences: true },
+      });
+
+      const documentNames = (aws.ssm.Document as unknown as jest.Mock).mock.calls.map(
+        ([, args]) => args.name
+      );
+      expect(documentNames).toEqual(['ops-sessions', 'SSM-SessionManagerRunShell']);
+      const documentOpts = (aws.ssm.Document as unknown as jest.Mock).mock.calls.map(
+        ([, , opts]) => opts.retainOnDelete
+      );
+      expect(documentOpts).toEqual([undefined, true]);
+      expect(
+        validateVpcAccess({
+          name: 'ops',
+          vpc: network,
+          sessionManager: {
+            preferencesDocumentName: 'ops-sessions',
+            manageAccountPreferences: true,
+          },
+        }).errors
+      ).toEqual(['preferencesDocumentName cannot be set with manageAccountPreferences']);
+    });
+
+    it('should scope the session logging policy to the configured destinations', () => {
+      const policy = createSessionLoggingPolicy({
+        s3BucketName: 'session-logs',
+        s3KeyPrefix: 'ops',
+        sessionKmsKeyArn: 'arn:aws:kms:us-east-1:123456789012:key/session',
+      });
+
+      expect(policy.statements).toEqual([
+        expect.objectContaining({
+          actions: 's3:PutObject',
+          resources: ['arn:aws:s3:::session-logs/ops/*'],
+        }),
+        expect.objectContaining({ actions: 's3:GetEncryptionConfiguration' }),
+        expect.objectContaining({
+          actions: 'kms:Decrypt',
+          resources: ['arn:aws:kms:us-east-1:123456789012:key/session'],
+        }),
+      ]);
+    });
+
+    it('should validate the access configuration', () => {
+      const network = new VpcComponent('net', { name: 'net', cidrBlock: '10.0.0.0/16' });
+
+      expect(validateVpcAccess({ name: 'ops', vpc: network }).errors).toEqual([
+        'Configure clientVpn, sessionManager or both',
+      ]);
+
+      const result = validateVpcAccess({
+        name: 'ops',
+        vpc: network,
+        clientVpn: {
+          clientCidrBlock: '10.0.0.0/22',
+          serverCertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/server',
+          authentication: 'saml',
+          clientRootCertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/client-ca',
+          subnetTier: 'missing',
+          sessionTimeoutHours: 9,
+        },
+        sessionManager: {
+          idleSessionTimeoutMinutes: 90,
+          logging: { cloudWatch: { enabled: false } },
+        },
+      });
+      expect(result.errors).toEqual([
+        "Client VPN subnet tier 'missing' does not exist",
+        'Client CIDR block 10.0.0.0/22 overlaps the VPC CIDR 10.0.0.0/16',
+        'samlProviderArn is required for SAML authentication',
+        'clientRootCertificateArn only applies to mutual TLS authentication',
+        'Client VPN session timeout must be 8, 10, 12 or 24 hours',
+        'Idle session timeout must be between 1 and 60 minutes, got 90',
+        'Session logging needs CloudWatch Logs, an S3 bucket or both',
+      ]);
+
+      expect(
+        () =>
+          new VpcAccessComponent('ops', {
+            name: 'ops',
+            vpc: network,
+            clientVpn: { ...clientVpn, clientCidrBlock: '172.16.0.0/24' },
+          })
+      ).toThrow('Invalid VPC access configuration: Client CIDR block 172.16.0.0/24');
+    });
+  });
+
   describe('Security Configuration', () => {
     it('should enable DNS features by default', () => {
       expect(VPC_DEFAULTS.enableDnsHostnames).toBe(true);
@@ -0,0 +1,477 @@
+/**
+ * VPC Access Component Implementation
+ * Operator access to private subnets through Client VPN or Session Manager, without SSH
+ */
+
+import * as aws from '@pulumi/aws';
+import * as pulumi from '@pulumi/pulumi';
+import {
+  AccessLogConfig,
+  ClientVpnConfig,
+  SessionManagerConfig,
+  VpcAccessArgs,
+  VpcAccessOutputs,
+} from './types';
+import {
+  DEFAULT_TAGS,
+  VPC_ACCESS_DEFAULTS,
+  createLogGroupKeyPolicy,
+  createSessionLoggingPolicy,
+  validateVpcAccess,
+} from './defaults';
+import { IamComponent } from '../iam/iam';
+import { MANAGED_POLICIES } from '../iam/types';
+import { SERVICE_ROLE_TRUST_POLICIES, policyDocumentToJson } from '../iam/defaults';
+
+/**
+ * VPC Access Component - Bastion-less operator access to a VPC
+ *
+ * Features:
+ * - AWS Client VPN endpoint with mutual TLS or SAML authentication
+ * - Authorization rules and routes limited to the networks operators need
+ * - Session Manager interface endpoints, reusing any the VPC already has
+ * - Instance role and profile for managed instances, built with the IAM module
+ * - Session and connection logs, KMS-encrypted in CloudWatch Logs and/or S3
+ */
+export class VpcAccessComponent extends pulumi.ComponentResource implements VpcAccessOutputs {
+  public readonly clientVpnEndpoint: aws.ec2clientvpn.Endpoint | undefined;
+  public readonly clientVpnSecurityGroup: aws.ec2.SecurityGroup | undefined;
+  public readonly clientVpnLogGroup: aws.cloudwatch.LogGroup | undefined;
+  public readonly sessionManagerEndpoints: Readonly<Record<string, aws.ec2.VpcEndpoint>>;
+  public readonly instanceRole: aws.iam.Role | undefined;
+  public readonly instanceProfile: aws.iam.InstanceProfile | undefined;
+  public readonly sessionLogGroup: aws.cloudwatch.LogGroup | undefined;
+  public readonly sessionPreferences: aws.ssm.Document | undefined;
+  public readonly logKey: aws.kms.Key | undefined;
+
+  /** Component name for resource naming */
+  private readonly componentName: string;
+
+  /** Default tags for all resources */
+  private readonly defaultTags: Record<string, pulumi.Input<string>>;
+
+  /** Account and region the component is deployed to */
+  private readonly accountId: pulumi.Output<string>;
+  private readonly region: pulumi.Output<string>;
+
+  constructor(name: string, args: VpcAccessArgs, opts?: pulumi.ComponentResourceOptions) {
+    super('modinfra:vpc:VpcAccessComponent', name, {}, opts);
+
+    // Validate authentication, subnet tiers and logging
+    const validation = validateVpcAccess(args);
+    if (!validation.isValid) {
+      throw new Error(`Invalid VPC access configuration: ${validation.errors.join(', ')}`);
+    }
+
+    this.componentName = name;
+    this.defaultTags = { ...DEFAULT_TAGS, ...args.tags };
+    this.accountId = aws.getCallerIdentityOutput({}, { parent: this }).accountId;
+    this.region = aws.getRegionOutput({}, { parent: this }).name;
+
+    // One key covers every access log group that has no key supplied
+    const logConfigs = [
+      args.clientVpn && (args.clientVpn.connectionLogging ?? {}),
+      args.sessionManager && (args.sessionManager.logging?.cloudWatch ?? {}),
+    ].filter((config): config is AccessLogConfig => config !== undefined);
+    this.logKey = logConfigs.some(
+      config => (config.enabled ?? VPC_ACCESS_DEFAULTS.logging) && !config.kmsKeyId
+    )
+      ? this.createLogKey()
+      : undefined;
+
+    const clientVpn = args.clientVpn ? this.createClientVpn(args, args.clientVpn) : undefined;
+    this.clientVpnEndpoint = clientVpn?.endpoint;
+    this.clientVpnSecurityGroup = clientVpn?.securityGroup;
+    this.clientVpnLogGroup = clientVpn?.logGroup;
+
+    const sessionManager = args.sessionManager
+      ? this.createSessionManager(args, args.sessionManager)
+      : undefined;
+    this.sessionManagerEndpoints = sessionManager?.endpoints ?? {};
+    this.instanceRole = sessionManager?.role;
+    this.instanceProfile = sessionManager?.instanceProfile;
+    this.sessionLogGroup = sessionManager?.logGroup;
+    this.sessionPreferences = sessionManager?.preferences;
+
+    // Register outputs
+    this.registerOutputs({
+      clientVpnEndpoint: this.clientVpnEndpoint,
+      clientVpnSecurityGroup: this.clientVpnSecurityGroup,
+      sessionManagerEndpoints: this.sessionManagerEndpoints,
+      instanceRole: this.instanceRole,
+      instanceProfile: this.instanceProfile,
+    });
+  }
+
+  /**
+   * Create a rotated KMS key CloudWatch Logs may use for the access log groups
+   */
+  private createLogKey(): aws.kms.Key {
+    const name = this.componentName;
+    return new aws.kms.Key(
+      `${name}-access-logs-key`,
+      {
+        description: `Encrypts operator access logs for ${name}`,
+        enableKeyRotation: true,
+        deletionWindowInDays: 30,
+        policy: pulumi
+          .all([this.accountId, this.region])
+          .apply(([account, regionName]) =>
+            policyDocumentToJson(createLogGroupKeyPolicy(account, regionName))
+          ),
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-access-logs-key`,
+        },
+      },
+      { parent: this }
+    );
+  }
+
+  /**
+   * Create an encrypted log group, or nothing when logging is disabled
+   */
+  private createLogGroup(
+    resourceName: string,
+    logGroupName: string,
+    config: AccessLogConfig
+  ): aws.cloudwatch.LogGroup | undefined {
+    if (!(config.enabled ?? VPC_ACCESS_DEFAULTS.logging)) {
+      return undefined;
+    }
+
+    return new aws.cloudwatch.LogGroup(
+      resourceName,
+      {
+        name: logGroupName,
+        retentionInDays: config.retentionInDays ?? VPC_ACCESS_DEFAULTS.retentionInDays,
+        kmsKeyId: config.kmsKeyId ?? this.logKey!.arn,
+        tags: {
+          ...this.defaultTags,
+          Name: resourceName,
+        },
+      },
+      { parent: this }
+    );
+  }
+
+  /**
+   * Subnets in the configured tier, or the private subnets (isolated without private ones)
+   */
+  private subnetsFor(args: VpcAccessArgs, subnetTier: string | undefined): aws.ec2.Subnet[] {
+    const { vpc } = args;
+    if (subnetTier !== undefined) {
+      return [...vpc.subnetsByTier[subnetTier]!];
+    }
+    return [...(vpc.privateSubnets.length > 0 ? vpc.privateSubnets : vpc.isolatedSubnets)];
+  }
+
+  /**
+   * Create a Client VPN endpoint associated with one subnet per AZ
+   */
+  private createClientVpn(
+    args: VpcAccessArgs,
+    config: ClientVpnConfig
+  ): {
+    endpoint: aws.ec2clientvpn.Endpoint;
+    securityGroup: aws.ec2.SecurityGroup;
+    logGroup: aws.cloudwatch.LogGroup | undefined;
+  } {
+    const name = this.componentName;
+    const { vpc } = args;
+    const authorizedCidrBlocks = config.authorizedCidrBlocks ?? [vpc.cidrBlock];
+
+    // VPN traffic enters the VPC from this group; it only reaches the authorized networks
+    const securityGroup = new aws.ec2.SecurityGroup(
+      `${name}-client-vpn-sg`,
+      {
+        vpcId: vpc.vpcId,
+        description: `Client VPN network interfaces for ${name}`,
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-client-vpn-sg`,
+        },
+      },
+      { parent: this }
+    );
+
+    authorizedCidrBlocks.forEach((cidr, i) => {
+      new aws.vpc.SecurityGroupEgressRule(
+        `${name}-client-vpn-egress-${i}`,
+        {
+          securityGroupId: securityGroup.id,
+          description: 'VPN clients to authorized networks',
+          ipProtocol: '-1',
+          cidrIpv4: cidr,
+          tags: this.defaultTags,
+        },
+        { parent: this }
+      );
+    });
+
+    const logGroup = this.createLogGroup(
+      `${name}-client-vpn-logs`,
+      `/aws/client-vpn/${name}`,
+      config.connectionLogging ?? {}
+    );
+
+    const authenticationOption =
+      config.authentication === 'mutual-tls'
+        ? {
+            type: 'certificate-authentication',
+            rootCertificateChainArn: config.clientRootCertificateArn!,
+          }
+        : {
+            type: 'federated-authentication',
+            samlProviderArn: config.samlProviderArn!,
+            ...(config.selfServiceSamlProviderArn && {
+              selfServiceSamlProviderArn: config.selfServiceSamlProviderArn,
+            }),
+          };
+
+    const endpoint = new aws.ec2clientvpn.Endpoint(
+      `${name}-client-vpn`,
+      {
+        description: `Operator access to ${name}`,
+        clientCidrBlock: config.clientCidrBlock,
+        serverCertificateArn: config.serverCertificateArn,
+        authenticationOptions: [authenticationOption],
+        connectionLogOptions: logGroup
+          ? { enabled: true, cloudwatchLogGroup: logGroup.name }
+          : { enabled: false },
+        vpcId: vpc.vpcId,
+        securityGroupIds: [securityGroup.id],
+        splitTunnel: config.splitTunnel ?? VPC_ACCESS_DEFAULTS.splitTunnel,
+        sessionTimeoutHours: config.sessionTimeoutHours ?? VPC_ACCESS_DEFAULTS.sessionTimeoutHours,
+        // Clients re-authenticate when the session ends instead of reconnecting silently
+        disconnectOnSessionTimeout: true,
+        selfServicePortal: config.selfServiceSamlProviderArn ? 'enabled' : 'disabled',
+        ...(config.dnsServers && { dnsServers: [...config.dnsServers] }),
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-client-vpn`,
+        },
+      },
+      { parent: this }
+    );
+
+    // Each association is billed hourly, and one per AZ keeps the endpoint available
+    const subnets = this.subnetsFor(args, config.subnetTier);
+    const associations = subnets.map(
+      (subnet, i) =>
+        new aws.ec2clientvpn.NetworkAssociation(
+          `${name}-client-vpn-association-${i}`,
+          {
+            clientVpnEndpointId: endpoint.id,
+            subnetId: subnet.id,
+          },
+          { parent: this }
+        )
+    );
+
+    authorizedCidrBlocks.forEach((cidr, i) => {
+      new aws.ec2clientvpn.AuthorizationRule(
+        `${name}-client-vpn-authorization-${i}`,
+        {
+          clientVpnEndpointId: endpoint.id,
+          targetNetworkCidr: cidr,
+          description: `Access to ${cidr}`,
+          ...(config.accessGroupId
+            ? { accessGroupId: config.accessGroupId }
+            : { authorizeAllGroups: true }),
+        },
+        { parent: this }
+      );
+
+      // Associations already route the VPC CIDR, other networks are reached through the VPC
+      if (cidr === vpc.cidrBlock) {
+        return;
+      }
+      subnets.forEach((subnet, j) => {
+        new aws.ec2clientvpn.Route(
+          `${name}-client-vpn-route-${i}-${j}`,
+          {
+            clientVpnEndpointId: endpoint.id,
+            destinationCidrBlock: cidr,
+            targetVpcSubnetId: subnet.id,
+            description: `Route to ${cidr}`,
+          },
+          { parent: this, dependsOn: associations }
+        );
+      });
+    });
+
+    return { endpoint, securityGroup, logGroup };
+  }
+
+  /**
+   * Create Session Manager endpoints, the instance role and session logging preferences
+   */
+  private createSessionManager(
+    args: VpcAccessArgs,
+    config: SessionManagerConfig
+  ): {
+    endpoints: Record<string, aws.ec2.VpcEndpoint>;
+    role: aws.iam.Role;
+    instanceProfile: aws.iam.InstanceProfile;
+    logGroup: aws.cloudwatch.LogGroup | undefined;
+    preferences: aws.ssm.Document;
+  } {
+    const name = this.componentName;
+    const { vpc } = args;
+    const logging = config.logging ?? {};
+    const s3KeyPrefix = logging.s3KeyPrefix ?? `session-manager/${name}`;
+
+    const logGroup = this.createLogGroup(
+      `${name}-session-logs`,
+      `/aws/ssm/sessions/${name}`,
+      logging.cloudWatch ?? {}
+    );
+
+    // Private subnets without NAT can only reach Systems Manager through interface endpoints
+    const endpoints: Record<string, aws.ec2.VpcEndpoint> = {};
+    const services = [
+      ...VPC_ACCESS_DEFAULTS.sessionManagerEndpoints,
+      ...(logGroup ? ['logs'] : []),
+      ...(config.sessionKmsKeyId ? ['kms'] : []),
+    ].filter(service => !(service in vpc.vpcEndpoints));
+
+    if ((config.createEndpoints ?? true) && services.length > 0) {
+      const securityGroup = new aws.ec2.SecurityGroup(
+        `${name}-ssm-endpoints-sg`,
+        {
+          vpcId: vpc.vpcId,
+          description: `Session Manager endpoints for ${name}`,
+          tags: {
+            ...this.defaultTags,
+            Name: `${name}-ssm-endpoints-sg`,
+          },
+        },
+        { parent: this }
+      );
+
+      new aws.vpc.SecurityGroupIngressRule(
+        `${name}-ssm-endpoints-https`,
+        {
+          securityGroupId: securityGroup.id,
+          description: 'HTTPS to Session Manager endpoints',
+          ipProtocol: 'tcp',
+          fromPort: 443,
+          toPort: 443,
+          cidrIpv4: vpc.cidrBlock,
+          tags: this.defaultTags,
+        },
+        { parent: this }
+      );
+
+      const subnetIds = this.subnetsFor(args, config.subnetTier).map(subnet => subnet.id);
+      for (const service of services) {
+        endpoints[service] = new aws.ec2.VpcEndpoint(
+          `${name}-${service}-endpoint`,
+          {
+            vpcId: vpc.vpcId,
+            serviceName: pulumi.interpolate`com.amazonaws.${this.region}.${service}`,
+            vpcEndpointType: 'Interface',
+            subnetIds,
+            securityGroupIds: [securityGroup.id],
+            privateDnsEnabled: true,
+            tags: {
+              ...this.defaultTags,
+              Name: `${name}-${service}-endpoint`,
+            },
+          },
+          { parent: this }
+        );
+      }
+    }
+
+    // Managed instances get core Systems Manager access plus write access to the session logs
+    const roleName = `${name}-ssm-instance`;
+    const iam = new IamComponent(
+      `${name}-iam`,
+      {
+        name: `${name}-iam`,
+        roles: [
+          {
+            name: roleName,
+            description: `Session Manager managed instances in ${name}`,
+            trustPolicy: SERVICE_ROLE_TRUST_POLICIES.ec2(),
+            managedPolicyArns: [MANAGED_POLICIES.SSM_MANAGED_INSTANCE],
+            inlinePolicies: [
+              {
+                name: 'SessionLogging',
+                policy: pulumi
+                  .all([logGroup?.arn, logging.s3BucketName, config.sessionKmsKeyId])
+                  .apply(([logGroupArn, s3BucketName, sessionKmsKeyArn]) =>
+                    policyDocumentToJson(
+                      createSessionLoggingPolicy({
+                        ...(logGroupArn && { logGroupArn }),
+                        ...(s3BucketName && { s3BucketName, s3KeyPrefix }),
+                        ...(sessionKmsKeyArn && { sessionKmsKeyArn }),
+                      })
+                    )
+                  ),
+              },
+            ],
+            createInstanceProfile: true,
+          },
+        ],
+        tags: this.defaultTags,
+      },
+      { parent: this }
+    );
+
+    // Session preferences apply to every session started with this document; the account-wide
+    // default document is shared by every stack in the account, so it is only used on request
+    const manageAccountPreferences =
+      config.manageAccountPreferences ?? VPC_ACCESS_DEFAULTS.manageAccountPreferences;
+    const idleTimeout =
+      config.idleSessionTimeoutMinutes ?? VPC_ACCESS_DEFAULTS.idleSessionTimeoutMinutes;
+    const preferences = new aws.ssm.Document(
+      `${name}-session-preferences`,
+      {
+        name: manageAccountPreferences
+          ? VPC_ACCESS_DEFAULTS.accountPreferencesDocumentName
+          : (config.preferencesDocumentName ?? `${name}-session-preferences`),
+        documentType: 'Session',
+        documentFormat: 'JSON',
+        content: pulumi
+          .all([logGroup?.name, logging.s3BucketName, config.sessionKmsKeyId])
+          .apply(([logGroupName, s3BucketName, kmsKeyId]) =>
+            JSON.stringify({
+              schemaVersion: '1.0',
+              description: `Session Manager preferences for ${name}`,
+              sessionType: 'Standard_Stream',
+              inputs: {
+                s3BucketName: s3BucketName ?? '',
+                s3KeyPrefix: s3BucketName ? s3KeyPrefix : '',
+                s3EncryptionEnabled: true,
+                cloudWatchLogGroupName: logGroupName ?? '',
+                cloudWatchEncryptionEnabled: true,
+                cloudWatchStreamingEnabled: true,
+                kmsKeyId: kmsKeyId ?? '',
+                runAsEnabled: false,
+                runAsDefaultUser: '',
+                idleSessionTimeout: String(idleTimeout),
+                shellProfile: { windows: '', linux: '' },
+              },
+            })
+          ),
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-session-preferences`,
+        },
+      },
+      // The account-wide document predates the stack and is imported, so it outlives it too
+      { parent: this, ...(manageAccountPreferences && { retainOnDelete: true }) }
+    );
+
+    return {
+      endpoints,
+      role: iam.roles[roleName]!,
+      instanceProfile: iam.instanceProfiles[roleName]!,
+      logGroup,
+      preferences,
+    };
+  }
+}
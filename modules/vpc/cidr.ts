@@ -0,0 +1,438 @@
+/**
+ * IPv4 and IPv6 CIDR arithmetic and subnet planning for the VPC module
+ */
+
+import {
+  Ipv4Cidr,
+  Ipv6Cidr,
+  Ipv6SubnetPlan,
+  Ipv6SubnetPlanRequest,
+  SubnetPlan,
+  SubnetPlanRequest,
+} from './types';
+
+/**
+ * AWS limits on VPC and subnet prefix lengths, and the addresses AWS reserves in every subnet
+ */
+export const SUBNET_LIMITS = {
+  minPrefixLength: 16,
+  maxPrefixLength: 28,
+  reservedAddressesPerSubnet: 5,
+} as const;
+
+const IPV4_CIDR_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/;
+
+/**
+ * Number of addresses in a block with the given prefix length
+ */
+function blockSize(prefixLength: number): number {
+  return 2 ** (32 - prefixLength);
+}
+
+/**
+ * Parses an IPv4 CIDR block such as "10.0.0.0/16"
+ * Rejects malformed input and blocks with host bits set (e.g. "10.0.1.0/16")
+ */
+export function parseIpv4Cidr(cidr: string): Ipv4Cidr {
+  const match = IPV4_CIDR_PATTERN.exec(cidr.trim());
+  if (!match) {
+    throw new Error(`Invalid IPv4 CIDR block: "${cidr}"`);
+  }
+
+  const octets = match.slice(1, 5).map(Number);
+  const prefixLength = Number(match[5]);
+  if (octets.some(octet => octet > 255) || prefixLength > 32) {
+    throw new Error(`Invalid IPv4 CIDR block: "${cidr}"`);
+  }
+
+  const address = octets.reduce((acc, octet) => acc * 256 + octet, 0);
+  const size = blockSize(prefixLength);
+  if (address % size !== 0) {
+    const network = address - (address % size);
+    throw new Error(
+      `CIDR block ${cidr} has host bits set, did you mean ${formatIpv4Cidr({ network, prefixLength })}?`
+    );
+  }
+
+  return { network: address, prefixLength };
+}
+
+/**
+ * Formats a parsed IPv4 CIDR block back to dotted-quad notation
+ */
+export function formatIpv4Cidr(cidr: Ipv4Cidr): string {
+  const octets = [24, 16, 8, 0].map(shift => Math.floor(cidr.network / 2 ** shift) % 256);
+  return `${octets.join('.')}/${cidr.prefixLength}`;
+}
+
+/**
+ * Whether two CIDR blocks share any address
+ */
+export function cidrsOverlap(a: Ipv4Cidr, b: Ipv4Cidr): boolean {
+  return (
+    a.network < b.network + blockSize(b.prefixLength) &&
+    b.network < a.network + blockSize(a.prefixLength)
+  );
+}
+
+/**
+ * Whether `inner` lies entirely within `outer`
+ */
+export function cidrContains(outer: Ipv4Cidr, inner: Ipv4Cidr): boolean {
+  return (
+    inner.prefixLength >= outer.prefixLength &&
+    inner.network >= outer.network &&
+    inner.network + blockSize(inner.prefixLength) <= outer.network + blockSize(outer.prefixLength)
+  );
+}
+
+/**
+ * Smallest subnet prefix length that provides at least `hostCount` usable addresses
+ * after the AWS reserved addresses are taken out
+ */
+export function prefixLengthForHostCount(hostCount: number): number {
+  if (!Number.isInteger(hostCount) || hostCount < 1) {
+    throw new Error(`Host count must be a positive integer, got ${hostCount}`);
+  }
+
+  const bits = Math.ceil(Math.log2(hostCount + SUBNET_LIMITS.reservedAddressesPerSubnet));
+  const prefixLength = Math.min(32 - bits, SUBNET_LIMITS.maxPrefixLength);
+  if (prefixLength < SUBNET_LIMITS.minPrefixLength) {
+    throw new Error(
+      `A subnet cannot hold ${hostCount} hosts, the largest subnet is /${SUBNET_LIMITS.minPrefixLength}`
+    );
+  }
+
+  return prefixLength;
+}
+
+/**
+ * Validates a subnet prefix length against AWS limits and the VPC size
+ */
+function validateSubnetPrefixLength(name: string, prefixLength: number, vpc: Ipv4Cidr): void {
+  if (
+    !Number.isInteger(prefixLength) ||
+    prefixLength < SUBNET_LIMITS.minPrefixLength ||
+    prefixLength > SUBNET_LIMITS.maxPrefixLength
+  ) {
+    throw new Error(
+      `Subnet prefix length /${prefixLength} for '${name}' must be between /${SUBNET_LIMITS.minPrefixLength} and /${SUBNET_LIMITS.maxPrefixLength}`
+    );
+  }
+  if (prefixLength < vpc.prefixLength) {
+    throw new Error(
+      `Subnet prefix length /${prefixLength} for '${name}' is larger than the VPC CIDR ${formatIpv4Cidr(vpc)}`
+    );
+  }
+}
+
+/**
+ * Plans non-overlapping subnets inside a VPC CIDR block
+ *
+ * Explicit `cidrBlocks` are reserved first and validated. Sized requests are then
+ * allocated in declaration order, each subnet taking the lowest free block of its size,
+ * so appending a request never moves the subnets of earlier ones.
+ *
+ * @param vpcCidr - The VPC CIDR block (e.g., "10.0.0.0/16")
+ * @param requests - Subnet groups to allocate
+ * @returns CIDR blocks keyed by request name
+ */
+export function planSubnets(vpcCidr: string, requests: readonly SubnetPlanRequest[]): SubnetPlan {
+  const vpc = parseIpv4Cidr(vpcCidr);
+  if (
+    vpc.prefixLength < SUBNET_LIMITS.minPrefixLength ||
+    vpc.prefixLength > SUBNET_LIMITS.maxPrefixLength
+  ) {
+    throw new Error(
+      `VPC CIDR block ${vpcCidr} must have a prefix length between /${SUBNET_LIMITS.minPrefixLength} and /${SUBNET_LIMITS.maxPrefixLength}`
+    );
+  }
+
+  const names = new Set<string>();
+  for (const request of requests) {
+    if (names.has(request.name)) {
+      throw new Error(`Duplicate subnet group name: '${request.name}'`);
+    }
+    names.add(request.name);
+
+    if (!Number.isInteger(request.count) || request.count < 0) {
+      throw new Error(`Subnet count for '${request.name}' must be a non-negative integer`);
+    }
+  }
+
+  const allocated: { name: string; cidr: Ipv4Cidr }[] = [];
+  const plan: Record<string, string[]> = {};
+
+  const reserve = (name: string, cidr: Ipv4Cidr): void => {
+    const conflict = allocated.find(existing => cidrsOverlap(existing.cidr, cidr));
+    if (conflict) {
+      throw new Error(
+        `Subnet ${formatIpv4Cidr(cidr)} ('${name}') overlaps ${formatIpv4Cidr(conflict.cidr)} ('${conflict.name}')`
+      );
+    }
+    allocated.push({ name, cidr });
+  };
+
+  // Reserve explicit CIDR blocks first so sized groups are planned around them
+  for (const request of requests) {
+    if (!request.cidrBlocks) {
+      continue;
+    }
+    if (request.prefixLength !== undefined || request.hostCount !== undefined) {
+      throw new Error(
+        `Subnet group '${request.name}' must use either cidrBlocks or a size, not both`
+      );
+    }
+    if (request.cidrBlocks.length !== request.count) {
+      throw new Error(
+        `Subnet group '${request.name}' needs ${request.count} CIDR blocks, got ${request.cidrBlocks.length}`
+      );
+    }
+
+    plan[request.name] = request.cidrBlocks.map(block => {
+      const cidr = parseIpv4Cidr(block);
+      validateSubnetPrefixLength(request.name, cidr.prefixLength, vpc);
+      if (!cidrContains(vpc, cidr)) {
+        throw new Error(`Subnet ${block} ('${request.name}') is outside the VPC CIDR ${vpcCidr}`);
+      }
+      reserve(request.name, cidr);
+      return formatIpv4Cidr(cidr);
+    });
+  }
+
+  // Allocate sized groups in declaration order using first fit
+  for (const request of requests) {
+    if (request.cidrBlocks) {
+      continue;
+    }
+    if ((request.prefixLength === undefined) === (request.hostCount === undefined)) {
+      throw new Error(
+        `Subnet group '${request.name}' must specify exactly one of prefixLength or hostCount`
+      );
+    }
+
+    const prefixLength = request.prefixLength ?? prefixLengthForHostCount(request.hostCount!);
+    validateSubnetPrefixLength(request.name, prefixLength, vpc);
+
+    const size = blockSize(prefixLength);
+    const vpcEnd = vpc.network + blockSize(vpc.prefixLength);
+    const blocks: string[] = [];
+
+    for (let i = 0; i < request.count; i++) {
+      let candidate: Ipv4Cidr | undefined;
+      for (let network = vpc.network; network + size <= vpcEnd; network += size) {
+        const block = { network, prefixLength };
+        if (!allocated.some(existing => cidrsOverlap(existing.cidr, block))) {
+          candidate = block;
+          break;
+        }
+      }
+
+      if (!candidate) {
+        throw new Error(
+          `VPC CIDR ${vpcCidr} has no free /${prefixLength} block for subnet ${i + 1} of ${request.count} in '${request.name}'`
+        );
+      }
+
+      reserve(request.name, candidate);
+      blocks.push(formatIpv4Cidr(candidate));
+    }
+
+    plan[request.name] = blocks;
+  }
+
+  // Preserve declaration order in the result
+  return Object.fromEntries(requests.map(request => [request.name, plan[request.name] ?? []]));
+}
+
+/**
+ * AWS limits on VPC IPv6 prefix lengths; every IPv6 subnet is a /64
+ */
+export const IPV6_SUBNET_LIMITS = {
+  minVpcPrefixLength: 44,
+  maxVpcPrefixLength: 60,
+  subnetPrefixLength: 64,
+} as const;
+
+/**
+ * Parses an IPv6 CIDR block such as "2600:1f18:abcd:ef00::/56"
+ * Rejects malformed input and blocks with host bits set
+ */
+export function parseIpv6Cidr(cidr: string): Ipv6Cidr {
+  const [address, prefix, ...rest] = cidr.trim().toLowerCase().split('/');
+  const prefixLength = Number(prefix);
+  if (
+    rest.length > 0 ||
+    !address ||
+    !/^\d{1,3}$/.test(prefix ?? '') ||
+    prefixLength > 128 ||
+    !/^[0-9a-f:]+$/.test(address)
+  ) {
+    throw new Error(`Invalid IPv6 CIDR block: "${cidr}"`);
+  }
+
+  // Expand "::" into the missing zero hextets
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    throw new Error(`Invalid IPv6 CIDR block: "${cidr}"`);
+  }
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 2 && missing < 1) || (halves.length === 1 && missing !== 0)) {
+    throw new Error(`Invalid IPv6 CIDR block: "${cidr}"`);
+  }
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) {
+    throw new Error(`Invalid IPv6 CIDR block: "${cidr}"`);
+  }
+  const hextets = groups.map(group => parseInt(group, 16));
+
+  // Every bit after the prefix must be zero
+  const hasHostBits = hextets.some((hextet, i) => {
+    const networkBits = Math.min(Math.max(prefixLength - i * 16, 0), 16);
+    return hextet % 2 ** (16 - networkBits) !== 0;
+  });
+  if (hasHostBits) {
+    throw new Error(`IPv6 CIDR block ${cidr} has host bits set`);
+  }
+
+  return { hextets, prefixLength };
+}
+
+/**
+ * Formats a parsed IPv6 CIDR block in canonical (RFC 5952) notation
+ */
+export function formatIpv6Cidr(cidr: Ipv6Cidr): string {
+  // Find the longest run of two or more zero hextets to compress
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let start = 0; start < 8; start++) {
+    let length = 0;
+    while (start + length < 8 && cidr.hextets[start + length] === 0) {
+      length++;
+    }
+    if (length > bestLength) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+
+  const groups = cidr.hextets.map(hextet => hextet.toString(16));
+  const address =
+    bestStart === -1
+      ? groups.join(':')
+      : `${groups.slice(0, bestStart).join(':')}::${groups.slice(bestStart + bestLength).join(':')}`;
+  return `${address}/${cidr.prefixLength}`;
+}
+
+/**
+ * The /64 subnet at `index` inside a VPC IPv6 CIDR block
+ *
+ * @param vpcIpv6Cidr - The VPC IPv6 CIDR block (e.g., "2600:1f18:abcd:ef00::/56")
+ * @param index - Subnet index, 0 to 255 for a /56
+ */
+export function ipv6SubnetCidr(vpcIpv6Cidr: string, index: number): string {
+  const vpc = parseIpv6Cidr(vpcIpv6Cidr);
+  const subnetBits = IPV6_SUBNET_LIMITS.subnetPrefixLength - vpc.prefixLength;
+  if (subnetBits < 0 || vpc.prefixLength < 32) {
+    throw new Error(`VPC IPv6 CIDR block ${vpcIpv6Cidr} cannot be split into /64 subnets`);
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= 2 ** subnetBits) {
+    throw new Error(
+      `IPv6 subnet index ${index} is outside ${vpcIpv6Cidr}, which holds ${2 ** subnetBits} /64 subnets`
+    );
+  }
+
+  // Bits 32-63 hold the subnet index; the VPC prefix leaves them free from `prefixLength` on
+  const hextets = [...vpc.hextets];
+  const network = hextets[2]! * 0x10000 + hextets[3]! + index;
+  hextets[2] = Math.floor(network / 0x10000);
+  hextets[3] = network % 0x10000;
+
+  return formatIpv6Cidr({ hextets, prefixLength: IPV6_SUBNET_LIMITS.subnetPrefixLength });
+}
+
+/**
+ * Plans /64 subnet indexes inside a VPC IPv6 CIDR block
+ *
+ * Works like `planSubnets`: explicit indexes are reserved first, then each group takes the
+ * lowest free indexes in declaration order. The plan only needs the VPC prefix length, so it
+ * can be made before AWS assigns the VPC its IPv6 block.
+ *
+ * @param vpcPrefixLength - Prefix length of the VPC IPv6 block (56 for Amazon-provided blocks)
+ * @param requests - Subnet groups to allocate
+ * @returns Subnet indexes keyed by request name, for use with `ipv6SubnetCidr`
+ */
+export function planIpv6Subnets(
+  vpcPrefixLength: number,
+  requests: readonly Ipv6SubnetPlanRequest[]
+): Ipv6SubnetPlan {
+  if (
+    !Number.isInteger(vpcPrefixLength) ||
+    vpcPrefixLength < IPV6_SUBNET_LIMITS.minVpcPrefixLength ||
+    vpcPrefixLength > IPV6_SUBNET_LIMITS.maxVpcPrefixLength
+  ) {
+    throw new Error(
+      `VPC IPv6 prefix length /${vpcPrefixLength} must be between /${IPV6_SUBNET_LIMITS.minVpcPrefixLength} and /${IPV6_SUBNET_LIMITS.maxVpcPrefixLength}`
+    );
+  }
+
+  const capacity = 2 ** (IPV6_SUBNET_LIMITS.subnetPrefixLength - vpcPrefixLength);
+  const allocated = new Map<number, string>();
+  const plan: Record<string, number[]> = {};
+
+  // Reserve explicit indexes first so other groups are planned around them
+  for (const request of requests) {
+    if (!request.indexes) {
+      continue;
+    }
+    if (request.indexes.length !== request.count) {
+      throw new Error(
+        `IPv6 subnet group '${request.name}' needs ${request.count} indexes, got ${request.indexes.length}`
+      );
+    }
+
+    for (const index of request.indexes) {
+      if (!Number.isInteger(index) || index < 0 || index >= capacity) {
+        throw new Error(
+          `IPv6 subnet index ${index} ('${request.name}') must be between 0 and ${capacity - 1}`
+        );
+      }
+      const conflict = allocated.get(index);
+      if (conflict !== undefined) {
+        throw new Error(
+          `IPv6 subnet index ${index} ('${request.name}') is already used by '${conflict}'`
+        );
+      }
+      allocated.set(index, request.name);
+    }
+    plan[request.name] = [...request.indexes];
+  }
+
+  // Allocate the remaining groups in declaration order using first fit
+  for (const request of requests) {
+    if (request.indexes) {
+      continue;
+    }
+
+    const indexes: number[] = [];
+    let next = 0;
+    for (let i = 0; i < request.count; i++) {
+      while (allocated.has(next)) {
+        next++;
+      }
+      if (next >= capacity) {
+        throw new Error(
+          `VPC IPv6 block /${vpcPrefixLength} has no free /64 for subnet ${i + 1} of ${request.count} in '${request.name}'`
+        );
+      }
+      allocated.set(next, request.name);
+      indexes.push(next);
+    }
+    plan[request.name] = indexes;
+  }
+
+  // Preserve declaration order in the result
+  return Object.fromEntries(requests.map(request => [request.name, plan[request.name] ?? []]));
+}
@@ -2,12 +2,56 @@
  * Secure default values for VPC configuration
  */
 
-import { VpcArgs } from './types';
+import { PolicyDocument, PolicyStatement } from '../iam/types';
+import { LOG_RETENTION_DAYS } from '../cloudwatch/types';
+import {
+  NetworkAclConfig,
+  NetworkAclRuleConfig,
+  NetworkFirewallConfig,
+  SecurityGroupConfig,
+  SecurityGroupRuleConfig,
+  NetworkAclConnections,
+  Ipv6SubnetPlan,
+  SubnetPlan,
+  SubnetRouting,
+  SubnetTierConfig,
+  TransitGatewayConfig,
+  VpcArgs,
+  VpcDnsConfig,
+  VpcPeeringArgs,
+  VpcAccessArgs,
+  VpcEndpointsConfig,
+  VpcFlowLogConfig,
+} from './types';
+import {
+  SUBNET_LIMITS,
+  cidrContains,
+  cidrsOverlap,
+  formatIpv4Cidr,
+  parseIpv4Cidr,
+  parseIpv6Cidr,
+  planIpv6Subnets,
+  planSubnets,
+} from './cidr';
 
 /**
  * Default VPC configuration with security best practices
  */
-export const VPC_DEFAULTS: Required<Omit<VpcArgs, 'name' | 'tags'>> = {
+export const VPC_DEFAULTS: Required<
+  Pick<
+    VpcArgs,
+    | 'cidrBlock'
+    | 'enableDnsHostnames'
+    | 'enableDnsSupport'
+    | 'enableNatGateway'
+    | 'multiAzNatGateway'
+    | 'natMode'
+    | 'availabilityZoneCount'
+    | 'enableIpv6'
+    | 'restrictDefaultSecurityGroup'
+    | 'restrictDefaultNetworkAcl'
+  >
+> = {
   // Use RFC 1918 private address space
   cidrBlock: '10.0.0.0/16',
 
@@ -22,8 +66,18 @@ export const VPC_DEFAULTS: Required<Omit<VpcArgs, 'name' | 'tags'>> = {
   // Set to true for production high availability
   multiAzNatGateway: false,
 
+  // Managed NAT gateways unless NAT instances are requested
+  natMode: 'gateway',
+
   // Use 2 AZs for high availability
   availabilityZoneCount: 2,
+
+  // IPv4 only unless dual-stack is requested
+  enableIpv6: false,
+
+  // Strip the rules from the AWS-created default security group and network ACL (CIS 5.4)
+  restrictDefaultSecurityGroup: true,
+  restrictDefaultNetworkAcl: true,
 };
 
 /**
@@ -35,9 +89,120 @@ export const DEFAULT_TAGS = {
   'ModInfra:SecurityLevel': 'secure-by-default',
 } as const;
 
+/**
+ * Default settings for adopting an existing VPC
+ * Subnets created by this module carry their tier name in the same tag
+ */
+export const VPC_LOOKUP_DEFAULTS = {
+  tierTagKey: 'Type',
+} as const;
+
+/**
+ * Validates availability zone pinning and exclusion
+ */
+export function validateAvailabilityZoneSelection(
+  args: Pick<
+    VpcArgs,
+    | 'availabilityZoneCount'
+    | 'availabilityZones'
+    | 'availabilityZoneIds'
+    | 'excludeAvailabilityZones'
+  >
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const pinned = args.availabilityZones ?? args.availabilityZoneIds;
+  const excluded = args.excludeAvailabilityZones ?? [];
+
+  if (args.availabilityZones && args.availabilityZoneIds) {
+    errors.push('availabilityZones and availabilityZoneIds cannot be combined');
+  }
+
+  if (pinned) {
+    if (pinned.length === 0) {
+      errors.push('At least one availability zone must be pinned');
+    }
+    pinned.forEach((zone, i) => {
+      if (pinned.indexOf(zone) !== i) {
+        errors.push(`Duplicate availability zone ${zone}`);
+      }
+      if (excluded.includes(zone)) {
+        errors.push(`Availability zone ${zone} is both pinned and excluded`);
+      }
+    });
+    if (
+      typeof args.availabilityZoneCount === 'number' &&
+      args.availabilityZoneCount !== pinned.length
+    ) {
+      errors.push(
+        `availabilityZoneCount ${args.availabilityZoneCount} does not match the ${pinned.length} pinned availability zones`
+      );
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Picks the availability zone names for a VPC from the zones available in its region
+ * Throws instead of guessing zone names when the region cannot satisfy the request
+ *
+ * @param available - Zone names and their IDs as returned by the AZ lookup, in the same order
+ * @param selection - Number of zones, optional pinned names or IDs, and names or IDs to skip
+ * @returns Zone names, one per subnet index
+ */
+export function selectAvailabilityZones(
+  available: { readonly names: readonly string[]; readonly zoneIds: readonly string[] },
+  selection: {
+    readonly count: number;
+    readonly names?: readonly string[] | undefined;
+    readonly zoneIds?: readonly string[] | undefined;
+    readonly exclude?: readonly string[] | undefined;
+  }
+): string[] {
+  const exclude = selection.exclude ?? [];
+  const zones = available.names
+    .map((name, i) => ({ name, zoneId: available.zoneIds[i] }))
+    .filter(zone => !exclude.includes(zone.name) && !exclude.includes(zone.zoneId ?? ''));
+
+  if (selection.names) {
+    return selection.names.map(name => {
+      if (!zones.some(zone => zone.name === name)) {
+        throw new Error(`Availability zone ${name} is not available in this region`);
+      }
+      return name;
+    });
+  }
+
+  if (selection.zoneIds) {
+    return selection.zoneIds.map(zoneId => {
+      const zone = zones.find(candidate => candidate.zoneId === zoneId);
+      if (!zone) {
+        throw new Error(`Availability zone ID ${zoneId} is not available in this region`);
+      }
+      return zone.name;
+    });
+  }
+
+  if (zones.length < selection.count) {
+    const excluded = exclude.length > 0 ? ` after excluding ${exclude.join(', ')}` : '';
+    throw new Error(
+      `availabilityZoneCount is ${selection.count}, but only ${zones.length} availability zones are available${excluded}`
+    );
+  }
+
+  return zones.slice(0, selection.count).map(zone => zone.name);
+}
+
 /**
  * Calculate subnet CIDR blocks based on VPC CIDR
- * Splits the VPC into equal subnets across AZs
+ * Plans one public and one private subnet per AZ
+ *
+ * Subnets are /24s with public subnets starting at the first block and private
+ * subnets at the tenth, matching the layout of earlier releases so existing VPCs
+ * keep their addressing. VPCs too small for that layout get smaller subnets.
  *
  * @param vpcCidr - The VPC CIDR block (e.g., "10.0.0.0/16")
  * @param azCount - Number of availability zones
@@ -50,39 +215,1283 @@ export function calculateSubnetCidrs(
   publicSubnets: string[];
   privateSubnets: string[];
 } {
-  // For a /16 VPC, create /24 subnets
-  // First half for public, second half for private
-  const baseOctets = vpcCidr.split('.').slice(0, 2);
-  const publicSubnets: string[] = [];
-  const privateSubnets: string[] = [];
+  const vpc = parseIpv4Cidr(vpcCidr);
+  const subnetPrefixLength = Math.max(
+    24,
+    vpc.prefixLength + Math.ceil(Math.log2(Math.max(2 * azCount, 1)))
+  );
+  if (subnetPrefixLength > SUBNET_LIMITS.maxPrefixLength) {
+    throw new Error(
+      `VPC CIDR ${vpcCidr} is too small for ${azCount} public and ${azCount} private subnets`
+    );
+  }
+
+  // Leave a gap for expansion between public and private subnets when it fits
+  const slots = 2 ** (subnetPrefixLength - vpc.prefixLength);
+  const gapOffset = Math.max(10, azCount);
+  const privateOffset = gapOffset + azCount <= slots ? gapOffset : azCount;
+
+  const blockAt = (index: number): string =>
+    formatIpv4Cidr({
+      network: vpc.network + index * 2 ** (32 - subnetPrefixLength),
+      prefixLength: subnetPrefixLength,
+    });
+  const indexes = Array.from({ length: azCount }, (_, i) => i);
+
+  const plan = planSubnets(vpcCidr, [
+    { name: 'public', count: azCount, cidrBlocks: indexes.map(i => blockAt(i)) },
+    { name: 'private', count: azCount, cidrBlocks: indexes.map(i => blockAt(privateOffset + i)) },
+  ]);
+
+  return {
+    publicSubnets: [...(plan['public'] ?? [])],
+    privateSubnets: [...(plan['private'] ?? [])],
+  };
+}
+
+/**
+ * Default NAT instance configuration
+ * Uses the open-source fck-nat AMI on the smallest Graviton instance
+ */
+export const NAT_INSTANCE_DEFAULTS = {
+  instanceType: 't4g.nano',
+  amiOwner: '568608671756',
+  amiNamePattern: 'fck-nat-al2023-*-arm64-ebs',
+
+  // Tag that scopes the instance role to its own network interface and Elastic IP
+  scopeTagKey: 'ModInfra:NatInstance',
+} as const;
+
+/**
+ * Permissions a fck-nat instance needs to take over its static network interface and Elastic IP
+ * Every action is limited to resources carrying the instance's scope tag
+ *
+ * @param scopeTagValue - Value of the scope tag on the instance, network interface and Elastic IP
+ */
+export function createNatInstancePolicy(scopeTagValue: string): PolicyDocument {
+  return {
+    version: '2012-10-17',
+    statements: [
+      {
+        sid: 'ManageOwnNatResources',
+        effect: 'Allow',
+        actions: [
+          'ec2:AttachNetworkInterface',
+          'ec2:ModifyNetworkInterfaceAttribute',
+          'ec2:ModifyInstanceAttribute',
+          'ec2:AssociateAddress',
+          'ec2:DisassociateAddress',
+        ],
+        resources: '*',
+        conditions: {
+          StringEquals: {
+            [`aws:ResourceTag/${NAT_INSTANCE_DEFAULTS.scopeTagKey}`]: scopeTagValue,
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Default subnet tiers: public subnets behind the Internet Gateway and private subnets behind NAT
+ */
+export const DEFAULT_SUBNET_TIERS: readonly SubnetTierConfig[] = [
+  { name: 'public', routing: 'igw' },
+  { name: 'private', routing: 'nat' },
+] as const;
+
+/**
+ * Defaults applied to each subnet tier
+ */
+export const SUBNET_TIER_DEFAULTS = {
+  // /24 subnets (251 usable hosts) unless the tier is sized explicitly
+  prefixLength: 24,
+} as const;
+
+/**
+ * Validates subnet tier configuration
+ */
+export function validateSubnetTiers(tiers: readonly SubnetTierConfig[]): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  if (tiers.length === 0) {
+    errors.push('At least one subnet tier is required');
+  }
+
+  for (const tier of tiers) {
+    if (!/^[a-z0-9-]+$/.test(tier.name)) {
+      errors.push(
+        `Subnet tier name '${tier.name}' can only contain lowercase letters, numbers, and hyphens`
+      );
+    }
+    if (names.has(tier.name)) {
+      errors.push(`Duplicate subnet tier name '${tier.name}'`);
+    }
+    names.add(tier.name);
+
+    if (!['igw', 'nat', 'none'].includes(tier.routing)) {
+      errors.push(`Subnet tier '${tier.name}' has invalid routing '${tier.routing}'`);
+    }
+
+    const sizings = [tier.prefixLength, tier.hostCount, tier.cidrBlocks].filter(
+      sizing => sizing !== undefined
+    );
+    if (sizings.length > 1) {
+      errors.push(
+        `Subnet tier '${tier.name}' can only use one of prefixLength, hostCount, or cidrBlocks`
+      );
+    }
+
+    if (tier.networkAcl) {
+      errors.push(...validateNetworkAcl(tier.name, tier.networkAcl).errors);
+    }
+  }
+
+  // NAT gateways and the public route table live in the Internet Gateway tier
+  if (tiers.length > 0 && !tiers.some(tier => tier.routing === 'igw')) {
+    errors.push("At least one subnet tier must use 'igw' routing");
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Plans subnet CIDRs for each tier, one subnet per AZ
+ *
+ * @param vpcCidr - The VPC CIDR block (e.g., "10.0.0.0/16")
+ * @param tiers - Subnet tiers in planning order
+ * @param azCount - Number of availability zones
+ * @returns CIDR blocks keyed by tier name
+ */
+export function planSubnetTiers(
+  vpcCidr: string,
+  tiers: readonly SubnetTierConfig[],
+  azCount: number
+): SubnetPlan {
+  return planSubnets(
+    vpcCidr,
+    tiers.map(tier => ({
+      name: tier.name,
+      count: azCount,
+      ...(tier.cidrBlocks
+        ? { cidrBlocks: tier.cidrBlocks }
+        : tier.hostCount !== undefined
+          ? { hostCount: tier.hostCount }
+          : { prefixLength: tier.prefixLength ?? SUBNET_TIER_DEFAULTS.prefixLength }),
+    }))
+  );
+}
+
+/**
+ * Prefix length of the IPv6 block Amazon assigns to a VPC
+ */
+export const AMAZON_IPV6_PREFIX_LENGTH = 56;
+
+/**
+ * Plans the /64 IPv6 subnet indexes for each tier, one subnet per AZ
+ * The Amazon-provided /56 holds 256 subnets
+ *
+ * @param tiers - Subnet tiers in planning order
+ * @param azCount - Number of availability zones
+ * @returns /64 indexes within the VPC IPv6 block, keyed by tier name
+ */
+export function planIpv6SubnetTiers(
+  tiers: readonly SubnetTierConfig[],
+  azCount: number
+): Ipv6SubnetPlan {
+  return planIpv6Subnets(
+    AMAZON_IPV6_PREFIX_LENGTH,
+    tiers.map(tier => ({
+      name: tier.name,
+      count: azCount,
+      ...(tier.ipv6SubnetIndexes && { indexes: tier.ipv6SubnetIndexes }),
+    }))
+  );
+}
+
+/**
+ * Default VPC Flow Logs configuration
+ * Captures all traffic at one-minute granularity and keeps it for a year
+ */
+export const FLOW_LOG_DEFAULTS = {
+  enabled: true,
+  destination: 'cloud-watch-logs',
+  trafficType: 'ALL',
+  maxAggregationInterval: 60,
+  retentionInDays: LOG_RETENTION_DAYS.ONE_YEAR,
+} as const;
+
+/**
+ * Validates VPC Flow Logs configuration
+ */
+export function validateFlowLogConfig(config: VpcFlowLogConfig): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const destination = config.destination ?? FLOW_LOG_DEFAULTS.destination;
+
+  if (destination === 's3' && !config.s3BucketArn) {
+    errors.push('s3BucketArn is required when flow logs are delivered to S3');
+  }
+
+  if (destination === 's3' && (config.kmsKeyId || config.logGroupName)) {
+    errors.push('kmsKeyId and logGroupName only apply to the CloudWatch Logs destination');
+  }
+
+  if (
+    config.retentionInDays !== undefined &&
+    !(Object.values(LOG_RETENTION_DAYS) as number[]).includes(config.retentionInDays)
+  ) {
+    errors.push(`Invalid flow log retention period: ${config.retentionInDays} days`);
+  }
+
+  if (
+    config.maxAggregationInterval !== undefined &&
+    config.maxAggregationInterval !== 60 &&
+    config.maxAggregationInterval !== 600
+  ) {
+    errors.push('maxAggregationInterval must be 60 or 600 seconds');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Trust policy allowing VPC Flow Logs in this account to assume the delivery role
+ */
+export function createFlowLogTrustPolicy(accountId: string): PolicyDocument {
+  return {
+    version: '2012-10-17',
+    statements: [
+      {
+        effect: 'Allow',
+        actions: 'sts:AssumeRole',
+        principals: [{ type: 'Service', identifiers: 'vpc-flow-logs.amazonaws.com' }],
+        // Prevent the confused deputy problem
+        conditions: {
+          StringEquals: {
+            'aws:SourceAccount': accountId,
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Permissions for the flow log delivery role, scoped to a single log group
+ */
+export function createFlowLogDeliveryPolicy(logGroupArn: string): PolicyDocument {
+  return {
+    version: '2012-10-17',
+    statements: [
+      {
+        effect: 'Allow',
+        actions: [
+          'logs:CreateLogStream',
+          'logs:PutLogEvents',
+          'logs:DescribeLogGroups',
+          'logs:DescribeLogStreams',
+        ],
+        resources: [logGroupArn, `${logGroupArn}:*`],
+      },
+    ],
+  };
+}
+
+/**
+ * Key policy allowing CloudWatch Logs to use a KMS key for log groups in this account and region
+ */
+export function createLogGroupKeyPolicy(accountId: string, region: string): PolicyDocument {
+  return {
+    version: '2012-10-17',
+    statements: [
+      {
+        sid: 'EnableRootAccountPermissions',
+        effect: 'Allow',
+        actions: 'kms:*',
+        resources: '*',
+        principals: [{ type: 'AWS', identifiers: `arn:aws:iam::${accountId}:root` }],
+      },
+      {
+        sid: 'AllowCloudWatchLogs',
+        effect: 'Allow',
+        actions: [
+          'kms:Encrypt*',
+          'kms:Decrypt*',
+          'kms:ReEncrypt*',
+          'kms:GenerateDataKey*',
+          'kms:Describe*',
+        ],
+        resources: '*',
+        principals: [{ type: 'Service', identifiers: `logs.${region}.amazonaws.com` }],
+        conditions: {
+          ArnLike: {
+            'kms:EncryptionContext:aws:logs:arn': `arn:aws:logs:${region}:${accountId}:log-group:*`,
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Default VPC endpoint configuration
+ * Gateway endpoints are free, interface endpoints are billed hourly and opt-in
+ */
+export const VPC_ENDPOINT_DEFAULTS = {
+  gatewayEndpoints: ['s3', 'dynamodb'],
+  interfaceEndpoints: [],
+  privateDnsEnabled: true,
+} as const;
+
+/**
+ * Validates VPC endpoint configuration against the VPC's subnet tiers
+ */
+export function validateVpcEndpointsConfig(
+  config: VpcEndpointsConfig,
+  tiers: readonly SubnetTierConfig[]
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const gatewayEndpoints = config.gatewayEndpoints ?? VPC_ENDPOINT_DEFAULTS.gatewayEndpoints;
+  const interfaceEndpoints = config.interfaceEndpoints ?? VPC_ENDPOINT_DEFAULTS.interfaceEndpoints;
+  const services = [...gatewayEndpoints, ...interfaceEndpoints];
+
+  for (const service of gatewayEndpoints) {
+    if (service !== 's3' && service !== 'dynamodb') {
+      errors.push(`Gateway endpoints are only available for s3 and dynamodb, got '${service}'`);
+    }
+  }
+
+  for (const service of interfaceEndpoints) {
+    if (!/^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(service)) {
+      errors.push(`Invalid interface endpoint service name '${service}'`);
+    }
+  }
+
+  const duplicates = services.filter((service, i) => services.indexOf(service) !== i);
+  if (duplicates.length > 0) {
+    errors.push(`Duplicate endpoint services: ${[...new Set(duplicates)].join(', ')}`);
+  }
+
+  for (const service of Object.keys(config.policies ?? {})) {
+    if (!services.includes(service)) {
+      errors.push(`Endpoint policy given for '${service}' but no endpoint is configured for it`);
+    }
+  }
+
+  if (config.subnetTier !== undefined && !tiers.some(tier => tier.name === config.subnetTier)) {
+    errors.push(`Endpoint subnet tier '${config.subnetTier}' does not exist`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Default tier for network interfaces of shared VPC infrastructure (endpoints, attachments)
+ * The first private tier, otherwise the first isolated tier
+ */
+export function selectInfrastructureTier(tiers: readonly SubnetTierConfig[]): string {
+  return (
+    tiers.find(tier => tier.routing === 'nat') ??
+    tiers.find(tier => tier.routing === 'none') ??
+    tiers[0]!
+  ).name;
+}
+
+/**
+ * Default tiers for routes leaving the VPC (Transit Gateway, peering)
+ * Isolated tiers are left out, their network ACL only allows traffic inside the VPC
+ */
+export function selectRouteTiers(tiers: readonly SubnetTierConfig[]): string[] {
+  return tiers.filter(tier => tier.routing !== 'none').map(tier => tier.name);
+}
+
+/**
+ * Validates a Transit Gateway attachment against the VPC's subnet tiers
+ *
+ * @param config - Transit Gateway configuration
+ * @param tiers - Subnet tiers of the VPC
+ * @param vpcCidr - The VPC CIDR block
+ * @param hasNat - Whether NAT tiers already have a default route
+ */
+export function validateTransitGatewayConfig(
+  config: TransitGatewayConfig,
+  tiers: readonly SubnetTierConfig[],
+  vpcCidr: string,
+  hasNat: boolean
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const tierNames = tiers.map(tier => tier.name);
+
+  if (config.subnetTier !== undefined && !tierNames.includes(config.subnetTier)) {
+    errors.push(`Transit Gateway subnet tier '${config.subnetTier}' does not exist`);
+  }
+  for (const tierName of config.routeTiers ?? []) {
+    if (!tierNames.includes(tierName)) {
+      errors.push(`Transit Gateway route tier '${tierName}' does not exist`);
+    }
+  }
+
+  const vpc = parseIpv4Cidr(vpcCidr);
+  const destinations = config.destinationCidrBlocks ?? [];
+  destinations.forEach((destination, i) => {
+    if (destinations.indexOf(destination) !== i) {
+      errors.push(`Duplicate Transit Gateway destination ${destination}`);
+      return;
+    }
+
+    // Supernets such as 10.0.0.0/8 are fine, the VPC's local route is more specific
+    try {
+      if (cidrContains(vpc, parseIpv4Cidr(destination))) {
+        errors.push(`Transit Gateway destination ${destination} is inside the VPC CIDR ${vpcCidr}`);
+      }
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  });
+
+  // A default route to the Transit Gateway would clash with the Internet Gateway or NAT route
+  if (destinations.includes('0.0.0.0/0')) {
+    const routeTiers = config.routeTiers ?? selectRouteTiers(tiers);
+    const clashing = tiers.filter(
+      tier =>
+        routeTiers.includes(tier.name) &&
+        (tier.routing === 'igw' || (tier.routing === 'nat' && hasNat))
+    );
+    for (const tier of clashing) {
+      errors.push(
+        `Transit Gateway default route clashes with the existing default route of tier '${tier.name}'`
+      );
+    }
+  }
 
-  // Public subnets start from .0.0/24
-  for (let i = 0; i < azCount; i++) {
-    publicSubnets.push(`${baseOctets[0]}.${baseOctets[1]}.${i}.0/24`);
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates the networks outside the VPC that network ACLs allow
+ *
+ * @param cidrs - Connected networks (peered VPCs, VPN, Direct Connect)
+ * @param vpcCidr - The VPC CIDR block
+ */
+export function validateConnectedCidrBlocks(
+  cidrs: readonly string[],
+  vpcCidr: string
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const vpc = parseIpv4Cidr(vpcCidr);
+
+  cidrs.forEach((cidr, i) => {
+    if (cidrs.indexOf(cidr) !== i) {
+      errors.push(`Duplicate connected CIDR block ${cidr}`);
+      return;
+    }
+    try {
+      if (cidrsOverlap(vpc, parseIpv4Cidr(cidr))) {
+        errors.push(`Connected CIDR block ${cidr} overlaps the VPC CIDR ${vpcCidr}`);
+      }
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Default DNS configuration
+ * Query logging follows the flow log defaults, endpoints are billed hourly and opt-in
+ */
+export const DNS_DEFAULTS = {
+  inboundEndpoint: false,
+  forwardingPort: 53,
+  queryLogging: true,
+  retentionInDays: LOG_RETENTION_DAYS.ONE_YEAR,
+} as const;
+
+/**
+ * Validates DNS configuration against the VPC's subnet tiers
+ */
+export function validateDnsConfig(
+  config: VpcDnsConfig,
+  tiers: readonly SubnetTierConfig[]
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const domainPattern = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/i;
+
+  if (config.subnetTier !== undefined && !tiers.some(tier => tier.name === config.subnetTier)) {
+    errors.push(`DNS subnet tier '${config.subnetTier}' does not exist`);
+  }
+
+  if (config.privateZoneName !== undefined && !domainPattern.test(config.privateZoneName)) {
+    errors.push(`Invalid private hosted zone name '${config.privateZoneName}'`);
+  }
+
+  const rules = config.forwardingRules ?? [];
+  if (rules.length > 0 && config.outboundEndpoint === false) {
+    errors.push('Forwarding rules require the outbound endpoint');
+  }
+
+  const domains = rules.map(rule => rule.domainName.toLowerCase());
+  rules.forEach((rule, i) => {
+    if (!domainPattern.test(rule.domainName)) {
+      errors.push(`Invalid forwarding rule domain '${rule.domainName}'`);
+    } else if (domains.indexOf(domains[i]!) !== i) {
+      errors.push(`Duplicate forwarding rule for '${rule.domainName}'`);
+    }
+
+    if (rule.targetIps.length === 0) {
+      errors.push(`Forwarding rule '${rule.domainName}' has no target IPs`);
+    }
+    for (const ip of rule.targetIps) {
+      try {
+        parseIpv4Cidr(`${ip}/32`);
+      } catch {
+        errors.push(`Invalid target IP '${ip}' in forwarding rule '${rule.domainName}'`);
+      }
+    }
+
+    if (rule.port !== undefined && (rule.port < 1 || rule.port > 65535)) {
+      errors.push(`Invalid port ${rule.port} in forwarding rule '${rule.domainName}'`);
+    }
+  });
+
+  const retentionInDays = config.queryLogging?.retentionInDays;
+  if (
+    retentionInDays !== undefined &&
+    !(Object.values(LOG_RETENTION_DAYS) as number[]).includes(retentionInDays)
+  ) {
+    errors.push(`Invalid DNS query log retention period: ${retentionInDays} days`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Default Network Firewall configuration
+ * Traffic no rule passes is dropped, and alert and flow logs are kept for one year
+ */
+export const NETWORK_FIREWALL_DEFAULTS = {
+  subnetTier: 'firewall',
+  suricataRuleCapacity: 100,
+  defaultAction: 'drop',
+  deleteProtection: true,
+  logTypes: ['ALERT', 'FLOW'],
+  logDestination: 'cloud-watch-logs',
+  retentionInDays: LOG_RETENTION_DAYS.ONE_YEAR,
+} as const;
+
+/**
+ * Validates Network Firewall configuration against the VPC's subnet tiers
+ */
+export function validateNetworkFirewallConfig(
+  config: NetworkFirewallConfig,
+  tiers: readonly SubnetTierConfig[],
+  enableIpv6: boolean
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const tierName = config.subnetTier ?? NETWORK_FIREWALL_DEFAULTS.subnetTier;
+  const tier = tiers.find(candidate => candidate.name === tierName);
+
+  if (!tier) {
+    errors.push(`Firewall subnet tier '${tierName}' does not exist`);
+  } else if (tier.routing !== 'igw') {
+    errors.push(`Firewall subnet tier '${tierName}' must use 'igw' routing`);
+  }
+  if (!tiers.some(candidate => candidate.routing === 'igw' && candidate.name !== tierName)) {
+    errors.push("The firewall needs at least one other 'igw' tier to inspect");
+  }
+
+  // Private IPv6 traffic leaves through the egress-only gateway, which cannot be inspected
+  if (enableIpv6) {
+    errors.push('Network Firewall inspection does not support IPv6 VPCs');
+  }
+
+  const domainPattern = /^\.?([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/i;
+  const domains = config.allowedDomains ?? [];
+  domains.forEach((domain, i) => {
+    if (!domainPattern.test(domain)) {
+      errors.push(`Invalid allowed domain '${domain}'`);
+    } else if (domains.indexOf(domain) !== i) {
+      errors.push(`Duplicate allowed domain '${domain}'`);
+    }
+  });
+
+  const capacity = config.suricataRuleCapacity ?? NETWORK_FIREWALL_DEFAULTS.suricataRuleCapacity;
+  if (!Number.isInteger(capacity) || capacity < 1 || capacity > 30000) {
+    errors.push(`Suricata rule capacity must be between 1 and 30000, got ${capacity}`);
+  }
+  const ruleCount = (config.suricataRules ?? '')
+    .split('\n')
+    .filter(line => line.trim() !== '' && !line.trim().startsWith('#')).length;
+  if (ruleCount > capacity) {
+    errors.push(`${ruleCount} Suricata rules exceed the rule group capacity of ${capacity}`);
+  }
+
+  const logging = config.logging ?? {};
+  const logTypes = logging.logTypes ?? NETWORK_FIREWALL_DEFAULTS.logTypes;
+  if (logTypes.length === 0) {
+    errors.push('At least one firewall log type is required');
+  }
+  if (new Set(logTypes).size !== logTypes.length) {
+    errors.push('Duplicate firewall log types');
+  }
+
+  const destination = logging.destination ?? NETWORK_FIREWALL_DEFAULTS.logDestination;
+  if (destination === 's3' && !logging.s3BucketName) {
+    errors.push('s3BucketName is required when firewall logs are delivered to S3');
+  }
+  if (destination === 's3' && (logging.kmsKeyId || logging.retentionInDays !== undefined)) {
+    errors.push('kmsKeyId and retentionInDays only apply to the CloudWatch Logs destination');
+  }
+  if (destination === 'cloud-watch-logs' && (logging.s3BucketName || logging.s3Prefix)) {
+    errors.push('s3BucketName and s3Prefix only apply to the S3 destination');
+  }
+  if (
+    logging.retentionInDays !== undefined &&
+    !(Object.values(LOG_RETENTION_DAYS) as number[]).includes(logging.retentionInDays)
+  ) {
+    errors.push(`Invalid firewall log retention period: ${logging.retentionInDays} days`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates a VPC peering: the VPCs must be distinct, their CIDRs must not overlap and the
+ * route tiers must exist on their side
+ */
+export function validateVpcPeering(args: VpcPeeringArgs): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const { requester, accepter } = args;
+
+  if (requester.vpc === accepter.vpc) {
+    errors.push('A VPC cannot be peered with itself');
+  } else if (
+    cidrsOverlap(parseIpv4Cidr(requester.vpc.cidrBlock), parseIpv4Cidr(accepter.vpc.cidrBlock))
+  ) {
+    errors.push(
+      `Requester CIDR ${requester.vpc.cidrBlock} overlaps accepter CIDR ${accepter.vpc.cidrBlock}`
+    );
+  }
+
+  for (const [sideName, side] of [
+    ['requester', requester],
+    ['accepter', accepter],
+  ] as const) {
+    for (const tierName of side.routeTiers ?? []) {
+      if (!(tierName in side.vpc.routeTables.byTier)) {
+        errors.push(`${sideName} route tier '${tierName}' does not exist`);
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Default operator access configuration
+ * Sessions are short, logged and encrypted; nothing is reachable beyond the VPC by default
+ */
+export const VPC_ACCESS_DEFAULTS = {
+  splitTunnel: true,
+  sessionTimeoutHours: 8,
+  sessionManagerEndpoints: ['ssm', 'ssmmessages', 'ec2messages'],
+  idleSessionTimeoutMinutes: 20,
+  manageAccountPreferences: false,
+  accountPreferencesDocumentName: 'SSM-SessionManagerRunShell',
+  logging: true,
+  retentionInDays: LOG_RETENTION_DAYS.ONE_YEAR,
+} as const;
+
+/**
+ * Validates Client VPN and Session Manager configuration against the VPC
+ */
+export function validateVpcAccess(args: VpcAccessArgs): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const { vpc, clientVpn, sessionManager } = args;
+
+  if (!clientVpn && !sessionManager) {
+    errors.push('Configure clientVpn, sessionManager or both');
+  }
+
+  const checkSubnetTier = (subnetTier: string | undefined, feature: string): void => {
+    if (subnetTier !== undefined) {
+      if (!(vpc.subnetsByTier[subnetTier]?.length ?? 0)) {
+        errors.push(`${feature} subnet tier '${subnetTier}' does not exist`);
+      }
+    } else if (vpc.privateSubnets.length === 0 && vpc.isolatedSubnets.length === 0) {
+      errors.push(`${feature} needs a subnetTier, the VPC has no private or isolated subnets`);
+    }
+  };
+  const checkRetention = (retentionInDays: number | undefined, feature: string): void => {
+    if (
+      retentionInDays !== undefined &&
+      !(Object.values(LOG_RETENTION_DAYS) as number[]).includes(retentionInDays)
+    ) {
+      errors.push(`Invalid ${feature} log retention period: ${retentionInDays} days`);
+    }
+  };
+
+  if (clientVpn) {
+    checkSubnetTier(clientVpn.subnetTier, 'Client VPN');
+
+    try {
+      const clientCidr = parseIpv4Cidr(clientVpn.clientCidrBlock);
+      if (clientCidr.prefixLength < 12 || clientCidr.prefixLength > 22) {
+        errors.push(`Client CIDR block ${clientVpn.clientCidrBlock} must be between /12 and /22`);
+      }
+      if (cidrsOverlap(clientCidr, parseIpv4Cidr(vpc.cidrBlock))) {
+        errors.push(
+          `Client CIDR block ${clientVpn.clientCidrBlock} overlaps the VPC CIDR ${vpc.cidrBlock}`
+        );
+      }
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+
+    for (const cidr of clientVpn.authorizedCidrBlocks ?? []) {
+      try {
+        parseIpv4Cidr(cidr);
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+
+    if (clientVpn.authentication === 'mutual-tls') {
+      if (!clientVpn.clientRootCertificateArn) {
+        errors.push('clientRootCertificateArn is required for mutual TLS authentication');
+      }
+      if (
+        clientVpn.samlProviderArn ||
+        clientVpn.selfServiceSamlProviderArn ||
+        clientVpn.accessGroupId
+      ) {
+        errors.push(
+          'samlProviderArn, selfServiceSamlProviderArn and accessGroupId only apply to SAML authentication'
+        );
+      }
+    } else {
+      if (!clientVpn.samlProviderArn) {
+        errors.push('samlProviderArn is required for SAML authentication');
+      }
+      if (clientVpn.clientRootCertificateArn) {
+        errors.push('clientRootCertificateArn only applies to mutual TLS authentication');
+      }
+    }
+
+    const sessionTimeoutHours =
+      clientVpn.sessionTimeoutHours ?? VPC_ACCESS_DEFAULTS.sessionTimeoutHours;
+    if (![8, 10, 12, 24].includes(sessionTimeoutHours)) {
+      errors.push(`Client VPN session timeout must be 8, 10, 12 or 24 hours`);
+    }
+
+    checkRetention(clientVpn.connectionLogging?.retentionInDays, 'Client VPN');
+  }
+
+  if (sessionManager) {
+    checkSubnetTier(sessionManager.subnetTier, 'Session Manager');
+
+    const idleTimeout =
+      sessionManager.idleSessionTimeoutMinutes ?? VPC_ACCESS_DEFAULTS.idleSessionTimeoutMinutes;
+    if (!Number.isInteger(idleTimeout) || idleTimeout < 1 || idleTimeout > 60) {
+      errors.push(`Idle session timeout must be between 1 and 60 minutes, got ${idleTimeout}`);
+    }
+
+    // Sessions must leave a record somewhere
+    const logging = sessionManager.logging ?? {};
+    if (!(logging.cloudWatch?.enabled ?? VPC_ACCESS_DEFAULTS.logging) && !logging.s3BucketName) {
+      errors.push('Session logging needs CloudWatch Logs, an S3 bucket or both');
+    }
+    if (logging.s3KeyPrefix !== undefined && !logging.s3BucketName) {
+      errors.push('s3KeyPrefix only applies when s3BucketName is set');
+    }
+    checkRetention(logging.cloudWatch?.retentionInDays, 'session');
+
+    if (sessionManager.manageAccountPreferences && sessionManager.preferencesDocumentName) {
+      errors.push('preferencesDocumentName cannot be set with manageAccountPreferences');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Permissions Session Manager instances need to write session logs
+ */
+export function createSessionLoggingPolicy(destinations: {
+  logGroupArn?: string;
+  s3BucketName?: string;
+  s3KeyPrefix?: string;
+  sessionKmsKeyArn?: string;
+}): PolicyDocument {
+  const { logGroupArn, s3BucketName, s3KeyPrefix, sessionKmsKeyArn } = destinations;
+  const statements: PolicyStatement[] = [];
+
+  if (logGroupArn) {
+    statements.push(
+      {
+        sid: 'WriteSessionLogs',
+        effect: 'Allow',
+        actions: ['logs:CreateLogStream', 'logs:PutLogEvents', 'logs:DescribeLogStreams'],
+        resources: [logGroupArn, `${logGroupArn}:*`],
+      },
+      {
+        // The agent checks that the log group is encrypted before streaming to it
+        sid: 'CheckLogGroupEncryption',
+        effect: 'Allow',
+        actions: 'logs:DescribeLogGroups',
+        resources: '*',
+      }
+    );
+  }
+
+  if (s3BucketName) {
+    statements.push(
+      {
+        sid: 'WriteSessionTranscripts',
+        effect: 'Allow',
+        actions: 's3:PutObject',
+        resources: [`arn:aws:s3:::${s3BucketName}/${s3KeyPrefix}/*`],
+      },
+      {
+        sid: 'CheckBucketEncryption',
+        effect: 'Allow',
+        actions: 's3:GetEncryptionConfiguration',
+        resources: [`arn:aws:s3:::${s3BucketName}`],
+      }
+    );
   }
 
-  // Private subnets start from .10.0/24 (leaving gap for expansion)
-  for (let i = 0; i < azCount; i++) {
-    privateSubnets.push(`${baseOctets[0]}.${baseOctets[1]}.${10 + i}.0/24`);
+  if (sessionKmsKeyArn) {
+    statements.push({
+      sid: 'DecryptSessionData',
+      effect: 'Allow',
+      actions: 'kms:Decrypt',
+      resources: [sessionKmsKeyArn],
+    });
   }
 
-  return { publicSubnets, privateSubnets };
+  return {
+    version: '2012-10-17',
+    statements,
+  };
 }
 
 /**
- * Security groups default rules for VPC
+ * Default gateway endpoint policy: any action, but only for principals in this account
+ */
+export function createAccountScopedEndpointPolicy(accountId: string): PolicyDocument {
+  return {
+    version: '2012-10-17',
+    statements: [
+      {
+        sid: 'AllowAccountPrincipalsOnly',
+        effect: 'Allow',
+        actions: '*',
+        resources: '*',
+        principals: [{ type: 'AWS', identifiers: '*' }],
+        conditions: {
+          StringEquals: {
+            'aws:PrincipalAccount': accountId,
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Rules kept on the VPC default security group
+ * Resources that fall back to the default group get no inbound or outbound access
  */
 export const SECURITY_GROUP_DEFAULTS = {
   // Block all inbound traffic by default
   defaultIngressRules: [],
 
-  // Allow all outbound traffic (can be restricted per application)
-  defaultEgressRules: [
-    {
-      protocol: '-1',
-      fromPort: 0,
-      toPort: 0,
-      cidrBlocks: ['0.0.0.0/0'],
-    },
-  ],
+  // Block all outbound traffic by default
+  defaultEgressRules: [],
+} as const;
+
+/**
+ * Resource name of a security group rule: its name, or its description in lowercase with hyphens
+ */
+export function securityGroupRuleName(rule: SecurityGroupRuleConfig): string {
+  return (
+    rule.name ??
+    rule.description
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+  );
+}
+
+/**
+ * Validates security group definitions and the references between them
+ */
+export function validateSecurityGroups(groups: Readonly<Record<string, SecurityGroupConfig>>): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (Object.keys(groups).length === 0) {
+    errors.push('At least one security group is required');
+  }
+
+  for (const [groupName, group] of Object.entries(groups)) {
+    if (!/^[a-z0-9-]+$/.test(groupName)) {
+      errors.push(
+        `Security group name '${groupName}' can only contain lowercase letters, numbers, and hyphens`
+      );
+    }
+
+    const directions = [
+      ['ingress', group.ingress ?? []],
+      ['egress', group.egress ?? []],
+    ] as const;
+
+    for (const [direction, rules] of directions) {
+      const ruleNames = new Set<string>();
+
+      rules.forEach((rule, i) => {
+        const label = `Security group '${groupName}' ${direction} rule ${i}`;
+
+        if (!rule.description) {
+          errors.push(`${label} needs a description`);
+        }
+
+        // Rule resources are named after the rule, so names must be usable and unique
+        const ruleName = securityGroupRuleName(rule);
+        if (rule.name !== undefined && !/^[a-z0-9-]+$/.test(rule.name)) {
+          errors.push(
+            `${label} name '${rule.name}' can only contain lowercase letters, numbers, and hyphens`
+          );
+        } else if (rule.description && !ruleName) {
+          errors.push(
+            `${label} has no letters or numbers in its description to be named after, set name`
+          );
+        } else if (ruleNames.has(ruleName)) {
+          errors.push(`${label} is named '${ruleName}' like another rule, set a unique name`);
+        }
+        if (ruleName) {
+          ruleNames.add(ruleName);
+        }
+
+        const peers = [
+          rule.cidrBlock,
+          rule.ipv6CidrBlock,
+          rule.prefixListId,
+          rule.securityGroup,
+          rule.securityGroupId,
+          rule.self || undefined,
+        ].filter(peer => peer !== undefined);
+        if (peers.length !== 1) {
+          errors.push(
+            `${label} must set exactly one of cidrBlock, ipv6CidrBlock, prefixListId, securityGroup, securityGroupId, or self`
+          );
+        }
+
+        if (rule.securityGroup !== undefined && !(rule.securityGroup in groups)) {
+          errors.push(`${label} references unknown security group '${rule.securityGroup}'`);
+        }
+
+        switch (rule.protocol) {
+          case 'tcp':
+          case 'udp': {
+            const fromPort = rule.fromPort;
+            const toPort = rule.toPort ?? fromPort;
+            const isPort = (port: number | undefined): boolean =>
+              port !== undefined && Number.isInteger(port) && port >= 0 && port <= 65535;
+            if (!isPort(fromPort) || !isPort(toPort) || toPort! < fromPort!) {
+              errors.push(`${label} needs a valid port range (0-65535)`);
+            }
+            break;
+          }
+          case 'icmp':
+          case 'icmpv6':
+            break;
+          case 'all':
+            if (rule.fromPort !== undefined || rule.toPort !== undefined) {
+              errors.push(`${label} sets ports, which do not apply to protocol 'all'`);
+            }
+            break;
+          default:
+            errors.push(`${label} has invalid protocol '${rule.protocol}'`);
+        }
+      });
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Network ACL limits and the port range clients use for return traffic
+ */
+export const NETWORK_ACL_DEFAULTS = {
+  minRuleNumber: 1,
+  maxRuleNumber: 32766,
+  ephemeralPorts: { fromPort: 1024, toPort: 65535 },
 } as const;
+
+/**
+ * Default network ACL rules for a subnet tier
+ *
+ * - `igw`: HTTP/HTTPS and return traffic from anywhere, everything from the VPC
+ * - `nat`: return traffic from anywhere, everything from the VPC
+ * - `none`: traffic to and from the VPC, and HTTPS to gateway endpoint services
+ *
+ * Every tier also exchanges all traffic with its connected networks. IPv6 VPCs get a matching
+ * IPv6 rule numbered one above each IPv4 rule.
+ *
+ * @param routing - Routing mode of the tier
+ * @param vpcCidr - The VPC CIDR block
+ * @param vpcIpv6Cidr - The VPC IPv6 CIDR block (IPv6 VPCs only)
+ * @param connections - Networks outside the VPC the tier talks to
+ */
+export function createDefaultNetworkAclRules(
+  routing: SubnetRouting,
+  vpcCidr: string,
+  vpcIpv6Cidr?: string,
+  connections: NetworkAclConnections = {}
+): Required<NetworkAclConfig> {
+  const withIpv6 = (
+    rule: Omit<NetworkAclRuleConfig, 'cidrBlock' | 'ipv6CidrBlock'>,
+    cidrBlock: string,
+    ipv6CidrBlock: string | undefined
+  ): NetworkAclRuleConfig[] => [
+    { ...rule, cidrBlock },
+    ...(ipv6CidrBlock === undefined
+      ? []
+      : [{ ...rule, ruleNumber: rule.ruleNumber + 1, ipv6CidrBlock }]),
+  ];
+  const anywhereIpv6 = vpcIpv6Cidr === undefined ? undefined : '::/0';
+
+  const intraVpc = withIpv6(
+    { ruleNumber: 100, action: 'allow', protocol: 'all' },
+    vpcCidr,
+    vpcIpv6Cidr
+  );
+  const connected = (connections.connectedCidrs ?? []).map(
+    (cidrBlock, i): NetworkAclRuleConfig => ({
+      ruleNumber: 300 + i,
+      action: 'allow',
+      protocol: 'all',
+      cidrBlock,
+    })
+  );
+
+  if (routing === 'none') {
+    // Gateway endpoints are reached on public service addresses, not through the VPC
+    const serviceCidrs = connections.serviceCidrs ?? [];
+    const toServices = serviceCidrs.map((cidrBlock, i): NetworkAclRuleConfig => ({
+      ruleNumber: 400 + i,
+      action: 'allow',
+      protocol: 'tcp',
+      fromPort: 443,
+      cidrBlock,
+    }));
+    const fromServices = serviceCidrs.map((cidrBlock, i): NetworkAclRuleConfig => ({
+      ruleNumber: 400 + i,
+      action: 'allow',
+      protocol: 'tcp',
+      ...NETWORK_ACL_DEFAULTS.ephemeralPorts,
+      cidrBlock,
+    }));
+    return {
+      ingress: [...intraVpc, ...connected, ...fromServices],
+      egress: [...intraVpc, ...connected, ...toServices],
+    };
+  }
+
+  // Network ACLs are stateless, so responses to outbound connections need their own rules
+  const returnTraffic = [
+    ...withIpv6(
+      { ruleNumber: 200, action: 'allow', protocol: 'tcp', ...NETWORK_ACL_DEFAULTS.ephemeralPorts },
+      '0.0.0.0/0',
+      anywhereIpv6
+    ),
+    ...withIpv6(
+      { ruleNumber: 210, action: 'allow', protocol: 'udp', ...NETWORK_ACL_DEFAULTS.ephemeralPorts },
+      '0.0.0.0/0',
+      anywhereIpv6
+    ),
+  ];
+  const allOutbound = withIpv6(
+    { ruleNumber: 100, action: 'allow', protocol: 'all' },
+    '0.0.0.0/0',
+    anywhereIpv6
+  );
+
+  if (routing === 'nat') {
+    return { ingress: [...intraVpc, ...returnTraffic, ...connected], egress: allOutbound };
+  }
+
+  return {
+    ingress: [
+      ...intraVpc,
+      ...withIpv6(
+        { ruleNumber: 110, action: 'allow', protocol: 'tcp', fromPort: 443 },
+        '0.0.0.0/0',
+        anywhereIpv6
+      ),
+      ...withIpv6(
+        { ruleNumber: 120, action: 'allow', protocol: 'tcp', fromPort: 80 },
+        '0.0.0.0/0',
+        anywhereIpv6
+      ),
+      ...returnTraffic,
+      ...connected,
+    ],
+    egress: allOutbound,
+  };
+}
+
+/**
+ * Network ACL rules for firewall subnets
+ * The firewall filters the traffic it forwards, so the ACL lets everything through
+ */
+export function createFirewallNetworkAclRules(): Required<NetworkAclConfig> {
+  const allTraffic: NetworkAclRuleConfig[] = [
+    { ruleNumber: 100, action: 'allow', protocol: 'all', cidrBlock: '0.0.0.0/0' },
+  ];
+  return { ingress: allTraffic, egress: allTraffic };
+}
+
+/**
+ * Validates the network ACL rules of a subnet tier
+ */
+export function validateNetworkAcl(
+  tierName: string,
+  config: NetworkAclConfig
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const { minRuleNumber, maxRuleNumber } = NETWORK_ACL_DEFAULTS;
+
+  const directions = [
+    ['ingress', config.ingress ?? []],
+    ['egress', config.egress ?? []],
+  ] as const;
+
+  for (const [direction, rules] of directions) {
+    const label = `'${tierName}' ${direction}`;
+    const ruleNumbers = new Set<number>();
+
+    for (const rule of rules) {
+      if (
+        !Number.isInteger(rule.ruleNumber) ||
+        rule.ruleNumber < minRuleNumber ||
+        rule.ruleNumber > maxRuleNumber
+      ) {
+        errors.push(
+          `Network ACL rule number ${rule.ruleNumber} in ${label} must be between ${minRuleNumber} and ${maxRuleNumber}`
+        );
+      }
+      if (ruleNumbers.has(rule.ruleNumber)) {
+        errors.push(
+          `Network ACL rule number ${rule.ruleNumber} is used more than once in ${label}`
+        );
+      }
+      ruleNumbers.add(rule.ruleNumber);
+
+      if (!['allow', 'deny'].includes(rule.action)) {
+        errors.push(
+          `Network ACL rule ${rule.ruleNumber} in ${label} has invalid action '${rule.action}'`
+        );
+      }
+
+      if ((rule.cidrBlock === undefined) === (rule.ipv6CidrBlock === undefined)) {
+        errors.push(
+          `Network ACL rule ${rule.ruleNumber} in ${label} must set exactly one of cidrBlock or ipv6CidrBlock`
+        );
+      }
+      try {
+        if (rule.cidrBlock !== undefined) {
+          parseIpv4Cidr(rule.cidrBlock);
+        }
+        if (rule.ipv6CidrBlock !== undefined) {
+          parseIpv6Cidr(rule.ipv6CidrBlock);
+        }
+      } catch (error) {
+        errors.push(`Network ACL rule ${rule.ruleNumber} in ${label}: ${(error as Error).message}`);
+      }
+
+      const hasPorts = rule.fromPort !== undefined || rule.toPort !== undefined;
+      const hasIcmp = rule.icmpType !== undefined || rule.icmpCode !== undefined;
+
+      if (rule.protocol === 'tcp' || rule.protocol === 'udp') {
+        const fromPort = rule.fromPort;
+        const toPort = rule.toPort ?? fromPort;
+        const isPort = (port: number | undefined): boolean =>
+          port !== undefined && Number.isInteger(port) && port >= 0 && port <= 65535;
+
+        if (!isPort(fromPort) || !isPort(toPort) || toPort! < fromPort!) {
+          errors.push(
+            `Network ACL rule ${rule.ruleNumber} in ${label} needs a valid port range (0-65535)`
+          );
+        }
+        if (hasIcmp) {
+          errors.push(
+            `Network ACL rule ${rule.ruleNumber} in ${label} sets ICMP fields on ${rule.protocol}`
+          );
+        }
+      } else if (rule.protocol === 'icmp' || rule.protocol === 'all') {
+        if (hasPorts) {
+          errors.push(
+            `Network ACL rule ${rule.ruleNumber} in ${label} sets ports, which only apply to tcp and udp`
+          );
+        }
+        if (hasIcmp && rule.protocol === 'all') {
+          errors.push(`Network ACL rule ${rule.ruleNumber} in ${label} sets ICMP fields on all`);
+        }
+      } else {
+        errors.push(
+          `Network ACL rule ${rule.ruleNumber} in ${label} has invalid protocol '${rule.protocol}'`
+        );
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
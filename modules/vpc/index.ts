@@ -3,8 +3,21 @@
  *
  * Provides a secure, production-ready VPC with:
  * - Public/private subnets across multiple AZs
- * - NAT Gateway for secure outbound access
+ * - Configurable subnet tiers (public, private, isolated, custom)
+ * - Optional IPv6 dual-stack
+ * - VPC Flow Logs enabled by default
+ * - Gateway and interface VPC endpoints
+ * - Transit Gateway attachment for hub-and-spoke networks
+ * - VPC peering across regions and accounts
+ * - Operator access through Client VPN or Session Manager, without SSH
+ * - Private hosted zone, Resolver endpoints and DNS query logging
+ * - Network Firewall inspection with domain allow-lists and Suricata rules
+ * - Lookup mode to adopt existing VPCs without managing them
+ * - NAT Gateway (or low-cost NAT instance) for secure outbound access
  * - Internet Gateway for public resources
+ * - Per-tier network ACLs with secure default rules
+ * - Default security group and network ACL locked down
+ * - Security groups with named rule references and no default egress
  * - Proper routing and security defaults
  *
  * @example
@@ -28,11 +41,111 @@
 // Export the main VPC component
 export { VpcComponent } from './vpc';
 
+// Export the security group component
+export { SecurityGroupComponent } from './security-group';
+
+// Export the VPC peering component
+export { VpcPeeringComponent } from './peering';
+
+// Export the operator access component
+export { VpcAccessComponent } from './access';
+
 // Export types for consumers
-export type { VpcArgs, VpcOutputs, SubnetConfig } from './types';
+export type {
+  VpcArgs,
+  VpcOutputs,
+  ExistingVpcOutputs,
+  VpcLookupOptions,
+  NatMode,
+  NatInstanceConfig,
+  SubnetConfig,
+  SubnetRouting,
+  SubnetTierConfig,
+  NetworkAclConfig,
+  NetworkAclRuleConfig,
+  SecurityGroupArgs,
+  SecurityGroupOutputs,
+  SecurityGroupConfig,
+  SecurityGroupRuleConfig,
+  SecurityGroupRuleProtocol,
+  VpcFlowLogConfig,
+  GatewayEndpointService,
+  VpcEndpointsConfig,
+  TransitGatewayConfig,
+  VpcDnsConfig,
+  DnsForwardingRuleConfig,
+  DnsQueryLoggingConfig,
+  NetworkFirewallConfig,
+  NetworkFirewallLoggingConfig,
+  NetworkFirewallLogType,
+  VpcPeeringArgs,
+  VpcPeeringSide,
+  VpcPeeringOutputs,
+  VpcAccessArgs,
+  VpcAccessOutputs,
+  ClientVpnConfig,
+  SessionManagerConfig,
+  SessionLoggingConfig,
+  AccessLogConfig,
+  Ipv4Cidr,
+  Ipv6Cidr,
+  SubnetPlanRequest,
+  SubnetPlan,
+  Ipv6SubnetPlanRequest,
+  Ipv6SubnetPlan,
+} from './types';
 
 // Export defaults for advanced users
-export { VPC_DEFAULTS, DEFAULT_TAGS, calculateSubnetCidrs } from './defaults';
+export {
+  VPC_DEFAULTS,
+  DEFAULT_TAGS,
+  DEFAULT_SUBNET_TIERS,
+  VPC_LOOKUP_DEFAULTS,
+  SUBNET_TIER_DEFAULTS,
+  FLOW_LOG_DEFAULTS,
+  VPC_ENDPOINT_DEFAULTS,
+  DNS_DEFAULTS,
+  NETWORK_FIREWALL_DEFAULTS,
+  SECURITY_GROUP_DEFAULTS,
+  NETWORK_ACL_DEFAULTS,
+  NAT_INSTANCE_DEFAULTS,
+  VPC_ACCESS_DEFAULTS,
+  calculateSubnetCidrs,
+  AMAZON_IPV6_PREFIX_LENGTH,
+  planSubnetTiers,
+  planIpv6SubnetTiers,
+  validateSubnetTiers,
+  validateAvailabilityZoneSelection,
+  selectAvailabilityZones,
+  validateFlowLogConfig,
+  validateVpcEndpointsConfig,
+  validateTransitGatewayConfig,
+  validateDnsConfig,
+  validateNetworkFirewallConfig,
+  validateVpcPeering,
+  validateVpcAccess,
+  createSessionLoggingPolicy,
+  validateNetworkAcl,
+  validateSecurityGroups,
+  createDefaultNetworkAclRules,
+  createFirewallNetworkAclRules,
+} from './defaults';
+
+// Export CIDR utilities and the subnet planner
+export {
+  SUBNET_LIMITS,
+  parseIpv4Cidr,
+  formatIpv4Cidr,
+  cidrsOverlap,
+  cidrContains,
+  prefixLengthForHostCount,
+  planSubnets,
+  IPV6_SUBNET_LIMITS,
+  parseIpv6Cidr,
+  formatIpv6Cidr,
+  ipv6SubnetCidr,
+  planIpv6Subnets,
+} from './cidr';
 
 // Convenience re-export for common use case
 export { VpcComponent as Vpc } from './vpc';
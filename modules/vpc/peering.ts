@@ -0,0 +1,181 @@
+/**
+ * VPC Peering Component Implementation
+ * Connects two VPCs, possibly in different regions or accounts, and routes between them
+ */
+
+import * as aws from '@pulumi/aws';
+import * as pulumi from '@pulumi/pulumi';
+import { VpcPeeringArgs, VpcPeeringOutputs, VpcPeeringSide } from './types';
+import { DEFAULT_TAGS, validateVpcPeering } from './defaults';
+
+/**
+ * VPC Peering Component - Peers two VPCs and adds routes on both sides
+ *
+ * Features:
+ * - Requester/accepter pair that works across regions and accounts
+ * - Each side is managed through its own provider
+ * - DNS resolution of the other VPC's hostnames to private IP addresses
+ * - Routes to the other VPC's CIDR (and IPv6 CIDR, when both are dual-stack)
+ * - Rejects overlapping CIDRs before anything is created
+ */
+export class VpcPeeringComponent extends pulumi.ComponentResource implements VpcPeeringOutputs {
+  public readonly peeringConnection: aws.ec2.VpcPeeringConnection;
+  public readonly peeringConnectionAccepter: aws.ec2.VpcPeeringConnectionAccepter;
+  public readonly requesterRoutes: readonly aws.ec2.Route[];
+  public readonly accepterRoutes: readonly aws.ec2.Route[];
+  public readonly peeringConnectionId: pulumi.Output<string>;
+
+  /** Component name for resource naming */
+  private readonly componentName: string;
+
+  constructor(name: string, args: VpcPeeringArgs, opts?: pulumi.ComponentResourceOptions) {
+    super('modinfra:vpc:VpcPeeringComponent', name, {}, opts);
+
+    // Validate CIDRs and route tiers
+    const validation = validateVpcPeering(args);
+    if (!validation.isValid) {
+      throw new Error(`Invalid VPC peering: ${validation.errors.join(', ')}`);
+    }
+
+    this.componentName = name;
+    const tags = { ...DEFAULT_TAGS, ...args.tags };
+
+    const { requester, accepter } = args;
+    const requesterOpts = {
+      parent: this,
+      ...(requester.provider && { provider: requester.provider }),
+    };
+    const accepterOpts = {
+      parent: this,
+      ...(accepter.provider && { provider: accepter.provider }),
+    };
+
+    // The requester has to name the accepter's account and region explicitly
+    const accepterAccountId = aws.getCallerIdentityOutput({}, accepterOpts).accountId;
+    const accepterRegion = aws.getRegionOutput({}, accepterOpts).name;
+
+    this.peeringConnection = new aws.ec2.VpcPeeringConnection(
+      `${name}-peering`,
+      {
+        vpcId: requester.vpc.vpcId,
+        peerVpcId: accepter.vpc.vpcId,
+        peerOwnerId: accepterAccountId,
+        peerRegion: accepterRegion,
+        tags: {
+          ...tags,
+          Name: `${name}-peering`,
+          Side: 'requester',
+        },
+      },
+      requesterOpts
+    );
+
+    this.peeringConnectionId = this.peeringConnection.id;
+
+    // Accept with the accepter's provider so cross-account peerings need no manual step
+    this.peeringConnectionAccepter = new aws.ec2.VpcPeeringConnectionAccepter(
+      `${name}-peering-accepter`,
+      {
+        vpcPeeringConnectionId: this.peeringConnection.id,
+        autoAccept: true,
+        tags: {
+          ...tags,
+          Name: `${name}-peering`,
+          Side: 'accepter',
+        },
+      },
+      accepterOpts
+    );
+
+    // Each side can only change its own options, and only once the peering is active
+    if (args.allowRemoteVpcDnsResolution ?? true) {
+      new aws.ec2.PeeringConnectionOptions(
+        `${name}-requester-options`,
+        {
+          vpcPeeringConnectionId: this.peeringConnection.id,
+          requester: { allowRemoteVpcDnsResolution: true },
+        },
+        { ...requesterOpts, dependsOn: [this.peeringConnectionAccepter] }
+      );
+
+      new aws.ec2.PeeringConnectionOptions(
+        `${name}-accepter-options`,
+        {
+          vpcPeeringConnectionId: this.peeringConnectionAccepter.vpcPeeringConnectionId,
+          accepter: { allowRemoteVpcDnsResolution: true },
+        },
+        accepterOpts
+      );
+    }
+
+    // Route each side to the other
+    this.requesterRoutes = this.createRoutes('requester', requester, accepter);
+    this.accepterRoutes = this.createRoutes('accepter', accepter, requester);
+
+    // Register outputs
+    this.registerOutputs({
+      peeringConnectionId: this.peeringConnectionId,
+    });
+  }
+
+  /**
+   * Route the other VPC's CIDRs through the peering from the selected tiers of one side
+   */
+  private createRoutes(
+    sideName: string,
+    side: VpcPeeringSide,
+    otherSide: VpcPeeringSide
+  ): aws.ec2.Route[] {
+    const name = this.componentName;
+    const routeTables = side.vpc.routeTables.byTier;
+    // Isolated tiers stay inside their VPC unless selected explicitly
+    const routeTiers =
+      side.routeTiers ??
+      Object.keys(routeTables).filter(
+        tierName =>
+          !routeTables[tierName]!.some(routeTable =>
+            side.vpc.routeTables.isolated.includes(routeTable)
+          )
+      );
+    const otherIpv6CidrBlock =
+      side.vpc.ipv6CidrBlock !== undefined ? otherSide.vpc.ipv6CidrBlock : undefined;
+    const opts = {
+      parent: this,
+      dependsOn: [this.peeringConnectionAccepter],
+      ...(side.provider && { provider: side.provider }),
+    };
+
+    const routes: aws.ec2.Route[] = [];
+    for (const tierName of routeTiers) {
+      routeTables[tierName]!.forEach((routeTable, i) => {
+        routes.push(
+          new aws.ec2.Route(
+            `${name}-${sideName}-${tierName}-route-${i}`,
+            {
+              routeTableId: routeTable.id,
+              destinationCidrBlock: otherSide.vpc.cidrBlock,
+              vpcPeeringConnectionId: this.peeringConnection.id,
+            },
+            opts
+          )
+        );
+
+        if (otherIpv6CidrBlock !== undefined) {
+          routes.push(
+            new aws.ec2.Route(
+              `${name}-${sideName}-${tierName}-route-ipv6-${i}`,
+              {
+                routeTableId: routeTable.id,
+                destinationIpv6CidrBlock: otherIpv6CidrBlock,
+                vpcPeeringConnectionId: this.peeringConnection.id,
+              },
+              opts
+            )
+          );
+        }
+      });
+    }
+
+    return routes;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Security Group Component Implementation
+ * Creates security groups from typed rules that can reference each other by name
+ */
+
+import * as aws from '@pulumi/aws';
+import * as pulumi from '@pulumi/pulumi';
+import { SecurityGroupArgs, SecurityGroupOutputs, SecurityGroupRuleConfig } from './types';
+import { DEFAULT_TAGS, securityGroupRuleName, validateSecurityGroups } from './defaults';
+
+/**
+ * Security Group Component - Creates a set of security groups in a VPC
+ *
+ * Features:
+ * - No inbound or outbound traffic unless a rule allows it
+ * - Rules reference other groups in the component by name, CIDRs, prefix lists or the group itself
+ * - Every rule is its own resource named after the rule, so rules never overwrite each other
+ * - All resources tagged for auditing and cost tracking
+ */
+export class SecurityGroupComponent
+  extends pulumi.ComponentResource
+  implements SecurityGroupOutputs
+{
+  public readonly securityGroups: Readonly<Record<string, aws.ec2.SecurityGroup>>;
+  public readonly securityGroupIds: Readonly<Record<string, pulumi.Output<string>>>;
+  public readonly ingressRules: readonly aws.vpc.SecurityGroupIngressRule[];
+  public readonly egressRules: readonly aws.vpc.SecurityGroupEgressRule[];
+
+  /** Default tags for all resources */
+  private readonly defaultTags: Record<string, pulumi.Input<string>>;
+
+  constructor(name: string, args: SecurityGroupArgs, opts?: pulumi.ComponentResourceOptions) {
+    super('modinfra:vpc:SecurityGroupComponent', name, {}, opts);
+
+    // Validate groups and the references between them
+    const validation = validateSecurityGroups(args.groups);
+    if (!validation.isValid) {
+      throw new Error(`Invalid security groups: ${validation.errors.join(', ')}`);
+    }
+
+    const tags = { ...DEFAULT_TAGS, ...args.tags };
+    this.defaultTags = tags as Record<string, pulumi.Input<string>>;
+
+    // Create every group before any rule so rules can reference groups in any order
+    // The provider removes the allow-all egress rule AWS adds to new groups
+    const securityGroups: Record<string, aws.ec2.SecurityGroup> = {};
+    for (const [groupName, group] of Object.entries(args.groups)) {
+      securityGroups[groupName] = new aws.ec2.SecurityGroup(
+        `${name}-${groupName}`,
+        {
+          vpcId: args.vpcId,
+          description: group.description ?? `${name} ${groupName}`,
+          revokeRulesOnDelete: true,
+          tags: {
+            ...tags,
+            ...group.tags,
+            Name: `${name}-${groupName}`,
+          },
+        },
+        { parent: this }
+      );
+    }
+
+    this.securityGroups = securityGroups;
+    this.securityGroupIds = Object.fromEntries(
+      Object.entries(securityGroups).map(([groupName, group]) => [groupName, group.id])
+    );
+
+    // Create each rule as its own resource
+    const ingressRules: aws.vpc.SecurityGroupIngressRule[] = [];
+    const egressRules: aws.vpc.SecurityGroupEgressRule[] = [];
+
+    for (const [groupName, group] of Object.entries(args.groups)) {
+      for (const rule of group.ingress ?? []) {
+        ingressRules.push(
+          new aws.vpc.SecurityGroupIngressRule(
+            `${name}-${groupName}-ingress-${securityGroupRuleName(rule)}`,
+            this.createRuleArgs(groupName, rule),
+            { parent: this }
+          )
+        );
+      }
+
+      for (const rule of group.egress ?? []) {
+        egressRules.push(
+          new aws.vpc.SecurityGroupEgressRule(
+            `${name}-${groupName}-egress-${securityGroupRuleName(rule)}`,
+            this.createRuleArgs(groupName, rule),
+            { parent: this }
+          )
+        );
+      }
+    }
+
+    this.ingressRules = ingressRules;
+    this.egressRules = egressRules;
+
+    // Register outputs
+    this.registerOutputs({
+      securityGroupIds: this.securityGroupIds,
+    });
+  }
+
+  /**
+   * Resolve a rule's peer and protocol into rule resource arguments
+   */
+  private createRuleArgs(
+    groupName: string,
+    rule: SecurityGroupRuleConfig
+  ): aws.vpc.SecurityGroupIngressRuleArgs {
+    const groupId = this.securityGroups[groupName]!.id;
+    const referencedSecurityGroupId = rule.self
+      ? groupId
+      : rule.securityGroup !== undefined
+        ? this.securityGroups[rule.securityGroup]!.id
+        : rule.securityGroupId;
+
+    const ports =
+      rule.protocol === 'all'
+        ? {}
+        : rule.protocol === 'tcp' || rule.protocol === 'udp'
+          ? { fromPort: rule.fromPort!, toPort: rule.toPort ?? rule.fromPort! }
+          : { fromPort: rule.fromPort ?? -1, toPort: rule.toPort ?? -1 };
+
+    return {
+      securityGroupId: groupId,
+      description: rule.description,
+      ipProtocol: rule.protocol === 'all' ? '-1' : rule.protocol,
+      ...ports,
+      ...(rule.cidrBlock !== undefined && { cidrIpv4: rule.cidrBlock }),
+      ...(rule.ipv6CidrBlock !== undefined && { cidrIpv6: rule.ipv6CidrBlock }),
+      ...(rule.prefixListId !== undefined && { prefixListId: rule.prefixListId }),
+      ...(referencedSecurityGroupId !== undefined && { referencedSecurityGroupId }),
+      tags: this.defaultTags,
+    };
+  }
+}
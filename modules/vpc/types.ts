@@ -3,6 +3,7 @@
  */
 
 import { Input } from '@pulumi/pulumi';
+import { PolicyDocument } from '../iam/types';
 
 /**
  * Configuration options for the VPC component
@@ -38,16 +39,1063 @@ export interface VpcArgs {
    */
   readonly multiAzNatGateway?: Input<boolean>;
 
+  /**
+   * How private tiers reach the internet when NAT is enabled
+   * - `gateway`: managed NAT gateways
+   * - `instance`: self-healing fck-nat instances, far cheaper for development environments
+   * `multiAzNatGateway` also controls whether one NAT instance runs per AZ
+   * @default "gateway"
+   */
+  readonly natMode?: NatMode;
+
+  /**
+   * NAT instance settings (instance mode only)
+   */
+  readonly natInstance?: NatInstanceConfig;
+
   /**
    * Number of availability zones to use
    * @default 2
    */
-  readonly availabilityZoneCount?: Input<number>;
+  readonly availabilityZoneCount?: Input<number>;
+
+  /**
+   * Availability zone names to place subnets in, in order (e.g. ["eu-west-1a", "eu-west-1c"])
+   * Sets the number of AZs; cannot be combined with availabilityZoneIds
+   */
+  readonly availabilityZones?: readonly string[];
+
+  /**
+   * Availability zone IDs to place subnets in, in order (e.g. ["use1-az1", "use1-az4"])
+   * Unlike names, IDs refer to the same physical zone in every account
+   */
+  readonly availabilityZoneIds?: readonly string[];
+
+  /**
+   * Availability zone names or IDs never to use (e.g. zones lacking a needed instance type)
+   */
+  readonly excludeAvailabilityZones?: readonly string[];
+
+  /**
+   * Whether to run the VPC dual-stack with an Amazon-provided IPv6 /56
+   * Each subnet gets a /64, public tiers route IPv6 through the Internet Gateway and
+   * private tiers through an egress-only Internet Gateway
+   * @default false
+   */
+  readonly enableIpv6?: boolean;
+
+  /**
+   * Whether to adopt the VPC default security group and remove all its rules
+   * @default true
+   */
+  readonly restrictDefaultSecurityGroup?: boolean;
+
+  /**
+   * Whether to adopt the VPC default network ACL and remove all its rules
+   * Subnets always use their tier's network ACL, so this only affects the unused default
+   * @default true
+   */
+  readonly restrictDefaultNetworkAcl?: boolean;
+
+  /**
+   * Subnet tiers to create, each with one subnet per AZ
+   * Tiers are planned in order, so append new tiers to keep existing subnets in place
+   * @default public (igw) and private (nat) tiers using the /24 layout
+   */
+  readonly subnetTiers?: readonly SubnetTierConfig[];
+
+  /**
+   * VPC Flow Logs configuration
+   * @default enabled, all traffic to a KMS-encrypted CloudWatch log group
+   */
+  readonly flowLogs?: VpcFlowLogConfig;
+
+  /**
+   * Gateway and interface VPC endpoints for private access to AWS services
+   */
+  readonly vpcEndpoints?: VpcEndpointsConfig;
+
+  /**
+   * Attachment to an existing Transit Gateway
+   */
+  readonly transitGateway?: TransitGatewayConfig;
+
+  /**
+   * Networks connected to the VPC other than Transit Gateway destinations, such as peered VPCs
+   * The default network ACL of every tier allows all traffic from them
+   * @default []
+   */
+  readonly connectedCidrBlocks?: readonly string[];
+
+  /**
+   * Private hosted zone, Route 53 Resolver endpoints and DNS query logging
+   */
+  readonly dns?: VpcDnsConfig;
+
+  /**
+   * AWS Network Firewall inspecting traffic between the public tiers and the internet
+   */
+  readonly firewall?: NetworkFirewallConfig;
+
+  /**
+   * Custom tags to apply to all resources
+   */
+  readonly tags?: Input<Record<string, Input<string>>>;
+
+  /**
+   * Name prefix for all resources
+   */
+  readonly name: string;
+}
+
+/**
+ * How a subnet tier reaches the internet
+ * - `igw`: default route to the Internet Gateway (public)
+ * - `nat`: default route to a NAT gateway (private)
+ * - `none`: no route outside the VPC (isolated, e.g. databases)
+ */
+export type SubnetRouting = 'igw' | 'nat' | 'none';
+
+/**
+ * How private tiers reach the internet
+ */
+export type NatMode = 'gateway' | 'instance';
+
+/**
+ * NAT instance configuration
+ */
+export interface NatInstanceConfig {
+  /**
+   * Instance type, must match the AMI architecture
+   * @default "t4g.nano"
+   */
+  readonly instanceType?: string;
+
+  /**
+   * AMI ID of a fck-nat compatible image
+   * @default the latest fck-nat Amazon Linux 2023 arm64 AMI
+   */
+  readonly amiId?: Input<string>;
+}
+
+/**
+ * Configuration for a tier of subnets, one subnet per AZ
+ *
+ * Size the tier with `prefixLength` or `hostCount`, or pin it with `cidrBlocks`.
+ */
+export interface SubnetTierConfig {
+  /**
+   * Tier name, used in resource names and the `Type` tag (lowercase letters, digits, hyphens)
+   */
+  readonly name: string;
+
+  /**
+   * Routing mode for the tier
+   */
+  readonly routing: SubnetRouting;
+
+  /**
+   * Prefix length of each subnet in the tier
+   * @default 24
+   */
+  readonly prefixLength?: number;
+
+  /**
+   * Minimum number of usable hosts per subnet
+   */
+  readonly hostCount?: number;
+
+  /**
+   * Explicit CIDR blocks, one per AZ
+   */
+  readonly cidrBlocks?: readonly string[];
+
+  /**
+   * Whether instances launched in the tier get a public IP
+   * @default true for `igw` tiers, false otherwise
+   */
+  readonly mapPublicIpOnLaunch?: boolean;
+
+  /**
+   * Whether instances launched in the tier get an IPv6 address (IPv6 VPCs only)
+   * @default true
+   */
+  readonly assignIpv6AddressOnCreation?: boolean;
+
+  /**
+   * Explicit /64 indexes within the VPC IPv6 block, one per AZ (IPv6 VPCs only)
+   */
+  readonly ipv6SubnetIndexes?: readonly number[];
+
+  /**
+   * Network ACL rules for the tier
+   * Rules given for a direction replace the defaults for that direction
+   * @default secure defaults for the tier's routing mode
+   */
+  readonly networkAcl?: NetworkAclConfig;
+
+  /**
+   * Additional tags for the tier's subnets
+   */
+  readonly tags?: Record<string, Input<string>>;
+}
+
+/**
+ * A stateless network ACL rule
+ *
+ * Network ACLs do not track connections, so return traffic needs its own rule
+ * (usually the ephemeral port range 1024-65535).
+ */
+export interface NetworkAclRuleConfig {
+  /**
+   * Rule number (1-32766), rules are evaluated from the lowest number up
+   */
+  readonly ruleNumber: number;
+
+  /**
+   * Whether matching traffic is allowed or denied
+   */
+  readonly action: 'allow' | 'deny';
+
+  /**
+   * Protocol to match
+   */
+  readonly protocol: 'tcp' | 'udp' | 'icmp' | 'all';
+
+  /**
+   * IPv4 CIDR block to match (the source for ingress, the destination for egress)
+   */
+  readonly cidrBlock?: string;
+
+  /**
+   * IPv6 CIDR block to match, instead of `cidrBlock`
+   */
+  readonly ipv6CidrBlock?: string;
+
+  /**
+   * First port of the range (tcp and udp only)
+   */
+  readonly fromPort?: number;
+
+  /**
+   * Last port of the range (tcp and udp only)
+   * @default fromPort
+   */
+  readonly toPort?: number;
+
+  /**
+   * ICMP type, -1 for all types (icmp only)
+   * @default -1
+   */
+  readonly icmpType?: number;
+
+  /**
+   * ICMP code, -1 for all codes (icmp only)
+   * @default -1
+   */
+  readonly icmpCode?: number;
+}
+
+/**
+ * Network ACL rules for a subnet tier
+ */
+export interface NetworkAclConfig {
+  /**
+   * Inbound rules
+   */
+  readonly ingress?: readonly NetworkAclRuleConfig[];
+
+  /**
+   * Outbound rules
+   */
+  readonly egress?: readonly NetworkAclRuleConfig[];
+}
+
+/**
+ * Networks outside the VPC that the default network ACL rules of a tier allow
+ */
+export interface NetworkAclConnections {
+  /**
+   * Networks reached over Transit Gateway routes or peering; all traffic from them is allowed
+   */
+  readonly connectedCidrs?: readonly string[];
+
+  /**
+   * Address ranges of AWS services reached through gateway endpoints (isolated tiers only)
+   */
+  readonly serviceCidrs?: readonly string[];
+}
+
+/**
+ * VPC Flow Logs configuration
+ */
+export interface VpcFlowLogConfig {
+  /**
+   * Whether to capture flow logs
+   * @default true
+   */
+  readonly enabled?: boolean;
+
+  /**
+   * Where flow logs are delivered
+   * @default "cloud-watch-logs"
+   */
+  readonly destination?: 'cloud-watch-logs' | 's3';
+
+  /**
+   * Type of traffic to capture
+   * @default "ALL"
+   */
+  readonly trafficType?: 'ACCEPT' | 'REJECT' | 'ALL';
+
+  /**
+   * Custom flow log record format (e.g. "${version} ${srcaddr} ${dstaddr} ...")
+   * @default AWS default format
+   */
+  readonly logFormat?: Input<string>;
+
+  /**
+   * Maximum interval in seconds during which a flow is captured and aggregated
+   * @default 60
+   */
+  readonly maxAggregationInterval?: 60 | 600;
+
+  /**
+   * Log group retention in days (CloudWatch destination only)
+   * @default 365
+   */
+  readonly retentionInDays?: number;
+
+  /**
+   * Log group name (CloudWatch destination only)
+   * @default "/aws/vpc/flow-logs/<name>"
+   */
+  readonly logGroupName?: string;
+
+  /**
+   * KMS key ARN for log group encryption (CloudWatch destination only)
+   * A dedicated key with rotation enabled is created when omitted
+   */
+  readonly kmsKeyId?: Input<string>;
+
+  /**
+   * Destination bucket ARN, optionally with a key prefix (S3 destination only)
+   */
+  readonly s3BucketArn?: Input<string>;
+}
+
+/**
+ * AWS services reachable through gateway endpoints
+ */
+export type GatewayEndpointService = 's3' | 'dynamodb';
+
+/**
+ * VPC endpoints configuration
+ */
+export interface VpcEndpointsConfig {
+  /**
+   * Gateway endpoints, added to every private and isolated route table
+   * @default ["s3", "dynamodb"]
+   */
+  readonly gatewayEndpoints?: readonly GatewayEndpointService[];
+
+  /**
+   * Interface endpoint services (e.g. "ecr.api", "ecr.dkr", "sts", "ssm", "logs", "kms")
+   * @default []
+   */
+  readonly interfaceEndpoints?: readonly string[];
+
+  /**
+   * Subnet tier that hosts the interface endpoint network interfaces
+   * @default the first `nat` tier, otherwise the first `none` tier
+   */
+  readonly subnetTier?: string;
+
+  /**
+   * Whether interface endpoints use private DNS names
+   * @default true
+   */
+  readonly privateDnsEnabled?: boolean;
+
+  /**
+   * CIDR blocks allowed to reach interface endpoints over HTTPS
+   * @default the VPC CIDR block
+   */
+  readonly allowedCidrBlocks?: readonly string[];
+
+  /**
+   * Endpoint policies keyed by service name (e.g. { s3: {...}, sts: {...} })
+   * Gateway endpoints without a policy only allow principals from this account
+   */
+  readonly policies?: Readonly<Record<string, PolicyDocument>>;
+}
+
+/**
+ * Protocol matched by a security group rule
+ */
+export type SecurityGroupRuleProtocol = 'tcp' | 'udp' | 'icmp' | 'icmpv6' | 'all';
+
+/**
+ * A security group rule
+ *
+ * Each rule names exactly one peer: `cidrBlock`, `ipv6CidrBlock`, `prefixListId`,
+ * `securityGroup` (another group in the same component), `securityGroupId` or `self`.
+ */
+export interface SecurityGroupRuleConfig {
+  /**
+   * Name of the rule resource, unique among the group's rules in the same direction
+   * Renaming a rule replaces it
+   * @default the description in lowercase, with hyphens between words
+   */
+  readonly name?: string;
+
+  /**
+   * What the rule is for, shown in the console and audit tooling
+   */
+  readonly description: string;
+
+  /**
+   * Protocol to match
+   */
+  readonly protocol: SecurityGroupRuleProtocol;
+
+  /**
+   * First port of the range (tcp and udp), or the ICMP type (icmp and icmpv6)
+   */
+  readonly fromPort?: number;
+
+  /**
+   * Last port of the range (tcp and udp), or the ICMP code (icmp and icmpv6)
+   * @default fromPort for tcp and udp, -1 (all codes) for ICMP
+   */
+  readonly toPort?: number;
+
+  /**
+   * IPv4 CIDR block of the peer
+   */
+  readonly cidrBlock?: Input<string>;
+
+  /**
+   * IPv6 CIDR block of the peer
+   */
+  readonly ipv6CidrBlock?: Input<string>;
+
+  /**
+   * Managed prefix list ID of the peer (e.g. the S3 or CloudFront prefix list)
+   */
+  readonly prefixListId?: Input<string>;
+
+  /**
+   * Name of another group in the same component
+   */
+  readonly securityGroup?: string;
+
+  /**
+   * ID of a security group created elsewhere
+   */
+  readonly securityGroupId?: Input<string>;
+
+  /**
+   * Whether the peer is the group itself
+   */
+  readonly self?: boolean;
+}
+
+/**
+ * Configuration for a single security group
+ */
+export interface SecurityGroupConfig {
+  /**
+   * Group description
+   * @default "<component name> <group name>"
+   */
+  readonly description?: string;
+
+  /**
+   * Inbound rules
+   * @default no inbound traffic
+   */
+  readonly ingress?: readonly SecurityGroupRuleConfig[];
+
+  /**
+   * Outbound rules
+   * @default no outbound traffic
+   */
+  readonly egress?: readonly SecurityGroupRuleConfig[];
+
+  /**
+   * Additional tags for the group
+   */
+  readonly tags?: Record<string, Input<string>>;
+}
+
+/**
+ * Configuration options for the security group component
+ */
+export interface SecurityGroupArgs {
+  /**
+   * VPC the groups are created in
+   */
+  readonly vpcId: Input<string>;
+
+  /**
+   * Security groups keyed by name (lowercase letters, digits, hyphens)
+   * Rules can reference any group in the map by name
+   */
+  readonly groups: Readonly<Record<string, SecurityGroupConfig>>;
+
+  /**
+   * Custom tags to apply to all resources
+   */
+  readonly tags?: Input<Record<string, Input<string>>>;
+
+  /**
+   * Name prefix for all resources
+   */
+  readonly name: string;
+}
+
+/**
+ * Output properties of the security group component
+ */
+export interface SecurityGroupOutputs {
+  /**
+   * Security groups keyed by name
+   */
+  readonly securityGroups: Readonly<Record<string, import('@pulumi/aws').ec2.SecurityGroup>>;
+
+  /**
+   * Security group IDs keyed by name
+   */
+  readonly securityGroupIds: Readonly<Record<string, import('@pulumi/pulumi').Output<string>>>;
+
+  /**
+   * Inbound rules of all groups
+   */
+  readonly ingressRules: readonly import('@pulumi/aws').vpc.SecurityGroupIngressRule[];
+
+  /**
+   * Outbound rules of all groups
+   */
+  readonly egressRules: readonly import('@pulumi/aws').vpc.SecurityGroupEgressRule[];
+}
+
+/**
+ * Transit Gateway attachment configuration
+ */
+export interface TransitGatewayConfig {
+  /**
+   * ID of the Transit Gateway to attach to
+   */
+  readonly transitGatewayId: Input<string>;
+
+  /**
+   * Subnet tier that hosts the attachment, one subnet per AZ
+   * @default the first `nat` tier, otherwise the first `none` tier
+   */
+  readonly subnetTier?: string;
+
+  /**
+   * Destination CIDR blocks routed to the Transit Gateway (e.g. other spokes, on-premises)
+   * @default []
+   */
+  readonly destinationCidrBlocks?: readonly string[];
+
+  /**
+   * Tiers whose route tables get the Transit Gateway routes
+   * The default network ACLs of these tiers allow traffic from the destinations
+   * @default all tiers except isolated ones
+   */
+  readonly routeTiers?: readonly string[];
+
+  /**
+   * Keep both directions of a flow on the same AZ, required for stateful inspection appliances
+   * @default false
+   */
+  readonly applianceModeSupport?: boolean;
+
+  /**
+   * Transit Gateway route table to associate the attachment with
+   * The Transit Gateway's default association is turned off when set
+   */
+  readonly associationRouteTableId?: Input<string>;
+
+  /**
+   * Transit Gateway route tables to propagate the VPC CIDR to
+   * Propagations are named after the route table ID, so IDs only known at deploy time are given
+   * keyed by a name for the propagation instead. The Transit Gateway's default propagation is
+   * turned off when set
+   */
+  readonly propagationRouteTableIds?: readonly string[] | Readonly<Record<string, Input<string>>>;
+}
+
+/**
+ * Network Firewall log types
+ */
+export type NetworkFirewallLogType = 'ALERT' | 'FLOW';
+
+/**
+ * Network Firewall logging configuration
+ */
+export interface NetworkFirewallLoggingConfig {
+  /**
+   * Log types to deliver
+   * @default ["ALERT", "FLOW"]
+   */
+  readonly logTypes?: readonly NetworkFirewallLogType[];
+
+  /**
+   * Where logs are delivered
+   * @default "cloud-watch-logs"
+   */
+  readonly destination?: 'cloud-watch-logs' | 's3';
+
+  /**
+   * Log group retention in days (CloudWatch destination only)
+   * @default 365
+   */
+  readonly retentionInDays?: number;
+
+  /**
+   * KMS key ARN for log group encryption (CloudWatch destination only)
+   * The flow log or DNS query log key is reused when one was created, otherwise a dedicated key is created
+   */
+  readonly kmsKeyId?: Input<string>;
+
+  /**
+   * Destination bucket name (S3 destination only)
+   */
+  readonly s3BucketName?: Input<string>;
+
+  /**
+   * Key prefix inside the bucket, without a leading slash (S3 destination only)
+   * @default "network-firewall/<name>"
+   */
+  readonly s3Prefix?: string;
+}
+
+/**
+ * AWS Network Firewall configuration
+ */
+export interface NetworkFirewallConfig {
+  /**
+   * Dedicated `igw` tier hosting the firewall endpoints, one per AZ
+   * @default "firewall"
+   */
+  readonly subnetTier?: string;
+
+  /**
+   * Domains the VPC may reach over HTTP and TLS; a leading dot allows all subdomains
+   * (e.g. [".amazonaws.com", "github.com"])
+   * Other HTTP and TLS traffic from the VPC is dropped
+   */
+  readonly allowedDomains?: readonly string[];
+
+  /**
+   * Suricata-compatible rules evaluated after the domain allow-list
+   */
+  readonly suricataRules?: string;
+
+  /**
+   * Capacity of the Suricata rule group, which cannot be changed after creation
+   * @default 100
+   */
+  readonly suricataRuleCapacity?: number;
+
+  /**
+   * Action for traffic no rule passes: drop it, or let it through and raise an alert
+   * @default "drop"
+   */
+  readonly defaultAction?: 'drop' | 'alert';
+
+  /**
+   * Protect the firewall from deletion
+   * @default true
+   */
+  readonly deleteProtection?: boolean;
+
+  /**
+   * Alert and flow log delivery
+   * @default alert and flow logs to KMS-encrypted CloudWatch log groups
+   */
+  readonly logging?: NetworkFirewallLoggingConfig;
+}
+
+/**
+ * Route 53 Resolver rule forwarding a domain to resolvers outside the VPC
+ */
+export interface DnsForwardingRuleConfig {
+  /**
+   * Domain whose queries are forwarded (e.g. "corp.example.com")
+   */
+  readonly domainName: string;
+
+  /**
+   * IPv4 addresses of the resolvers that answer for the domain (e.g. on-premises DNS servers)
+   */
+  readonly targetIps: readonly string[];
+
+  /**
+   * Port the target resolvers listen on
+   * @default 53
+   */
+  readonly port?: number;
+}
+
+/**
+ * Route 53 Resolver query logging configuration
+ */
+export interface DnsQueryLoggingConfig {
+  /**
+   * Whether to log DNS queries made from the VPC
+   * @default true
+   */
+  readonly enabled?: boolean;
+
+  /**
+   * Log group retention in days
+   * @default 365
+   */
+  readonly retentionInDays?: number;
+
+  /**
+   * Log group name
+   * @default "/aws/route53/resolver/<name>"
+   */
+  readonly logGroupName?: string;
+
+  /**
+   * KMS key ARN for log group encryption
+   * The flow log key is reused when one was created, otherwise a dedicated key is created
+   */
+  readonly kmsKeyId?: Input<string>;
+}
+
+/**
+ * DNS configuration for the VPC
+ */
+export interface VpcDnsConfig {
+  /**
+   * Domain name of a private hosted zone associated with the VPC (e.g. "internal.example.com")
+   */
+  readonly privateZoneName?: string;
+
+  /**
+   * Create a Resolver inbound endpoint so networks outside the VPC can resolve its names
+   * @default false
+   */
+  readonly inboundEndpoint?: boolean;
+
+  /**
+   * Create a Resolver outbound endpoint for forwarding rules
+   * @default true when forwarding rules are given
+   */
+  readonly outboundEndpoint?: boolean;
+
+  /**
+   * Subnet tier that hosts the Resolver endpoints, one IP address per AZ
+   * @default the first `nat` tier, otherwise the first `none` tier
+   */
+  readonly subnetTier?: string;
+
+  /**
+   * CIDR blocks allowed to query the inbound endpoint (e.g. on-premises networks)
+   * @default the VPC CIDR
+   */
+  readonly inboundAllowedCidrBlocks?: readonly string[];
+
+  /**
+   * Domains forwarded through the outbound endpoint
+   * @default []
+   */
+  readonly forwardingRules?: readonly DnsForwardingRuleConfig[];
+
+  /**
+   * DNS query logging to CloudWatch Logs
+   * @default enabled, KMS-encrypted, retained for one year
+   */
+  readonly queryLogging?: DnsQueryLoggingConfig;
+}
+
+/**
+ * One side of a VPC peering connection
+ */
+export interface VpcPeeringSide {
+  /**
+   * VPC on this side of the peering
+   */
+  readonly vpc: VpcOutputs | ExistingVpcOutputs;
+
+  /**
+   * Tiers whose route tables get a route to the other VPC
+   * The VPC's `connectedCidrBlocks` must include the other VPC's CIDR for the default network ACLs
+   * to let its connections in
+   * @default all tiers except isolated ones
+   */
+  readonly routeTiers?: readonly string[];
+
+  /**
+   * Provider for the account and region of this VPC
+   * @default the component's provider
+   */
+  readonly provider?: import('@pulumi/pulumi').ProviderResource;
+}
+
+/**
+ * Configuration options for the VPC peering component
+ */
+export interface VpcPeeringArgs {
+  /**
+   * VPC that requests the peering connection
+   */
+  readonly requester: VpcPeeringSide;
+
+  /**
+   * VPC that accepts the peering connection, possibly in another region or account
+   */
+  readonly accepter: VpcPeeringSide;
+
+  /**
+   * Resolve public DNS hostnames of the other VPC to private IP addresses
+   * @default true
+   */
+  readonly allowRemoteVpcDnsResolution?: boolean;
+
+  /**
+   * Custom tags to apply to all resources
+   */
+  readonly tags?: Input<Record<string, Input<string>>>;
+
+  /**
+   * Name prefix for all resources
+   */
+  readonly name: string;
+}
+
+/**
+ * Output properties of the VPC peering component
+ */
+export interface VpcPeeringOutputs {
+  /**
+   * Peering connection, owned by the requester
+   */
+  readonly peeringConnection: import('@pulumi/aws').ec2.VpcPeeringConnection;
+
+  /**
+   * Acceptance of the peering connection, owned by the accepter
+   */
+  readonly peeringConnectionAccepter: import('@pulumi/aws').ec2.VpcPeeringConnectionAccepter;
+
+  /**
+   * Routes to the accepter VPC in the requester's route tables
+   */
+  readonly requesterRoutes: readonly import('@pulumi/aws').ec2.Route[];
+
+  /**
+   * Routes to the requester VPC in the accepter's route tables
+   */
+  readonly accepterRoutes: readonly import('@pulumi/aws').ec2.Route[];
+
+  /**
+   * Peering connection ID
+   */
+  readonly peeringConnectionId: import('@pulumi/pulumi').Output<string>;
+}
+
+/**
+ * CloudWatch Logs settings for operator access logs
+ */
+export interface AccessLogConfig {
+  /**
+   * Send logs to CloudWatch Logs
+   * @default true
+   */
+  readonly enabled?: boolean;
+
+  /**
+   * Log group retention in days
+   * @default 365
+   */
+  readonly retentionInDays?: number;
+
+  /**
+   * KMS key ARN for log group encryption
+   * @default a dedicated key created by the component
+   */
+  readonly kmsKeyId?: Input<string>;
+}
+
+/**
+ * AWS Client VPN endpoint configuration
+ */
+export interface ClientVpnConfig {
+  /**
+   * Address range assigned to VPN clients (/12 to /22), outside the VPC CIDR
+   */
+  readonly clientCidrBlock: string;
+
+  /**
+   * ACM certificate ARN presented by the endpoint
+   */
+  readonly serverCertificateArn: Input<string>;
+
+  /**
+   * How clients authenticate: client certificates or a SAML identity provider
+   */
+  readonly authentication: 'mutual-tls' | 'saml';
+
+  /**
+   * ACM ARN of the CA that signed the client certificates (mutual TLS only)
+   */
+  readonly clientRootCertificateArn?: Input<string>;
+
+  /**
+   * IAM SAML identity provider ARN (SAML only)
+   */
+  readonly samlProviderArn?: Input<string>;
+
+  /**
+   * IAM SAML identity provider ARN for the self-service portal (SAML only)
+   */
+  readonly selfServiceSamlProviderArn?: Input<string>;
+
+  /**
+   * Identity provider group allowed to connect (SAML only)
+   * @default all authenticated users
+   */
+  readonly accessGroupId?: string;
+
+  /**
+   * Subnet tier the endpoint is associated with, one subnet per AZ
+   * @default the private subnets, otherwise the isolated subnets
+   */
+  readonly subnetTier?: string;
+
+  /**
+   * Networks clients may reach; destinations outside the VPC are routed through the VPC
+   * @default the VPC CIDR
+   */
+  readonly authorizedCidrBlocks?: readonly string[];
+
+  /**
+   * Only send traffic for authorized networks through the VPN
+   * @default true
+   */
+  readonly splitTunnel?: boolean;
+
+  /**
+   * Maximum VPN session duration in hours (8, 10, 12 or 24)
+   * @default 8
+   */
+  readonly sessionTimeoutHours?: number;
+
+  /**
+   * DNS servers pushed to clients
+   * @default the client's own DNS servers
+   */
+  readonly dnsServers?: readonly string[];
+
+  /**
+   * Connection logging
+   * @default enabled, KMS-encrypted, retained for one year
+   */
+  readonly connectionLogging?: AccessLogConfig;
+}
+
+/**
+ * Session Manager session logging configuration
+ */
+export interface SessionLoggingConfig {
+  /**
+   * Stream session output to CloudWatch Logs
+   * @default enabled, KMS-encrypted, retained for one year
+   */
+  readonly cloudWatch?: AccessLogConfig;
+
+  /**
+   * Bucket that receives a transcript of every session
+   */
+  readonly s3BucketName?: Input<string>;
+
+  /**
+   * Key prefix for session transcripts, without a leading slash
+   * @default "session-manager/<name>"
+   */
+  readonly s3KeyPrefix?: string;
+}
+
+/**
+ * AWS Systems Manager Session Manager configuration
+ */
+export interface SessionManagerConfig {
+  /**
+   * Subnet tier hosting the interface endpoints Session Manager needs
+   * @default the private subnets, otherwise the isolated subnets
+   */
+  readonly subnetTier?: string;
+
+  /**
+   * Create the ssm, ssmmessages and ec2messages interface endpoints (plus logs and kms when
+   * used); endpoints the VPC already has are never duplicated
+   * @default true
+   */
+  readonly createEndpoints?: boolean;
+
+  /**
+   * Session logging to CloudWatch Logs and/or S3
+   */
+  readonly logging?: SessionLoggingConfig;
+
+  /**
+   * KMS key ARN used to encrypt session data between the client and the instance
+   */
+  readonly sessionKmsKeyId?: Input<string>;
+
+  /**
+   * Minutes without activity before a session is closed (1-60)
+   * @default 20
+   */
+  readonly idleSessionTimeoutMinutes?: number;
+
+  /**
+   * Name of the session preferences document, passed with `--document-name` when starting sessions
+   * @default "<name>-session-preferences"
+   */
+  readonly preferencesDocumentName?: string;
+
+  /**
+   * Store the preferences in the account-wide `SSM-SessionManagerRunShell` document instead,
+   * which the AWS CLI and console use when no document is specified; only one stack per
+   * account and region can own it. The document usually exists already, so import it into the
+   * stack first; it is kept when the component is deleted
+   * @default false
+   */
+  readonly manageAccountPreferences?: boolean;
+}
+
+/**
+ * Configuration options for the VPC access component
+ */
+export interface VpcAccessArgs {
+  /**
+   * VPC operators need to reach
+   */
+  readonly vpc: VpcOutputs | ExistingVpcOutputs;
+
+  /**
+   * Client VPN endpoint for network-level access
+   */
+  readonly clientVpn?: ClientVpnConfig;
+
+  /**
+   * Session Manager for shell access to instances without SSH or bastion hosts
+   */
+  readonly sessionManager?: SessionManagerConfig;
 
   /**
    * Custom tags to apply to all resources
    */
-  readonly tags?: Input<Record<string, Input<string>>>;
+  readonly tags?: Record<string, Input<string>>;
 
   /**
    * Name prefix for all resources
@@ -55,6 +1103,57 @@ export interface VpcArgs {
   readonly name: string;
 }
 
+/**
+ * Output properties of the VPC access component
+ */
+export interface VpcAccessOutputs {
+  /**
+   * Client VPN endpoint (if configured)
+   */
+  readonly clientVpnEndpoint: import('@pulumi/aws').ec2clientvpn.Endpoint | undefined;
+
+  /**
+   * Security group of the Client VPN network interfaces (if configured)
+   * Reference it in security group rules to admit VPN clients
+   */
+  readonly clientVpnSecurityGroup: import('@pulumi/aws').ec2.SecurityGroup | undefined;
+
+  /**
+   * Client VPN connection log group (if enabled)
+   */
+  readonly clientVpnLogGroup: import('@pulumi/aws').cloudwatch.LogGroup | undefined;
+
+  /**
+   * Interface endpoints created for Session Manager, keyed by service
+   */
+  readonly sessionManagerEndpoints: Readonly<Record<string, import('@pulumi/aws').ec2.VpcEndpoint>>;
+
+  /**
+   * Instance role for Session Manager managed instances (if configured)
+   */
+  readonly instanceRole: import('@pulumi/aws').iam.Role | undefined;
+
+  /**
+   * Instance profile wrapping the instance role (if configured)
+   */
+  readonly instanceProfile: import('@pulumi/aws').iam.InstanceProfile | undefined;
+
+  /**
+   * Session Manager log group (if enabled)
+   */
+  readonly sessionLogGroup: import('@pulumi/aws').cloudwatch.LogGroup | undefined;
+
+  /**
+   * Session Manager preferences document (if configured)
+   */
+  readonly sessionPreferences: import('@pulumi/aws').ssm.Document | undefined;
+
+  /**
+   * KMS key encrypting the access log groups (when no key was supplied)
+   */
+  readonly logKey: import('@pulumi/aws').kms.Key | undefined;
+}
+
 /**
  * Subnet configuration for the VPC
  */
@@ -64,6 +1163,123 @@ export interface SubnetConfig {
   readonly isPublic: boolean;
 }
 
+/**
+ * A parsed IPv4 CIDR block
+ */
+export interface Ipv4Cidr {
+  /**
+   * Network address as an unsigned 32-bit integer
+   */
+  readonly network: number;
+
+  /**
+   * Prefix length (0-32)
+   */
+  readonly prefixLength: number;
+}
+
+/**
+ * A request for a group of equally sized subnets in a subnet plan
+ *
+ * Size the subnets with either `prefixLength` or `hostCount`, or pin them
+ * with explicit `cidrBlocks`.
+ */
+export interface SubnetPlanRequest {
+  /**
+   * Unique name of the group (e.g. "public", "private")
+   */
+  readonly name: string;
+
+  /**
+   * Number of subnets to allocate (usually one per AZ)
+   */
+  readonly count: number;
+
+  /**
+   * Prefix length of each subnet (16-28)
+   */
+  readonly prefixLength?: number;
+
+  /**
+   * Minimum number of usable hosts per subnet
+   * AWS reserves 5 addresses in every subnet, these are accounted for
+   */
+  readonly hostCount?: number;
+
+  /**
+   * Explicit CIDR blocks for the subnets, one per subnet
+   * Explicit blocks are reserved before any sized group is allocated
+   */
+  readonly cidrBlocks?: readonly string[];
+}
+
+/**
+ * Result of a subnet plan: allocated CIDR blocks keyed by request name
+ */
+export type SubnetPlan = Readonly<Record<string, readonly string[]>>;
+
+/**
+ * A parsed IPv6 CIDR block
+ */
+export interface Ipv6Cidr {
+  /**
+   * The eight 16-bit groups of the network address
+   */
+  readonly hextets: readonly number[];
+
+  /**
+   * Prefix length (0-128)
+   */
+  readonly prefixLength: number;
+}
+
+/**
+ * A request for a group of /64 subnets in an IPv6 subnet plan
+ */
+export interface Ipv6SubnetPlanRequest {
+  /**
+   * Unique name of the group (e.g. "public", "private")
+   */
+  readonly name: string;
+
+  /**
+   * Number of subnets to allocate (usually one per AZ)
+   */
+  readonly count: number;
+
+  /**
+   * Explicit /64 indexes within the VPC block, one per subnet
+   */
+  readonly indexes?: readonly number[];
+}
+
+/**
+ * Result of an IPv6 subnet plan: /64 indexes keyed by request name
+ */
+export type Ipv6SubnetPlan = Readonly<Record<string, readonly number[]>>;
+
+/**
+ * Options for adopting an existing VPC with `VpcComponent.fromExisting`
+ */
+export interface VpcLookupOptions {
+  /**
+   * Name prefix for the adopted resources
+   * @default the VPC ID
+   */
+  readonly name?: string;
+
+  /**
+   * Tag whose value names the tier of each subnet; untagged subnets are ignored
+   * @default "Type"
+   */
+  readonly tierTagKey?: string;
+
+  /**
+   * Provider for the account and region of the VPC
+   */
+  readonly provider?: import('@pulumi/pulumi').ProviderResource;
+}
+
 /**
  * Output properties of the VPC component
  */
@@ -74,33 +1290,179 @@ export interface VpcOutputs {
   readonly vpc: import('@pulumi/aws').ec2.Vpc;
 
   /**
-   * Public subnets
+   * IPv4 CIDR block of the VPC
+   */
+  readonly cidrBlock: string;
+
+  /**
+   * Public subnets (tiers routed through the Internet Gateway)
    */
   readonly publicSubnets: readonly import('@pulumi/aws').ec2.Subnet[];
 
   /**
-   * Private subnets
+   * Private subnets (tiers routed through NAT)
    */
   readonly privateSubnets: readonly import('@pulumi/aws').ec2.Subnet[];
 
+  /**
+   * Isolated subnets (tiers with no route outside the VPC)
+   */
+  readonly isolatedSubnets: readonly import('@pulumi/aws').ec2.Subnet[];
+
+  /**
+   * Subnets keyed by tier name
+   */
+  readonly subnetsByTier: Readonly<Record<string, readonly import('@pulumi/aws').ec2.Subnet[]>>;
+
   /**
    * Internet Gateway
    */
   readonly internetGateway: import('@pulumi/aws').ec2.InternetGateway;
 
+  /**
+   * Egress-only Internet Gateway for private IPv6 traffic (IPv6 VPCs with private tiers)
+   */
+  readonly egressOnlyInternetGateway:
+    import('@pulumi/aws').ec2.EgressOnlyInternetGateway | undefined;
+
+  /**
+   * Amazon-provided IPv6 CIDR block of the VPC (IPv6 VPCs only)
+   */
+  readonly ipv6CidrBlock: import('@pulumi/pulumi').Output<string> | undefined;
+
   /**
    * NAT Gateways (if enabled)
    */
   readonly natGateways: readonly import('@pulumi/aws').ec2.NatGateway[] | undefined;
 
+  /**
+   * Static network interfaces private routes point at (NAT instance mode)
+   */
+  readonly natNetworkInterfaces: readonly import('@pulumi/aws').ec2.NetworkInterface[] | undefined;
+
+  /**
+   * Auto Scaling groups of one that keep each NAT instance running (NAT instance mode)
+   */
+  readonly natAutoScalingGroups: readonly import('@pulumi/aws').autoscaling.Group[] | undefined;
+
   /**
    * Route tables
    */
   readonly routeTables: {
     readonly public: import('@pulumi/aws').ec2.RouteTable;
     readonly private: readonly import('@pulumi/aws').ec2.RouteTable[];
+    readonly isolated: readonly import('@pulumi/aws').ec2.RouteTable[];
+    readonly byTier: Readonly<Record<string, readonly import('@pulumi/aws').ec2.RouteTable[]>>;
   };
 
+  /**
+   * The adopted VPC default security group, with all rules removed (if restricted)
+   */
+  readonly defaultSecurityGroup: import('@pulumi/aws').ec2.DefaultSecurityGroup | undefined;
+
+  /**
+   * The adopted VPC default network ACL, with all rules removed (if restricted)
+   */
+  readonly defaultNetworkAcl: import('@pulumi/aws').ec2.DefaultNetworkAcl | undefined;
+
+  /**
+   * Network ACLs keyed by tier name
+   */
+  readonly networkAcls: Readonly<Record<string, import('@pulumi/aws').ec2.NetworkAcl>>;
+
+  /**
+   * VPC Flow Log (if enabled)
+   */
+  readonly flowLog: import('@pulumi/aws').ec2.FlowLog | undefined;
+
+  /**
+   * Flow log CloudWatch log group (CloudWatch destination only)
+   */
+  readonly flowLogGroup: import('@pulumi/aws').cloudwatch.LogGroup | undefined;
+
+  /**
+   * IAM role used to deliver flow logs (CloudWatch destination only)
+   */
+  readonly flowLogRole: import('@pulumi/aws').iam.Role | undefined;
+
+  /**
+   * KMS key created to encrypt the flow log group (when no key is supplied)
+   */
+  readonly flowLogKey: import('@pulumi/aws').kms.Key | undefined;
+
+  /**
+   * Transit Gateway VPC attachment (if configured)
+   */
+  readonly transitGatewayAttachment:
+    import('@pulumi/aws').ec2transitgateway.VpcAttachment | undefined;
+
+  /**
+   * Private hosted zone associated with the VPC (if configured)
+   */
+  readonly privateHostedZone: import('@pulumi/aws').route53.Zone | undefined;
+
+  /**
+   * Route 53 Resolver inbound endpoint (if configured)
+   */
+  readonly resolverInboundEndpoint: import('@pulumi/aws').route53.ResolverEndpoint | undefined;
+
+  /**
+   * Route 53 Resolver outbound endpoint (if configured)
+   */
+  readonly resolverOutboundEndpoint: import('@pulumi/aws').route53.ResolverEndpoint | undefined;
+
+  /**
+   * Resolver forwarding rules associated with the VPC
+   */
+  readonly resolverRules: readonly import('@pulumi/aws').route53.ResolverRule[];
+
+  /**
+   * Resolver query logging configuration (if DNS is configured and query logging enabled)
+   */
+  readonly dnsQueryLogConfig: import('@pulumi/aws').route53.ResolverQueryLogConfig | undefined;
+
+  /**
+   * DNS query log group (if DNS is configured and query logging enabled)
+   */
+  readonly dnsQueryLogGroup: import('@pulumi/aws').cloudwatch.LogGroup | undefined;
+
+  /**
+   * KMS key created to encrypt the DNS query log group (when no other key is available)
+   */
+  readonly dnsQueryLogKey: import('@pulumi/aws').kms.Key | undefined;
+
+  /**
+   * Network Firewall (if configured)
+   */
+  readonly networkFirewall: import('@pulumi/aws').networkfirewall.Firewall | undefined;
+
+  /**
+   * Network Firewall policy (if configured)
+   */
+  readonly networkFirewallPolicy: import('@pulumi/aws').networkfirewall.FirewallPolicy | undefined;
+
+  /**
+   * Network Firewall log groups keyed by log type (CloudWatch destination only)
+   */
+  readonly networkFirewallLogGroups: Readonly<
+    Partial<Record<NetworkFirewallLogType, import('@pulumi/aws').cloudwatch.LogGroup>>
+  >;
+
+  /**
+   * KMS key created to encrypt the Network Firewall log groups (when no other key is available)
+   */
+  readonly networkFirewallLogKey: import('@pulumi/aws').kms.Key | undefined;
+
+  /**
+   * VPC endpoints keyed by service name
+   */
+  readonly vpcEndpoints: Readonly<Record<string, import('@pulumi/aws').ec2.VpcEndpoint>>;
+
+  /**
+   * Security group attached to interface endpoints (if any were created)
+   */
+  readonly endpointSecurityGroup: import('@pulumi/aws').ec2.SecurityGroup | undefined;
+
   /**
    * VPC ID for use in other modules
    */
@@ -115,4 +1477,34 @@ export interface VpcOutputs {
    * Private subnet IDs
    */
   readonly privateSubnetIds: readonly import('@pulumi/pulumi').Output<string>[];
+
+  /**
+   * Isolated subnet IDs
+   */
+  readonly isolatedSubnetIds: readonly import('@pulumi/pulumi').Output<string>[];
+
+  /**
+   * Subnet IDs keyed by tier name
+   */
+  readonly subnetIdsByTier: Readonly<
+    Record<string, readonly import('@pulumi/pulumi').Output<string>[]>
+  >;
+}
+
+/**
+ * Output properties of a VPC adopted with `VpcComponent.fromExisting`
+ * A VPC without public subnets has no Internet Gateway and no public route table
+ */
+export interface ExistingVpcOutputs extends Omit<VpcOutputs, 'internetGateway' | 'routeTables'> {
+  /**
+   * Internet Gateway (if the VPC has one)
+   */
+  readonly internetGateway: import('@pulumi/aws').ec2.InternetGateway | undefined;
+
+  /**
+   * Route tables
+   */
+  readonly routeTables: Omit<VpcOutputs['routeTables'], 'public'> & {
+    readonly public: import('@pulumi/aws').ec2.RouteTable | undefined;
+  };
 }
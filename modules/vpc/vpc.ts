@@ -5,32 +5,135 @@
 
 import * as aws from '@pulumi/aws';
 import * as pulumi from '@pulumi/pulumi';
-import { VpcArgs, VpcOutputs } from './types';
-import { VPC_DEFAULTS, DEFAULT_TAGS, calculateSubnetCidrs } from './defaults';
+import { createTrustPolicy, policyDocumentToJson } from '../iam/defaults';
+import {
+  NatInstanceConfig,
+  NetworkAclRuleConfig,
+  SubnetPlan,
+  SubnetRouting,
+  SubnetTierConfig,
+  TransitGatewayConfig,
+  VpcArgs,
+  VpcDnsConfig,
+  NetworkFirewallConfig,
+  NetworkFirewallLogType,
+  VpcEndpointsConfig,
+  VpcFlowLogConfig,
+  VpcLookupOptions,
+  VpcOutputs,
+  ExistingVpcOutputs,
+} from './types';
+import {
+  VPC_DEFAULTS,
+  DEFAULT_TAGS,
+  DEFAULT_SUBNET_TIERS,
+  VPC_LOOKUP_DEFAULTS,
+  FLOW_LOG_DEFAULTS,
+  VPC_ENDPOINT_DEFAULTS,
+  SECURITY_GROUP_DEFAULTS,
+  NAT_INSTANCE_DEFAULTS,
+  calculateSubnetCidrs,
+  planSubnetTiers,
+  planIpv6SubnetTiers,
+  validateSubnetTiers,
+  validateAvailabilityZoneSelection,
+  selectAvailabilityZones,
+  validateFlowLogConfig,
+  validateVpcEndpointsConfig,
+  validateTransitGatewayConfig,
+  validateConnectedCidrBlocks,
+  validateDnsConfig,
+  DNS_DEFAULTS,
+  NETWORK_FIREWALL_DEFAULTS,
+  validateNetworkFirewallConfig,
+  createFirewallNetworkAclRules,
+  selectInfrastructureTier,
+  selectRouteTiers,
+  createAccountScopedEndpointPolicy,
+  createNatInstancePolicy,
+  createDefaultNetworkAclRules,
+  createFlowLogTrustPolicy,
+  createFlowLogDeliveryPolicy,
+  createLogGroupKeyPolicy,
+} from './defaults';
+import { ipv6SubnetCidr } from './cidr';
 
 /**
  * VPC Component - Creates a secure, multi-AZ VPC with public and private subnets
  *
  * Features:
  * - Public subnets with Internet Gateway for load balancers/bastion hosts
- * - Private subnets with NAT Gateway for secure outbound access
+ * - Private subnets with NAT Gateway (or low-cost NAT instance) for secure outbound access
+ * - Optional isolated and custom subnet tiers
+ * - Optional IPv6 dual-stack with egress-only Internet Gateway for private tiers
+ * - VPC Flow Logs to encrypted CloudWatch Logs or S3 by default
+ * - Gateway and interface VPC endpoints for private access to AWS services
+ * - Optional Transit Gateway attachment for hub-and-spoke networks
+ * - Private hosted zone, Route 53 Resolver endpoints and DNS query logging
+ * - Optional AWS Network Firewall inspecting internet traffic in every AZ
  * - Proper route tables and security groups
+ * - Per-tier network ACLs with secure default rules
+ * - Default security group and network ACL stripped of all rules
  * - All resources tagged for auditing and cost tracking
  * - Follows AWS Well-Architected Framework principles
  */
 export class VpcComponent extends pulumi.ComponentResource implements VpcOutputs {
   public readonly vpc: aws.ec2.Vpc;
+  public readonly cidrBlock: string;
   public readonly publicSubnets: readonly aws.ec2.Subnet[];
   public readonly privateSubnets: readonly aws.ec2.Subnet[];
+  public readonly isolatedSubnets: readonly aws.ec2.Subnet[];
+  public readonly subnetsByTier: Readonly<Record<string, readonly aws.ec2.Subnet[]>>;
   public readonly internetGateway: aws.ec2.InternetGateway;
+  public readonly egressOnlyInternetGateway: aws.ec2.EgressOnlyInternetGateway | undefined;
+  public readonly ipv6CidrBlock: pulumi.Output<string> | undefined;
   public readonly natGateways: readonly aws.ec2.NatGateway[] | undefined;
+  public readonly natNetworkInterfaces: readonly aws.ec2.NetworkInterface[] | undefined;
+  public readonly natAutoScalingGroups: readonly aws.autoscaling.Group[] | undefined;
   public readonly routeTables: {
     readonly public: aws.ec2.RouteTable;
     readonly private: readonly aws.ec2.RouteTable[];
+    readonly isolated: readonly aws.ec2.RouteTable[];
+    readonly byTier: Readonly<Record<string, readonly aws.ec2.RouteTable[]>>;
   };
+  public readonly defaultSecurityGroup: aws.ec2.DefaultSecurityGroup | undefined;
+  public readonly defaultNetworkAcl: aws.ec2.DefaultNetworkAcl | undefined;
+  public readonly networkAcls: Readonly<Record<string, aws.ec2.NetworkAcl>>;
   public readonly vpcId: pulumi.Output<string>;
   public readonly publicSubnetIds: readonly pulumi.Output<string>[];
   public readonly privateSubnetIds: readonly pulumi.Output<string>[];
+  public readonly isolatedSubnetIds: readonly pulumi.Output<string>[];
+  public readonly subnetIdsByTier: Readonly<Record<string, readonly pulumi.Output<string>[]>>;
+  public readonly flowLog: aws.ec2.FlowLog | undefined;
+  public readonly flowLogGroup: aws.cloudwatch.LogGroup | undefined;
+  public readonly flowLogRole: aws.iam.Role | undefined;
+  public readonly flowLogKey: aws.kms.Key | undefined;
+  public readonly transitGatewayAttachment: aws.ec2transitgateway.VpcAttachment | undefined;
+  public readonly privateHostedZone: aws.route53.Zone | undefined;
+  public readonly resolverInboundEndpoint: aws.route53.ResolverEndpoint | undefined;
+  public readonly resolverOutboundEndpoint: aws.route53.ResolverEndpoint | undefined;
+  public readonly resolverRules: readonly aws.route53.ResolverRule[];
+  public readonly dnsQueryLogConfig: aws.route53.ResolverQueryLogConfig | undefined;
+  public readonly dnsQueryLogGroup: aws.cloudwatch.LogGroup | undefined;
+  public readonly dnsQueryLogKey: aws.kms.Key | undefined;
+  public readonly networkFirewall: aws.networkfirewall.Firewall | undefined;
+  public readonly networkFirewallPolicy: aws.networkfirewall.FirewallPolicy | undefined;
+  public readonly networkFirewallLogGroups: Readonly<
+    Partial<Record<NetworkFirewallLogType, aws.cloudwatch.LogGroup>>
+  >;
+  public readonly networkFirewallLogKey: aws.kms.Key | undefined;
+  public readonly vpcEndpoints: Readonly<Record<string, aws.ec2.VpcEndpoint>>;
+  public readonly endpointSecurityGroup: aws.ec2.SecurityGroup | undefined;
+
+  /** Component name for resource naming */
+  private readonly componentName: string;
+
+  /** Default tags for all resources */
+  private readonly defaultTags: Record<string, pulumi.Input<string>>;
+
+  /** Account and region the VPC is deployed to */
+  private readonly accountId: pulumi.Output<string>;
+  private readonly region: pulumi.Output<string>;
 
   constructor(name: string, args: VpcArgs, opts?: pulumi.ComponentResourceOptions) {
     super('modinfra:vpc:VpcComponent', name, {}, opts);
@@ -38,25 +141,129 @@ export class VpcComponent extends pulumi.ComponentResource implements VpcOutputs
     // Merge user args with secure defaults and resolve Input types
     const config = { ...VPC_DEFAULTS, ...args };
     const tags = { ...DEFAULT_TAGS, ...config.tags };
-    const azCount = config.availabilityZoneCount as number;
+    this.componentName = name;
+    this.defaultTags = tags as Record<string, pulumi.Input<string>>;
+    this.accountId = aws.getCallerIdentityOutput({}, { parent: this }).accountId;
+    this.region = aws.getRegionOutput({}, { parent: this }).name;
+    const azCount = (config.availabilityZones?.length ??
+      config.availabilityZoneIds?.length ??
+      config.availabilityZoneCount) as number;
     const cidrBlock = config.cidrBlock as string;
+    const enableIpv6 = config.enableIpv6;
 
-    // Get available AZs for the region
-    const availableAZs = aws.getAvailabilityZones({
-      state: 'available',
-    });
+    // Subnets are planned at construction time, so the VPC CIDR must be known up front
+    if (typeof cidrBlock !== 'string') {
+      throw new Error('VPC cidrBlock must be a plain string so subnets can be planned');
+    }
 
-    // Create fallback AZ names for LocalStack compatibility
-    const getAvailabilityZone = (index: number): pulumi.Output<string> => {
-      return pulumi.output(availableAZs).apply(azs => {
-        if (azs.names && azs.names.length > index && azs.names[index]) {
-          return azs.names[index];
-        }
-        // Fallback for LocalStack or regions with fewer AZs
-        // Use a default region pattern
-        return `us-east-1${String.fromCharCode(97 + index)}`; // us-east-1a, us-east-1b, etc.
-      });
-    };
+    // Validate subnet tiers
+    const tiers = config.subnetTiers ?? DEFAULT_SUBNET_TIERS;
+    const tierValidation = validateSubnetTiers(tiers);
+    if (!tierValidation.isValid) {
+      throw new Error(`Invalid subnet tiers: ${tierValidation.errors.join(', ')}`);
+    }
+    if (
+      !enableIpv6 &&
+      tiers.some(
+        tier =>
+          tier.ipv6SubnetIndexes !== undefined || tier.assignIpv6AddressOnCreation !== undefined
+      )
+    ) {
+      throw new Error('Subnet tier IPv6 options require enableIpv6');
+    }
+
+    // Validate NAT mode
+    if (config.natMode !== 'gateway' && config.natMode !== 'instance') {
+      throw new Error(`Invalid NAT mode '${config.natMode}', expected 'gateway' or 'instance'`);
+    }
+    if (config.natInstance && config.natMode !== 'instance') {
+      throw new Error("natInstance settings require natMode 'instance'");
+    }
+
+    // Validate flow log configuration
+    const flowLogConfig = config.flowLogs ?? {};
+    const flowLogValidation = validateFlowLogConfig(flowLogConfig);
+    if (!flowLogValidation.isValid) {
+      throw new Error(`Invalid flow log configuration: ${flowLogValidation.errors.join(', ')}`);
+    }
+
+    // Validate VPC endpoint configuration
+    if (config.vpcEndpoints) {
+      const endpointValidation = validateVpcEndpointsConfig(config.vpcEndpoints, tiers);
+      if (!endpointValidation.isValid) {
+        throw new Error(
+          `Invalid VPC endpoint configuration: ${endpointValidation.errors.join(', ')}`
+        );
+      }
+    }
+
+    // Validate Transit Gateway attachment
+    if (config.transitGateway) {
+      const transitGatewayValidation = validateTransitGatewayConfig(
+        config.transitGateway,
+        tiers,
+        cidrBlock,
+        Boolean(config.enableNatGateway)
+      );
+      if (!transitGatewayValidation.isValid) {
+        throw new Error(
+          `Invalid Transit Gateway configuration: ${transitGatewayValidation.errors.join(', ')}`
+        );
+      }
+    }
+
+    // Validate connected networks
+    const connectedValidation = validateConnectedCidrBlocks(
+      config.connectedCidrBlocks ?? [],
+      cidrBlock
+    );
+    if (!connectedValidation.isValid) {
+      throw new Error(`Invalid connected CIDR blocks: ${connectedValidation.errors.join(', ')}`);
+    }
+
+    // Validate DNS configuration
+    if (config.dns) {
+      const dnsValidation = validateDnsConfig(config.dns, tiers);
+      if (!dnsValidation.isValid) {
+        throw new Error(`Invalid DNS configuration: ${dnsValidation.errors.join(', ')}`);
+      }
+    }
+
+    // Validate Network Firewall configuration
+    if (config.firewall) {
+      const firewallValidation = validateNetworkFirewallConfig(config.firewall, tiers, enableIpv6);
+      if (!firewallValidation.isValid) {
+        throw new Error(
+          `Invalid Network Firewall configuration: ${firewallValidation.errors.join(', ')}`
+        );
+      }
+    }
+
+    // The firewall tier routes straight to the internet and is not one of the public tiers
+    const firewallTier = config.firewall
+      ? (config.firewall.subnetTier ?? NETWORK_FIREWALL_DEFAULTS.subnetTier)
+      : undefined;
+    const routedTiers = tiers.filter(tier => tier.name !== firewallTier);
+
+    // Validate availability zone selection
+    const zoneValidation = validateAvailabilityZoneSelection(args);
+    if (!zoneValidation.isValid) {
+      throw new Error(`Invalid availability zones: ${zoneValidation.errors.join(', ')}`);
+    }
+
+    // Pick the AZs from the region's available zones, failing when there are too few
+    const availabilityZones = aws
+      .getAvailabilityZonesOutput({ state: 'available' }, { parent: this })
+      .apply(zones =>
+        selectAvailabilityZones(zones, {
+          count: azCount,
+          names: config.availabilityZones,
+          zoneIds: config.availabilityZoneIds,
+          exclude: config.excludeAvailabilityZones,
+        })
+      );
+    const getAvailabilityZone = (index: number): pulumi.Output<string> =>
+      availabilityZones.apply(zones => zones[index]!);
 
     // Create the VPC
     this.vpc = new aws.ec2.Vpc(
@@ -65,6 +272,8 @@ export class VpcComponent extends pulumi.ComponentResource implements VpcOutputs
         cidrBlock: config.cidrBlock,
         enableDnsHostnames: config.enableDnsHostnames,
         enableDnsSupport: config.enableDnsSupport,
+        // Request an Amazon-provided /56 for dual-stack VPCs
+        assignGeneratedIpv6CidrBlock: enableIpv6,
         tags: {
           ...tags,
           Name: `${name}-vpc`,
@@ -74,9 +283,43 @@ export class VpcComponent extends pulumi.ComponentResource implements VpcOutputs
     );
 
     this.vpcId = this.vpc.id;
+    this.cidrBlock = cidrBlock;
+    this.ipv6CidrBlock = enableIpv6 ? this.vpc.ipv6CidrBlock : undefined;
+
+    // Adopt the default security group and remove its allow-all rules
+    this.defaultSecurityGroup = config.restrictDefaultSecurityGroup
+      ? new aws.ec2.DefaultSecurityGroup(
+          `${name}-default-sg`,
+          {
+            vpcId: this.vpc.id,
+            ingress: [...SECURITY_GROUP_DEFAULTS.defaultIngressRules],
+            egress: [...SECURITY_GROUP_DEFAULTS.defaultEgressRules],
+            tags: {
+              ...tags,
+              Name: `${name}-default-sg`,
+            },
+          },
+          { parent: this }
+        )
+      : undefined;
+
+    // Plan non-overlapping subnet CIDRs inside the VPC
+    // The default tiers keep the historical /24 layout so existing VPCs are not re-addressed
+    let subnetCidrs: SubnetPlan;
+    if (config.subnetTiers) {
+      subnetCidrs = planSubnetTiers(cidrBlock, tiers, azCount);
+    } else {
+      const defaultCidrs = calculateSubnetCidrs(cidrBlock, azCount);
+      subnetCidrs = {
+        public: defaultCidrs.publicSubnets,
+        private: defaultCidrs.privateSubnets,
+      };
+    }
 
-    // Calculate subnet CIDRs
-    const subnetCidrs = calculateSubnetCidrs(cidrBlock, azCount);
+    // Plan a /64 per subnet; the /56 itself is only known once AWS assigns it
+    const ipv6SubnetIndexes = enableIpv6 ? planIpv6SubnetTiers(tiers, azCount) : undefined;
+    const ipv6Subnet = (index: number): pulumi.Output<string> =>
+      this.vpc.ipv6CidrBlock.apply(vpcIpv6Cidr => ipv6SubnetCidr(vpcIpv6Cidr, index));
 
     // Create Internet Gateway for public subnets
     this.internetGateway = new aws.ec2.InternetGateway(
@@ -91,66 +334,175 @@ export class VpcComponent extends pulumi.ComponentResource implements VpcOutputs
       { parent: this }
     );
 
-    // Create public subnets
-    const publicSubnets: aws.ec2.Subnet[] = [];
-    const publicSubnetIds: pulumi.Output<string>[] = [];
+    // Create one subnet per AZ for every tier
+    const subnetsByTier: Record<string, aws.ec2.Subnet[]> = {};
+    const subnetIdsByTier: Record<string, pulumi.Output<string>[]> = {};
 
-    for (let i = 0; i < azCount; i++) {
-      const subnet = new aws.ec2.Subnet(
-        `${name}-public-${i}`,
+    for (const tier of tiers) {
+      const subnets: aws.ec2.Subnet[] = [];
+
+      for (let i = 0; i < azCount; i++) {
+        subnets.push(
+          new aws.ec2.Subnet(
+            `${name}-${tier.name}-${i}`,
+            {
+              vpcId: this.vpc.id,
+              cidrBlock: subnetCidrs[tier.name]![i]!,
+              availabilityZone: getAvailabilityZone(i),
+              // Only Internet Gateway tiers auto-assign public IPs unless overridden
+              mapPublicIpOnLaunch:
+                tier.mapPublicIpOnLaunch ?? (tier.routing === 'igw' && tier.name !== firewallTier),
+              ...(ipv6SubnetIndexes && {
+                ipv6CidrBlock: ipv6Subnet(ipv6SubnetIndexes[tier.name]![i]!),
+                assignIpv6AddressOnCreation: tier.assignIpv6AddressOnCreation ?? true,
+              }),
+              tags: {
+                ...tags,
+                ...tier.tags,
+                Name: `${name}-${tier.name}-${i}`,
+                Type: tier.name,
+              },
+            },
+            { parent: this }
+          )
+        );
+      }
+
+      subnetsByTier[tier.name] = subnets;
+      subnetIdsByTier[tier.name] = subnets.map(subnet => subnet.id);
+    }
+
+    const subnetsWithRouting = (routing: SubnetRouting): aws.ec2.Subnet[] =>
+      routedTiers
+        .filter(tier => tier.routing === routing)
+        .flatMap(tier => subnetsByTier[tier.name]!);
+
+    this.subnetsByTier = subnetsByTier;
+    this.subnetIdsByTier = subnetIdsByTier;
+    this.publicSubnets = subnetsWithRouting('igw');
+    this.publicSubnetIds = this.publicSubnets.map(subnet => subnet.id);
+    this.privateSubnets = subnetsWithRouting('nat');
+    this.privateSubnetIds = this.privateSubnets.map(subnet => subnet.id);
+    this.isolatedSubnets = subnetsWithRouting('none');
+    this.isolatedSubnetIds = this.isolatedSubnets.map(subnet => subnet.id);
+
+    // Give every tier its own network ACL for subnet-level defense in depth
+    const transitGatewayRouteTiers = config.transitGateway
+      ? (config.transitGateway.routeTiers ?? selectRouteTiers(tiers))
+      : [];
+
+    // Isolated tiers reach gateway endpoint services on the services' public address ranges
+    const gatewayEndpointServices = config.vpcEndpoints
+      ? (config.vpcEndpoints.gatewayEndpoints ?? VPC_ENDPOINT_DEFAULTS.gatewayEndpoints)
+      : [];
+    const gatewayEndpointCidrs =
+      gatewayEndpointServices.length > 0
+        ? pulumi.all(
+            gatewayEndpointServices.map(
+              service =>
+                aws.ec2.getPrefixListOutput(
+                  { name: pulumi.interpolate`com.amazonaws.${this.region}.${service}` },
+                  { parent: this }
+                ).cidrBlocks
+            )
+          )
+        : undefined;
+
+    const networkAcls: Record<string, aws.ec2.NetworkAcl> = {};
+    for (const tier of tiers) {
+      // Tiers routed to the Transit Gateway also exchange traffic with its destinations
+      const connectedCidrs = [
+        ...(transitGatewayRouteTiers.includes(tier.name)
+          ? (config.transitGateway?.destinationCidrBlocks ?? [])
+          : []),
+        ...(config.connectedCidrBlocks ?? []),
+      ];
+      const tierRules = (
+        direction: 'ingress' | 'egress',
+        vpcIpv6Cidr: string | undefined,
+        serviceCidrs: readonly string[]
+      ): aws.types.input.ec2.NetworkAclIngress[] =>
+        (
+          tier.networkAcl?.[direction] ??
+          (tier.name === firewallTier
+            ? createFirewallNetworkAclRules()
+            : createDefaultNetworkAclRules(tier.routing, cidrBlock, vpcIpv6Cidr, {
+                connectedCidrs: [...new Set(connectedCidrs)],
+                serviceCidrs,
+              }))[direction]
+        ).map(toNetworkAclEntry);
+      // IPv6 default rules need the VPC's Amazon-provided block
+      const rulesFor = (direction: 'ingress' | 'egress') => {
+        const serviceCidrs = tier.routing === 'none' ? gatewayEndpointCidrs : undefined;
+        if (serviceCidrs) {
+          return enableIpv6
+            ? this.vpc.ipv6CidrBlock.apply(block =>
+                serviceCidrs.apply(cidrs => tierRules(direction, block, cidrs.flat()))
+              )
+            : serviceCidrs.apply(cidrs => tierRules(direction, undefined, cidrs.flat()));
+        }
+        return enableIpv6
+          ? this.vpc.ipv6CidrBlock.apply(block => tierRules(direction, block, []))
+          : tierRules(direction, undefined, []);
+      };
+
+      networkAcls[tier.name] = new aws.ec2.NetworkAcl(
+        `${name}-${tier.name}-nacl`,
         {
           vpcId: this.vpc.id,
-          cidrBlock: subnetCidrs.publicSubnets[i]!,
-          availabilityZone: getAvailabilityZone(i),
-          mapPublicIpOnLaunch: true, // Auto-assign public IPs
+          subnetIds: subnetIdsByTier[tier.name]!,
+          ingress: rulesFor('ingress'),
+          egress: rulesFor('egress'),
           tags: {
             ...tags,
-            Name: `${name}-public-${i}`,
-            Type: 'public',
+            Name: `${name}-${tier.name}-nacl`,
           },
         },
         { parent: this }
       );
-      publicSubnets.push(subnet);
-      publicSubnetIds.push(subnet.id);
     }
+    this.networkAcls = networkAcls;
 
-    this.publicSubnets = publicSubnets;
-    this.publicSubnetIds = publicSubnetIds;
-
-    // Create private subnets
-    const privateSubnets: aws.ec2.Subnet[] = [];
-    const privateSubnetIds: pulumi.Output<string>[] = [];
-
-    for (let i = 0; i < azCount; i++) {
-      const subnet = new aws.ec2.Subnet(
-        `${name}-private-${i}`,
+    // Strip the default network ACL, which no subnet created here uses
+    if (config.restrictDefaultNetworkAcl) {
+      this.defaultNetworkAcl = new aws.ec2.DefaultNetworkAcl(
+        `${name}-default-nacl`,
         {
-          vpcId: this.vpc.id,
-          cidrBlock: subnetCidrs.privateSubnets[i]!,
-          availabilityZone: getAvailabilityZone(i),
-          mapPublicIpOnLaunch: false, // No public IPs for private subnets
+          defaultNetworkAclId: this.vpc.defaultNetworkAclId,
+          ingress: [],
+          egress: [],
           tags: {
             ...tags,
-            Name: `${name}-private-${i}`,
-            Type: 'private',
+            Name: `${name}-default-nacl`,
           },
         },
-        { parent: this }
+        { parent: this, dependsOn: Object.values(networkAcls) }
       );
-      privateSubnets.push(subnet);
-      privateSubnetIds.push(subnet.id);
+    } else {
+      this.defaultNetworkAcl = undefined;
     }
 
-    this.privateSubnets = privateSubnets;
-    this.privateSubnetIds = privateSubnetIds;
+    // NAT gateways and instances are placed in the first Internet Gateway tier
+    const natSubnets = subnetsByTier[routedTiers.find(tier => tier.routing === 'igw')!.name]!;
 
-    // Create NAT Gateways (if enabled and we have public subnets)
+    // Create NAT Gateways or NAT instances (if enabled and some tier routes through NAT)
     let natGateways: aws.ec2.NatGateway[] | undefined;
-    if (config.enableNatGateway && azCount > 0 && publicSubnets.length > 0) {
-      natGateways = [];
-      const natCount = config.multiAzNatGateway ? azCount : 1;
+    let natInstances: ReturnType<VpcComponent['createNatInstances']> | undefined;
+    const natCount = config.multiAzNatGateway ? azCount : 1;
+    if (config.enableNatGateway && azCount > 0 && this.privateSubnets.length > 0) {
+      if (config.natMode === 'instance') {
+        natInstances = this.createNatInstances(
+          natCount,
+          natSubnets,
+          cidrBlock,
+          config.natInstance ?? {}
+        );
+      } else {
+        natGateways = [];
+      }
+    }
 
+    if (natGateways) {
       for (let i = 0; i < natCount; i++) {
         // Create Elastic IP for NAT Gateway
         const eip = new aws.ec2.Eip(
@@ -166,12 +518,12 @@ export class VpcComponent extends pulumi.ComponentResource implements VpcOutputs
         );
 
         // Create NAT Gateway in public subnet
-        const subnetIndex = Math.min(i, publicSubnets.length - 1);
+        const subnetIndex = Math.min(i, natSubnets.length - 1);
         const natGateway = new aws.ec2.NatGateway(
           `${name}-nat-${i}`,
           {
             allocationId: eip.id,
-            subnetId: publicSubnets[subnetIndex]!.id,
+            subnetId: natSubnets[subnetIndex]!.id,
             tags: {
               ...tags,
               Name: `${name}-nat-${i}`,
@@ -185,96 +537,1577 @@ export class VpcComponent extends pulumi.ComponentResource implements VpcOutputs
     }
 
     this.natGateways = natGateways;
+    this.natNetworkInterfaces = natInstances?.networkInterfaces;
+    this.natAutoScalingGroups = natInstances?.autoScalingGroups;
 
-    // Create route table for public subnets
-    const publicRouteTable = new aws.ec2.RouteTable(
-      `${name}-public-rt`,
-      {
-        vpcId: this.vpc.id,
-        tags: {
-          ...tags,
-          Name: `${name}-public-rt`,
-        },
-      },
-      { parent: this }
-    );
+    // Private tiers reach the internet over IPv6 through an egress-only Internet Gateway
+    this.egressOnlyInternetGateway =
+      enableIpv6 && this.privateSubnets.length > 0
+        ? new aws.ec2.EgressOnlyInternetGateway(
+            `${name}-eigw`,
+            {
+              vpcId: this.vpc.id,
+              tags: {
+                ...tags,
+                Name: `${name}-eigw`,
+              },
+            },
+            { parent: this }
+          )
+        : undefined;
 
-    // Route to Internet Gateway for public subnets
-    new aws.ec2.Route(
-      `${name}-public-route`,
-      {
-        routeTableId: publicRouteTable.id,
-        destinationCidrBlock: '0.0.0.0/0',
-        gatewayId: this.internetGateway.id,
-      },
-      { parent: this }
-    );
+    // Inspect internet traffic with a Network Firewall endpoint in every AZ
+    const firewall = config.firewall
+      ? this.createNetworkFirewall(
+          config.firewall,
+          subnetsByTier[firewallTier!]!,
+          cidrBlock,
+          availabilityZones
+        )
+      : undefined;
+    this.networkFirewall = firewall?.firewall;
+    this.networkFirewallPolicy = firewall?.policy;
 
-    // Associate public subnets with public route table
-    publicSubnets.forEach((subnet, i) => {
-      new aws.ec2.RouteTableAssociation(
-        `${name}-public-rta-${i}`,
-        {
-          subnetId: subnet.id,
-          routeTableId: publicRouteTable.id,
-        },
-        { parent: this }
-      );
-    });
+    // Create route tables for each tier
+    const routeTablesByTier: Record<string, aws.ec2.RouteTable[]> = {};
+
+    for (const tier of tiers) {
+      const subnets = subnetsByTier[tier.name]!;
+
+      if (firewall && tier.routing === 'igw' && tier.name !== firewallTier) {
+        // Public tiers reach the internet through the firewall endpoint in their AZ
+        routeTablesByTier[tier.name] = subnets.map((subnet, i) => {
+          const routeTable = new aws.ec2.RouteTable(
+            `${name}-${tier.name}-rt-${i}`,
+            {
+              vpcId: this.vpc.id,
+              tags: {
+                ...tags,
+                Name: `${name}-${tier.name}-rt-${i}`,
+              },
+            },
+            { parent: this }
+          );
+
+          new aws.ec2.Route(
+            `${name}-${tier.name}-route-${i}`,
+            {
+              routeTableId: routeTable.id,
+              destinationCidrBlock: '0.0.0.0/0',
+              vpcEndpointId: firewall.endpointIdIn(i),
+            },
+            { parent: this }
+          );
+
+          new aws.ec2.RouteTableAssociation(
+            `${name}-${tier.name}-rta-${i}`,
+            {
+              subnetId: subnet.id,
+              routeTableId: routeTable.id,
+            },
+            { parent: this }
+          );
+
+          return routeTable;
+        });
+        continue;
+      }
+
+      if (tier.routing === 'nat') {
+        // One route table per AZ so each AZ can use its own NAT gateway
+        routeTablesByTier[tier.name] = subnets.map((subnet, i) => {
+          const routeTable = new aws.ec2.RouteTable(
+            `${name}-${tier.name}-rt-${i}`,
+            {
+              vpcId: this.vpc.id,
+              tags: {
+                ...tags,
+                Name: `${name}-${tier.name}-rt-${i}`,
+              },
+            },
+            { parent: this }
+          );
+
+          // Route to NAT Gateway for internet access (if NAT is enabled)
+          const natIndex = config.multiAzNatGateway ? i : 0;
+          if (natGateways && natGateways.length > 0) {
+            new aws.ec2.Route(
+              `${name}-${tier.name}-route-${i}`,
+              {
+                routeTableId: routeTable.id,
+                destinationCidrBlock: '0.0.0.0/0',
+                natGatewayId: natGateways[natIndex]!.id,
+              },
+              { parent: this }
+            );
+          } else if (natInstances) {
+            // NAT instances are reached through their static network interface
+            new aws.ec2.Route(
+              `${name}-${tier.name}-route-${i}`,
+              {
+                routeTableId: routeTable.id,
+                destinationCidrBlock: '0.0.0.0/0',
+                networkInterfaceId: natInstances.networkInterfaces[natIndex]!.id,
+              },
+              { parent: this }
+            );
+          }
 
-    // Create route tables for private subnets
-    const privateRouteTables: aws.ec2.RouteTable[] = [];
+          // IPv6 traffic can leave but never be initiated from the internet
+          if (this.egressOnlyInternetGateway) {
+            new aws.ec2.Route(
+              `${name}-${tier.name}-route-ipv6-${i}`,
+              {
+                routeTableId: routeTable.id,
+                destinationIpv6CidrBlock: '::/0',
+                egressOnlyGatewayId: this.egressOnlyInternetGateway.id,
+              },
+              { parent: this }
+            );
+          }
+
+          // Associate subnet with its route table
+          new aws.ec2.RouteTableAssociation(
+            `${name}-${tier.name}-rta-${i}`,
+            {
+              subnetId: subnet.id,
+              routeTableId: routeTable.id,
+            },
+            { parent: this }
+          );
+
+          return routeTable;
+        });
+        continue;
+      }
 
-    privateSubnets.forEach((subnet, i) => {
+      // Internet Gateway and isolated tiers share one route table across AZs
       const routeTable = new aws.ec2.RouteTable(
-        `${name}-private-rt-${i}`,
+        `${name}-${tier.name}-rt`,
         {
           vpcId: this.vpc.id,
           tags: {
             ...tags,
-            Name: `${name}-private-rt-${i}`,
+            Name: `${name}-${tier.name}-rt`,
           },
         },
         { parent: this }
       );
 
-      // Route to NAT Gateway for internet access (if NAT is enabled)
-      if (natGateways && natGateways.length > 0) {
-        const natIndex = config.multiAzNatGateway ? i : 0;
+      // Route to Internet Gateway for public subnets
+      if (tier.routing === 'igw') {
         new aws.ec2.Route(
-          `${name}-private-route-${i}`,
+          `${name}-${tier.name}-route`,
           {
             routeTableId: routeTable.id,
             destinationCidrBlock: '0.0.0.0/0',
-            natGatewayId: natGateways[natIndex]!.id,
+            gatewayId: this.internetGateway.id,
+          },
+          { parent: this }
+        );
+
+        if (enableIpv6) {
+          new aws.ec2.Route(
+            `${name}-${tier.name}-route-ipv6`,
+            {
+              routeTableId: routeTable.id,
+              destinationIpv6CidrBlock: '::/0',
+              gatewayId: this.internetGateway.id,
+            },
+            { parent: this }
+          );
+        }
+      }
+
+      // Associate the tier's subnets with the route table
+      subnets.forEach((subnet, i) => {
+        new aws.ec2.RouteTableAssociation(
+          `${name}-${tier.name}-rta-${i}`,
+          {
+            subnetId: subnet.id,
+            routeTableId: routeTable.id,
           },
           { parent: this }
         );
+      });
+
+      routeTablesByTier[tier.name] = [routeTable];
+    }
+
+    // Return traffic from the internet passes the same firewall endpoint on the way in
+    if (firewall) {
+      const edgeRouteTable = new aws.ec2.RouteTable(
+        `${name}-igw-rt`,
+        {
+          vpcId: this.vpc.id,
+          tags: {
+            ...tags,
+            Name: `${name}-igw-rt`,
+          },
+        },
+        { parent: this }
+      );
+
+      for (const tier of routedTiers.filter(tier => tier.routing === 'igw')) {
+        subnetCidrs[tier.name]!.forEach((subnetCidr, i) => {
+          new aws.ec2.Route(
+            `${name}-igw-${tier.name}-route-${i}`,
+            {
+              routeTableId: edgeRouteTable.id,
+              destinationCidrBlock: subnetCidr,
+              vpcEndpointId: firewall.endpointIdIn(i),
+            },
+            { parent: this }
+          );
+        });
       }
 
-      // Associate private subnet with its route table
       new aws.ec2.RouteTableAssociation(
-        `${name}-private-rta-${i}`,
+        `${name}-igw-rta`,
         {
-          subnetId: subnet.id,
-          routeTableId: routeTable.id,
+          gatewayId: this.internetGateway.id,
+          routeTableId: edgeRouteTable.id,
         },
         { parent: this }
       );
+    }
 
-      privateRouteTables.push(routeTable);
-    });
+    const routeTablesWithRouting = (routing: SubnetRouting): aws.ec2.RouteTable[] =>
+      routedTiers
+        .filter(tier => tier.routing === routing)
+        .flatMap(tier => routeTablesByTier[tier.name]!);
 
     this.routeTables = {
-      public: publicRouteTable,
-      private: privateRouteTables,
+      public: routeTablesWithRouting('igw')[0]!,
+      private: routeTablesWithRouting('nat'),
+      isolated: routeTablesWithRouting('none'),
+      byTier: routeTablesByTier,
     };
 
+    // Capture traffic metadata with VPC Flow Logs
+    const flowLogs =
+      (flowLogConfig.enabled ?? FLOW_LOG_DEFAULTS.enabled)
+        ? this.createFlowLogs(flowLogConfig)
+        : undefined;
+    this.flowLog = flowLogs?.flowLog;
+    this.flowLogGroup = flowLogs?.logGroup;
+    this.flowLogRole = flowLogs?.role;
+    this.flowLogKey = flowLogs?.key;
+
+    // Reach AWS services privately through VPC endpoints
+    const vpcEndpoints = config.vpcEndpoints
+      ? this.createVpcEndpoints(config.vpcEndpoints, tiers, cidrBlock)
+      : undefined;
+    this.vpcEndpoints = vpcEndpoints?.endpoints ?? {};
+    this.endpointSecurityGroup = vpcEndpoints?.securityGroup;
+
+    // Join a hub-and-spoke network through a Transit Gateway
+    this.transitGatewayAttachment = config.transitGateway
+      ? this.createTransitGatewayAttachment(config.transitGateway, tiers, enableIpv6)
+      : undefined;
+
+    // Resolve names privately and across networks with Route 53
+    const dns = config.dns ? this.createDns(config.dns, tiers, cidrBlock) : undefined;
+    this.privateHostedZone = dns?.privateHostedZone;
+    this.resolverInboundEndpoint = dns?.inboundEndpoint;
+    this.resolverOutboundEndpoint = dns?.outboundEndpoint;
+    this.resolverRules = dns?.rules ?? [];
+    this.dnsQueryLogConfig = dns?.queryLogConfig;
+    this.dnsQueryLogGroup = dns?.logGroup;
+    this.dnsQueryLogKey = dns?.key;
+
+    // Deliver firewall alert and flow logs
+    const firewallLogging = firewall
+      ? this.createNetworkFirewallLogging(firewall.firewall, config.firewall!)
+      : undefined;
+    this.networkFirewallLogGroups = firewallLogging?.logGroups ?? {};
+    this.networkFirewallLogKey = firewallLogging?.key;
+
     // Register outputs
     this.registerOutputs({
       vpcId: this.vpcId,
+      ipv6CidrBlock: this.ipv6CidrBlock,
       publicSubnetIds: this.publicSubnetIds,
       privateSubnetIds: this.privateSubnetIds,
+      isolatedSubnetIds: this.isolatedSubnetIds,
+      subnetIdsByTier: this.subnetIdsByTier,
+      flowLog: this.flowLog,
+      flowLogGroup: this.flowLogGroup,
+      flowLogRole: this.flowLogRole,
+      flowLogKey: this.flowLogKey,
+      defaultSecurityGroup: this.defaultSecurityGroup,
+      defaultNetworkAcl: this.defaultNetworkAcl,
+      networkAcls: this.networkAcls,
+      transitGatewayAttachment: this.transitGatewayAttachment,
+      privateHostedZone: this.privateHostedZone,
+      resolverInboundEndpoint: this.resolverInboundEndpoint,
+      resolverOutboundEndpoint: this.resolverOutboundEndpoint,
+      dnsQueryLogGroup: this.dnsQueryLogGroup,
+      networkFirewall: this.networkFirewall,
+      networkFirewallLogGroups: this.networkFirewallLogGroups,
+      vpcEndpoints: this.vpcEndpoints,
+      endpointSecurityGroup: this.endpointSecurityGroup,
     });
   }
+
+  /**
+   * Adopt an existing VPC, such as a landing-zone VPC, without managing it
+   *
+   * Subnets are grouped into tiers by their `Type` tag. Each subnet counts as public, private
+   * or isolated depending on whether the default route of its route table goes to an Internet
+   * Gateway, a NAT Gateway or NAT instance, or anywhere else (including nowhere). Resources are read with
+   * `get`, so nothing in the VPC is created, changed or deleted.
+   *
+   * @example
+   * ```typescript
+   * const landingZone = await VpcComponent.fromExisting('vpc-0123456789abcdef0');
+   * export const appSubnetIds = landingZone.subnetIdsByTier['app'];
+   * ```
+   */
+  public static async fromExisting(
+    vpcId: string,
+    options: VpcLookupOptions = {}
+  ): Promise<ExistingVpcOutputs> {
+    const name = options.name ?? vpcId;
+    const tierTagKey = options.tierTagKey ?? VPC_LOOKUP_DEFAULTS.tierTagKey;
+    const opts = { ...(options.provider && { provider: options.provider }) };
+
+    const [vpcInfo, subnetLookup, routeTableLookup, natGatewayLookup] = await Promise.all([
+      aws.ec2.getVpc({ id: vpcId }, opts),
+      aws.ec2.getSubnets(
+        {
+          filters: [
+            { name: 'vpc-id', values: [vpcId] },
+            { name: 'tag-key', values: [tierTagKey] },
+          ],
+        },
+        opts
+      ),
+      aws.ec2.getRouteTables({ vpcId }, opts),
+      aws.ec2.getNatGateways({ vpcId, filters: [{ name: 'state', values: ['available'] }] }, opts),
+    ]);
+
+    if (subnetLookup.ids.length === 0) {
+      throw new Error(`VPC ${vpcId} has no subnets tagged with '${tierTagKey}'`);
+    }
+
+    const [subnetInfos, routeTableInfos] = await Promise.all([
+      Promise.all(subnetLookup.ids.map(id => aws.ec2.getSubnet({ id }, opts))),
+      Promise.all(
+        routeTableLookup.ids.map(id => aws.ec2.getRouteTable({ routeTableId: id }, opts))
+      ),
+    ]);
+    const routings = await Promise.all(
+      routeTableInfos.map(routeTable => routingOf(routeTable, opts))
+    );
+
+    // Subnets without an explicit association use the main route table
+    const mainRouteTable = routeTableInfos.find(routeTable =>
+      routeTable.associations.some(association => association.main)
+    );
+    const routeTableOf = (subnetId: string): aws.ec2.GetRouteTableResult => {
+      const routeTable =
+        routeTableInfos.find(candidate =>
+          candidate.associations.some(association => association.subnetId === subnetId)
+        ) ?? mainRouteTable;
+      if (!routeTable) {
+        throw new Error(`No route table found for subnet ${subnetId} in VPC ${vpcId}`);
+      }
+      return routeTable;
+    };
+
+    // Stable order: by tier, then availability zone
+    const sortedSubnets = [...subnetInfos].sort(
+      (a, b) =>
+        a.tags[tierTagKey]!.localeCompare(b.tags[tierTagKey]!) ||
+        a.availabilityZone.localeCompare(b.availabilityZone) ||
+        a.id.localeCompare(b.id)
+    );
+
+    const routeTables: Record<string, aws.ec2.RouteTable> = {};
+    const adoptRouteTable = (routeTableId: string): aws.ec2.RouteTable =>
+      (routeTables[routeTableId] ??= aws.ec2.RouteTable.get(
+        `${name}-${routeTableId}`,
+        routeTableId,
+        undefined,
+        opts
+      ));
+
+    const subnetsByTier: Record<string, aws.ec2.Subnet[]> = {};
+    const routeTablesByTier: Record<string, aws.ec2.RouteTable[]> = {};
+    const subnetsByRouting: Record<SubnetRouting, aws.ec2.Subnet[]> = {
+      igw: [],
+      nat: [],
+      none: [],
+    };
+    const routeTablesByRouting: Record<SubnetRouting, aws.ec2.RouteTable[]> = {
+      igw: [],
+      nat: [],
+      none: [],
+    };
+
+    for (const subnetInfo of sortedSubnets) {
+      const tierName = subnetInfo.tags[tierTagKey]!;
+      const tierSubnets = (subnetsByTier[tierName] ??= []);
+      const subnet = aws.ec2.Subnet.get(
+        `${name}-${tierName}-${tierSubnets.length}`,
+        subnetInfo.id,
+        undefined,
+        opts
+      );
+      tierSubnets.push(subnet);
+
+      const routeTableInfo = routeTableOf(subnetInfo.id);
+      const routing = routings[routeTableInfos.indexOf(routeTableInfo)]!;
+      const routeTable = adoptRouteTable(routeTableInfo.routeTableId);
+      subnetsByRouting[routing].push(subnet);
+
+      for (const tables of [(routeTablesByTier[tierName] ??= []), routeTablesByRouting[routing]]) {
+        if (!tables.includes(routeTable)) {
+          tables.push(routeTable);
+        }
+      }
+    }
+
+    // The Internet Gateway is the one the public subnets route through
+    const internetGatewayId = routeTableInfos
+      .flatMap(routeTable => routeTable.routes)
+      .map(route => route.gatewayId)
+      .find(gatewayId => gatewayId.startsWith('igw-'));
+
+    const natGateways = natGatewayLookup.ids.map(id =>
+      aws.ec2.NatGateway.get(`${name}-${id}`, id, undefined, opts)
+    );
+
+    const subnetIds = (subnets: readonly aws.ec2.Subnet[]): pulumi.Output<string>[] =>
+      subnets.map(subnet => subnet.id);
+
+    return {
+      vpc: aws.ec2.Vpc.get(`${name}-vpc`, vpcId, undefined, opts),
+      cidrBlock: vpcInfo.cidrBlock,
+      publicSubnets: subnetsByRouting.igw,
+      privateSubnets: subnetsByRouting.nat,
+      isolatedSubnets: subnetsByRouting.none,
+      subnetsByTier,
+      internetGateway:
+        internetGatewayId !== undefined
+          ? aws.ec2.InternetGateway.get(`${name}-igw`, internetGatewayId, undefined, opts)
+          : undefined,
+      egressOnlyInternetGateway: undefined,
+      ipv6CidrBlock: vpcInfo.ipv6CidrBlock ? pulumi.output(vpcInfo.ipv6CidrBlock) : undefined,
+      natGateways: natGateways.length > 0 ? natGateways : undefined,
+      natNetworkInterfaces: undefined,
+      natAutoScalingGroups: undefined,
+      routeTables: {
+        public: routeTablesByRouting.igw[0],
+        private: routeTablesByRouting.nat,
+        isolated: routeTablesByRouting.none,
+        byTier: routeTablesByTier,
+      },
+      defaultSecurityGroup: undefined,
+      defaultNetworkAcl: undefined,
+      networkAcls: {},
+      flowLog: undefined,
+      flowLogGroup: undefined,
+      flowLogRole: undefined,
+      flowLogKey: undefined,
+      transitGatewayAttachment: undefined,
+      privateHostedZone: undefined,
+      resolverInboundEndpoint: undefined,
+      resolverOutboundEndpoint: undefined,
+      resolverRules: [],
+      dnsQueryLogConfig: undefined,
+      dnsQueryLogGroup: undefined,
+      dnsQueryLogKey: undefined,
+      networkFirewall: undefined,
+      networkFirewallPolicy: undefined,
+      networkFirewallLogGroups: {},
+      networkFirewallLogKey: undefined,
+      vpcEndpoints: {},
+      endpointSecurityGroup: undefined,
+      vpcId: pulumi.output(vpcId),
+      publicSubnetIds: subnetIds(subnetsByRouting.igw),
+      privateSubnetIds: subnetIds(subnetsByRouting.nat),
+      isolatedSubnetIds: subnetIds(subnetsByRouting.none),
+      subnetIdsByTier: Object.fromEntries(
+        Object.entries(subnetsByTier).map(([tierName, subnets]) => [tierName, subnetIds(subnets)])
+      ),
+    };
+  }
+
+  /**
+   * Create self-healing fck-nat instances
+   *
+   * Each instance runs in an Auto Scaling group of one. Private routes point at a static
+   * network interface with source/destination checks disabled, which fck-nat attaches on
+   * boot together with the Elastic IP, so a replaced instance takes over the same routes.
+   */
+  private createNatInstances(
+    natCount: number,
+    natSubnets: readonly aws.ec2.Subnet[],
+    cidrBlock: string,
+    natInstanceConfig: NatInstanceConfig
+  ): {
+    networkInterfaces: aws.ec2.NetworkInterface[];
+    autoScalingGroups: aws.autoscaling.Group[];
+  } {
+    const name = this.componentName;
+    const imageId =
+      natInstanceConfig.amiId ??
+      aws.ec2.getAmiOutput(
+        {
+          mostRecent: true,
+          owners: [NAT_INSTANCE_DEFAULTS.amiOwner],
+          filters: [
+            { name: 'name', values: [NAT_INSTANCE_DEFAULTS.amiNamePattern] },
+            { name: 'architecture', values: ['arm64'] },
+          ],
+        },
+        { parent: this }
+      ).id;
+
+    // Forward traffic from inside the VPC and never accept connections from outside it
+    const securityGroup = new aws.ec2.SecurityGroup(
+      `${name}-nat-sg`,
+      {
+        vpcId: this.vpc.id,
+        description: `NAT instances for ${name}`,
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-nat-sg`,
+        },
+      },
+      { parent: this }
+    );
+
+    new aws.vpc.SecurityGroupIngressRule(
+      `${name}-nat-ingress`,
+      {
+        securityGroupId: securityGroup.id,
+        description: 'Traffic to forward from the VPC',
+        ipProtocol: '-1',
+        cidrIpv4: cidrBlock,
+        tags: this.defaultTags,
+      },
+      { parent: this }
+    );
+
+    new aws.vpc.SecurityGroupEgressRule(
+      `${name}-nat-egress`,
+      {
+        securityGroupId: securityGroup.id,
+        description: 'Forwarded traffic to the internet',
+        ipProtocol: '-1',
+        cidrIpv4: '0.0.0.0/0',
+        tags: this.defaultTags,
+      },
+      { parent: this }
+    );
+
+    const networkInterfaces: aws.ec2.NetworkInterface[] = [];
+    const autoScalingGroups: aws.autoscaling.Group[] = [];
+
+    for (let i = 0; i < natCount; i++) {
+      const subnet = natSubnets[Math.min(i, natSubnets.length - 1)]!;
+      const scopeTagValue = `${name}-nat-${i}`;
+      const scopeTag = { [NAT_INSTANCE_DEFAULTS.scopeTagKey]: scopeTagValue };
+
+      // Private routes target this interface, so it outlives any single instance
+      const networkInterface = new aws.ec2.NetworkInterface(
+        `${name}-nat-eni-${i}`,
+        {
+          subnetId: subnet.id,
+          securityGroups: [securityGroup.id],
+          sourceDestCheck: false,
+          tags: {
+            ...this.defaultTags,
+            ...scopeTag,
+            Name: `${name}-nat-eni-${i}`,
+          },
+        },
+        { parent: this }
+      );
+
+      const eip = new aws.ec2.Eip(
+        `${name}-nat-eip-${i}`,
+        {
+          domain: 'vpc',
+          tags: {
+            ...this.defaultTags,
+            ...scopeTag,
+            Name: `${name}-nat-eip-${i}`,
+          },
+        },
+        { parent: this }
+      );
+
+      // The instance may only manage its own interface and Elastic IP
+      const role = new aws.iam.Role(
+        `${name}-nat-role-${i}`,
+        {
+          assumeRolePolicy: policyDocumentToJson(
+            createTrustPolicy({ services: ['ec2.amazonaws.com'] })
+          ),
+          tags: this.defaultTags,
+        },
+        { parent: this }
+      );
+
+      new aws.iam.RolePolicy(
+        `${name}-nat-policy-${i}`,
+        {
+          role: role.id,
+          name: 'NatInstance',
+          policy: policyDocumentToJson(createNatInstancePolicy(scopeTagValue)),
+        },
+        { parent: this }
+      );
+
+      const instanceProfile = new aws.iam.InstanceProfile(
+        `${name}-nat-profile-${i}`,
+        {
+          role: role.name,
+          tags: this.defaultTags,
+        },
+        { parent: this }
+      );
+
+      // fck-nat reads the interface and Elastic IP to take over from its config file
+      const userData = pulumi
+        .all([networkInterface.id, eip.allocationId])
+        .apply(([eniId, eipId]) =>
+          Buffer.from(
+            [
+              '#!/bin/bash',
+              `echo "eni_id=${eniId}" >> /etc/fck-nat.conf`,
+              `echo "eip_id=${eipId}" >> /etc/fck-nat.conf`,
+              'service fck-nat restart',
+            ].join('\n')
+          ).toString('base64')
+        );
+
+      // Hardened instance: no SSH key, IMDSv2 only, encrypted root volume
+      const launchTemplate = new aws.ec2.LaunchTemplate(
+        `${name}-nat-lt-${i}`,
+        {
+          imageId,
+          instanceType: natInstanceConfig.instanceType ?? NAT_INSTANCE_DEFAULTS.instanceType,
+          iamInstanceProfile: { arn: instanceProfile.arn },
+          networkInterfaces: [
+            {
+              deviceIndex: 0,
+              subnetId: subnet.id,
+              securityGroups: [securityGroup.id],
+              associatePublicIpAddress: 'true',
+              deleteOnTermination: 'true',
+            },
+          ],
+          metadataOptions: {
+            httpEndpoint: 'enabled',
+            httpTokens: 'required',
+            httpPutResponseHopLimit: 1,
+          },
+          blockDeviceMappings: [
+            {
+              deviceName: '/dev/xvda',
+              ebs: {
+                encrypted: 'true',
+                volumeType: 'gp3',
+                deleteOnTermination: 'true',
+              },
+            },
+          ],
+          userData,
+          tagSpecifications: [
+            {
+              resourceType: 'instance',
+              tags: {
+                ...this.defaultTags,
+                ...scopeTag,
+                Name: `${name}-nat-${i}`,
+              },
+            },
+            {
+              resourceType: 'volume',
+              tags: this.defaultTags,
+            },
+          ],
+          tags: this.defaultTags,
+        },
+        { parent: this }
+      );
+
+      // A group of one replaces the instance if it fails, and rolls it when the template changes
+      autoScalingGroups.push(
+        new aws.autoscaling.Group(
+          `${name}-nat-asg-${i}`,
+          {
+            minSize: 1,
+            maxSize: 1,
+            desiredCapacity: 1,
+            vpcZoneIdentifiers: [subnet.id],
+            healthCheckType: 'EC2',
+            launchTemplate: {
+              id: launchTemplate.id,
+              version: launchTemplate.latestVersion.apply(version => `${version}`),
+            },
+            instanceRefresh: {
+              strategy: 'Rolling',
+              preferences: { minHealthyPercentage: 0 },
+            },
+          },
+          { parent: this, dependsOn: [this.internetGateway] }
+        )
+      );
+      networkInterfaces.push(networkInterface);
+    }
+
+    return { networkInterfaces, autoScalingGroups };
+  }
+
+  /**
+   * Create VPC Flow Logs delivered to CloudWatch Logs or S3
+   */
+  private createFlowLogs(flowLogConfig: VpcFlowLogConfig): {
+    flowLog: aws.ec2.FlowLog;
+    logGroup: aws.cloudwatch.LogGroup | undefined;
+    role: aws.iam.Role | undefined;
+    key: aws.kms.Key | undefined;
+  } {
+    const name = this.componentName;
+    const flowLogArgs = {
+      vpcId: this.vpc.id,
+      trafficType: flowLogConfig.trafficType ?? FLOW_LOG_DEFAULTS.trafficType,
+      maxAggregationInterval:
+        flowLogConfig.maxAggregationInterval ?? FLOW_LOG_DEFAULTS.maxAggregationInterval,
+      ...(flowLogConfig.logFormat && { logFormat: flowLogConfig.logFormat }),
+      tags: {
+        ...this.defaultTags,
+        Name: `${name}-flow-log`,
+      },
+    };
+
+    // S3 delivery uses the bucket policy, no role or log group needed
+    if ((flowLogConfig.destination ?? FLOW_LOG_DEFAULTS.destination) === 's3') {
+      const flowLog = new aws.ec2.FlowLog(
+        `${name}-flow-log`,
+        {
+          ...flowLogArgs,
+          logDestinationType: 's3',
+          logDestination: flowLogConfig.s3BucketArn!,
+        },
+        { parent: this }
+      );
+      return { flowLog, logGroup: undefined, role: undefined, key: undefined };
+    }
+
+    // Encrypt the log group with a dedicated, rotated key unless one is supplied
+    let key: aws.kms.Key | undefined;
+    if (!flowLogConfig.kmsKeyId) {
+      key = new aws.kms.Key(
+        `${name}-flow-logs-key`,
+        {
+          description: `Encrypts VPC flow logs for ${name}`,
+          enableKeyRotation: true,
+          deletionWindowInDays: 30,
+          policy: pulumi
+            .all([this.accountId, this.region])
+            .apply(([account, regionName]) =>
+              policyDocumentToJson(createLogGroupKeyPolicy(account, regionName))
+            ),
+          tags: {
+            ...this.defaultTags,
+            Name: `${name}-flow-logs-key`,
+          },
+        },
+        { parent: this }
+      );
+    }
+
+    const logGroup = new aws.cloudwatch.LogGroup(
+      `${name}-flow-logs`,
+      {
+        name: flowLogConfig.logGroupName ?? `/aws/vpc/flow-logs/${name}`,
+        retentionInDays: flowLogConfig.retentionInDays ?? FLOW_LOG_DEFAULTS.retentionInDays,
+        kmsKeyId: flowLogConfig.kmsKeyId ?? key!.arn,
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-flow-logs`,
+        },
+      },
+      { parent: this }
+    );
+
+    // Delivery role trusted only by VPC Flow Logs in this account
+    const role = new aws.iam.Role(
+      `${name}-flow-logs-role`,
+      {
+        description: `Delivers VPC flow logs for ${name} to CloudWatch Logs`,
+        assumeRolePolicy: this.accountId.apply(account =>
+          policyDocumentToJson(createFlowLogTrustPolicy(account))
+        ),
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-flow-logs-role`,
+        },
+      },
+      { parent: this }
+    );
+
+    const rolePolicy = new aws.iam.RolePolicy(
+      `${name}-flow-logs-policy`,
+      {
+        role: role.id,
+        name: 'FlowLogDelivery',
+        policy: logGroup.arn.apply(arn => policyDocumentToJson(createFlowLogDeliveryPolicy(arn))),
+      },
+      { parent: this }
+    );
+
+    const flowLog = new aws.ec2.FlowLog(
+      `${name}-flow-log`,
+      {
+        ...flowLogArgs,
+        logDestinationType: 'cloud-watch-logs',
+        logDestination: logGroup.arn,
+        iamRoleArn: role.arn,
+      },
+      { parent: this, dependsOn: [rolePolicy] }
+    );
+
+    return { flowLog, logGroup, role, key };
+  }
+
+  /**
+   * Attach the VPC to a Transit Gateway and route the given destinations through it
+   */
+  private createTransitGatewayAttachment(
+    transitGatewayConfig: TransitGatewayConfig,
+    tiers: readonly SubnetTierConfig[],
+    enableIpv6: boolean
+  ): aws.ec2transitgateway.VpcAttachment {
+    const name = this.componentName;
+    const subnetTier = transitGatewayConfig.subnetTier ?? selectInfrastructureTier(tiers);
+    const associationRouteTableId = transitGatewayConfig.associationRouteTableId;
+    const propagationRouteTableIds = transitGatewayConfig.propagationRouteTableIds ?? [];
+    const propagations: [string, pulumi.Input<string>][] = Array.isArray(propagationRouteTableIds)
+      ? propagationRouteTableIds.map(routeTableId => [routeTableId, routeTableId])
+      : Object.entries(propagationRouteTableIds);
+
+    const attachment = new aws.ec2transitgateway.VpcAttachment(
+      `${name}-tgw-attachment`,
+      {
+        transitGatewayId: transitGatewayConfig.transitGatewayId,
+        vpcId: this.vpc.id,
+        subnetIds: [...this.subnetIdsByTier[subnetTier]!],
+        applianceModeSupport: transitGatewayConfig.applianceModeSupport ? 'enable' : 'disable',
+        dnsSupport: 'enable',
+        ipv6Support: enableIpv6 ? 'enable' : 'disable',
+        // Explicit route tables replace the Transit Gateway defaults
+        ...(associationRouteTableId !== undefined && {
+          transitGatewayDefaultRouteTableAssociation: false,
+        }),
+        ...(propagations.length > 0 && {
+          transitGatewayDefaultRouteTablePropagation: false,
+        }),
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-tgw-attachment`,
+        },
+      },
+      { parent: this }
+    );
+
+    if (associationRouteTableId !== undefined) {
+      new aws.ec2transitgateway.RouteTableAssociation(
+        `${name}-tgw-association`,
+        {
+          transitGatewayAttachmentId: attachment.id,
+          transitGatewayRouteTableId: associationRouteTableId,
+        },
+        { parent: this }
+      );
+    }
+
+    propagations.forEach(([key, routeTableId]) => {
+      new aws.ec2transitgateway.RouteTablePropagation(
+        `${name}-tgw-propagation-${key}`,
+        {
+          transitGatewayAttachmentId: attachment.id,
+          transitGatewayRouteTableId: routeTableId,
+        },
+        { parent: this }
+      );
+    });
+
+    // Route the destinations from every route table of the selected tiers
+    // Routes are named after their destination so reordering the list does not replace them
+    const routeTiers = transitGatewayConfig.routeTiers ?? selectRouteTiers(tiers);
+    for (const tierName of routeTiers) {
+      this.routeTables.byTier[tierName]!.forEach((routeTable, i) => {
+        for (const destination of transitGatewayConfig.destinationCidrBlocks ?? []) {
+          new aws.ec2.Route(
+            `${name}-${tierName}-tgw-route-${i}-${destination.replace(/[./]/g, '-')}`,
+            {
+              routeTableId: routeTable.id,
+              destinationCidrBlock: destination,
+              transitGatewayId: transitGatewayConfig.transitGatewayId,
+            },
+            { parent: this, dependsOn: [attachment] }
+          );
+        }
+      });
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Create the private hosted zone, Resolver endpoints with forwarding rules and query logging
+   */
+  private createDns(
+    dnsConfig: VpcDnsConfig,
+    tiers: readonly SubnetTierConfig[],
+    cidrBlock: string
+  ): {
+    privateHostedZone: aws.route53.Zone | undefined;
+    inboundEndpoint: aws.route53.ResolverEndpoint | undefined;
+    outboundEndpoint: aws.route53.ResolverEndpoint | undefined;
+    rules: aws.route53.ResolverRule[];
+    queryLogConfig: aws.route53.ResolverQueryLogConfig | undefined;
+    logGroup: aws.cloudwatch.LogGroup | undefined;
+    key: aws.kms.Key | undefined;
+  } {
+    const name = this.componentName;
+
+    const privateHostedZone =
+      dnsConfig.privateZoneName !== undefined
+        ? new aws.route53.Zone(
+            `${name}-private-zone`,
+            {
+              name: dnsConfig.privateZoneName,
+              comment: `Private hosted zone for ${name}`,
+              vpcs: [{ vpcId: this.vpc.id, vpcRegion: this.region }],
+              tags: {
+                ...this.defaultTags,
+                Name: `${name}-private-zone`,
+              },
+            },
+            { parent: this }
+          )
+        : undefined;
+
+    // Resolver endpoints need two IP addresses, so a single-AZ tier gets both in one subnet
+    const subnetTier = dnsConfig.subnetTier ?? selectInfrastructureTier(tiers);
+    const subnetIds = this.subnetIdsByTier[subnetTier]!;
+    const ipAddresses = (subnetIds.length > 1 ? subnetIds : [subnetIds[0]!, subnetIds[0]!]).map(
+      subnetId => ({ subnetId })
+    );
+
+    const createEndpoint = (
+      direction: 'inbound' | 'outbound',
+      rules: readonly { cidr: string; port: number }[]
+    ): aws.route53.ResolverEndpoint => {
+      const securityGroup = new aws.ec2.SecurityGroup(
+        `${name}-resolver-${direction}-sg`,
+        {
+          vpcId: this.vpc.id,
+          description: `Route 53 Resolver ${direction} endpoint for ${name}`,
+          tags: {
+            ...this.defaultTags,
+            Name: `${name}-resolver-${direction}-sg`,
+          },
+        },
+        { parent: this }
+      );
+
+      // DNS uses UDP, and TCP for large responses; rules are named after the peer they allow
+      const uniqueRules = rules.filter(
+        (rule, i) =>
+          rules.findIndex(other => other.cidr === rule.cidr && other.port === rule.port) === i
+      );
+      uniqueRules.forEach(({ cidr, port }) => {
+        const peer = `${cidr.replace(/[./]/g, '-')}${port === 53 ? '' : `-${port}`}`;
+        for (const protocol of ['udp', 'tcp'] as const) {
+          const ruleArgs = {
+            securityGroupId: securityGroup.id,
+            description: `DNS ${direction === 'inbound' ? 'to' : 'from'} the Resolver endpoint`,
+            ipProtocol: protocol,
+            fromPort: port,
+            toPort: port,
+            cidrIpv4: cidr,
+            tags: this.defaultTags,
+          };
+          const ruleName = `${name}-resolver-${direction}-dns-${protocol}-${peer}`;
+          if (direction === 'inbound') {
+            new aws.vpc.SecurityGroupIngressRule(ruleName, ruleArgs, { parent: this });
+          } else {
+            new aws.vpc.SecurityGroupEgressRule(ruleName, ruleArgs, { parent: this });
+          }
+        }
+      });
+
+      return new aws.route53.ResolverEndpoint(
+        `${name}-resolver-${direction}`,
+        {
+          name: `${name}-${direction}`,
+          direction: direction === 'inbound' ? 'INBOUND' : 'OUTBOUND',
+          securityGroupIds: [securityGroup.id],
+          ipAddresses,
+          tags: {
+            ...this.defaultTags,
+            Name: `${name}-resolver-${direction}`,
+          },
+        },
+        { parent: this }
+      );
+    };
+
+    const inboundEndpoint =
+      (dnsConfig.inboundEndpoint ?? DNS_DEFAULTS.inboundEndpoint)
+        ? createEndpoint(
+            'inbound',
+            (dnsConfig.inboundAllowedCidrBlocks ?? [cidrBlock]).map(cidr => ({ cidr, port: 53 }))
+          )
+        : undefined;
+
+    // The outbound endpoint only reaches the resolvers named in the forwarding rules
+    const forwardingRules = dnsConfig.forwardingRules ?? [];
+    const targets = forwardingRules.flatMap(rule =>
+      rule.targetIps.map(ip => ({
+        cidr: `${ip}/32`,
+        port: rule.port ?? DNS_DEFAULTS.forwardingPort,
+      }))
+    );
+    const outboundEndpoint =
+      (dnsConfig.outboundEndpoint ?? forwardingRules.length > 0)
+        ? createEndpoint('outbound', targets)
+        : undefined;
+
+    // Rules are named after their domain, so reordering them keeps them in place
+    const rules = forwardingRules.map(forwardingRule => {
+      const domain = forwardingRule.domainName.toLowerCase().replace(/\./g, '-');
+      const rule = new aws.route53.ResolverRule(
+        `${name}-resolver-rule-${domain}`,
+        {
+          name: `${name}-${forwardingRule.domainName.replace(/\./g, '-')}`,
+          domainName: forwardingRule.domainName,
+          ruleType: 'FORWARD',
+          resolverEndpointId: outboundEndpoint!.id,
+          targetIps: forwardingRule.targetIps.map(ip => ({
+            ip,
+            port: forwardingRule.port ?? DNS_DEFAULTS.forwardingPort,
+          })),
+          tags: {
+            ...this.defaultTags,
+            Name: `${name}-resolver-rule-${domain}`,
+          },
+        },
+        { parent: this }
+      );
+
+      new aws.route53.ResolverRuleAssociation(
+        `${name}-resolver-rule-association-${domain}`,
+        {
+          resolverRuleId: rule.id,
+          vpcId: this.vpc.id,
+        },
+        { parent: this }
+      );
+
+      return rule;
+    });
+
+    const queryLogging = dnsConfig.queryLogging ?? {};
+    if (!(queryLogging.enabled ?? DNS_DEFAULTS.queryLogging)) {
+      return {
+        privateHostedZone,
+        inboundEndpoint,
+        outboundEndpoint,
+        rules,
+        queryLogConfig: undefined,
+        logGroup: undefined,
+        key: undefined,
+      };
+    }
+
+    // The flow log key already allows CloudWatch Logs to use it for any log group in the account
+    let key: aws.kms.Key | undefined;
+    if (!queryLogging.kmsKeyId && !this.flowLogKey) {
+      key = new aws.kms.Key(
+        `${name}-dns-logs-key`,
+        {
+          description: `Encrypts DNS query logs for ${name}`,
+          enableKeyRotation: true,
+          deletionWindowInDays: 30,
+          policy: pulumi
+            .all([this.accountId, this.region])
+            .apply(([account, regionName]) =>
+              policyDocumentToJson(createLogGroupKeyPolicy(account, regionName))
+            ),
+          tags: {
+            ...this.defaultTags,
+            Name: `${name}-dns-logs-key`,
+          },
+        },
+        { parent: this }
+      );
+    }
+
+    const logGroup = new aws.cloudwatch.LogGroup(
+      `${name}-dns-query-logs`,
+      {
+        name: queryLogging.logGroupName ?? `/aws/route53/resolver/${name}`,
+        retentionInDays: queryLogging.retentionInDays ?? DNS_DEFAULTS.retentionInDays,
+        kmsKeyId: queryLogging.kmsKeyId ?? (key ?? this.flowLogKey)!.arn,
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-dns-query-logs`,
+        },
+      },
+      { parent: this }
+    );
+
+    const queryLogConfig = new aws.route53.ResolverQueryLogConfig(
+      `${name}-dns-query-log-config`,
+      {
+        name: `${name}-dns-query-logs`,
+        destinationArn: logGroup.arn,
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-dns-query-log-config`,
+        },
+      },
+      { parent: this }
+    );
+
+    new aws.route53.ResolverQueryLogConfigAssociation(
+      `${name}-dns-query-log-association`,
+      {
+        resolverQueryLogConfigId: queryLogConfig.id,
+        resourceId: this.vpc.id,
+      },
+      { parent: this }
+    );
+
+    return {
+      privateHostedZone,
+      inboundEndpoint,
+      outboundEndpoint,
+      rules,
+      queryLogConfig,
+      logGroup,
+      key,
+    };
+  }
+
+  /**
+   * Create the Network Firewall, its policy and rule groups in the firewall tier
+   */
+  private createNetworkFirewall(
+    firewallConfig: NetworkFirewallConfig,
+    subnets: readonly aws.ec2.Subnet[],
+    cidrBlock: string,
+    availabilityZones: pulumi.Output<string[]>
+  ): {
+    firewall: aws.networkfirewall.Firewall;
+    policy: aws.networkfirewall.FirewallPolicy;
+    endpointIdIn: (index: number) => pulumi.Output<string>;
+  } {
+    const name = this.componentName;
+    // Rules match HOME_NET as the source, which must be the VPC and not the firewall's own subnets
+    const ruleVariables = { ipSets: [{ key: 'HOME_NET', ipSet: { definitions: [cidrBlock] } }] };
+    const statefulRuleOptions = { ruleOrder: 'STRICT_ORDER' };
+    const ruleGroupReferences: { priority: number; resourceArn: pulumi.Output<string> }[] = [];
+
+    const allowedDomains = firewallConfig.allowedDomains ?? [];
+    if (allowedDomains.length > 0) {
+      // Each domain becomes one HTTP and one TLS rule
+      const domainRuleGroup = new aws.networkfirewall.RuleGroup(
+        `${name}-firewall-domains`,
+        {
+          type: 'STATEFUL',
+          capacity: Math.max(100, allowedDomains.length * 2),
+          description: `Domains reachable from ${name}`,
+          ruleGroup: {
+            ruleVariables,
+            rulesSource: {
+              rulesSourceList: {
+                generatedRulesType: 'ALLOWLIST',
+                targetTypes: ['HTTP_HOST', 'TLS_SNI'],
+                targets: [...allowedDomains],
+              },
+            },
+            statefulRuleOptions,
+          },
+          tags: {
+            ...this.defaultTags,
+            Name: `${name}-firewall-domains`,
+          },
+        },
+        { parent: this }
+      );
+      ruleGroupReferences.push({ priority: 100, resourceArn: domainRuleGroup.arn });
+    }
+
+    if (firewallConfig.suricataRules) {
+      const suricataRuleGroup = new aws.networkfirewall.RuleGroup(
+        `${name}-firewall-suricata`,
+        {
+          type: 'STATEFUL',
+          capacity:
+            firewallConfig.suricataRuleCapacity ?? NETWORK_FIREWALL_DEFAULTS.suricataRuleCapacity,
+          description: `Suricata rules for ${name}`,
+          ruleGroup: {
+            ruleVariables,
+            rulesSource: {
+              rulesString: firewallConfig.suricataRules,
+            },
+            statefulRuleOptions,
+          },
+          tags: {
+            ...this.defaultTags,
+            Name: `${name}-firewall-suricata`,
+          },
+        },
+        { parent: this }
+      );
+      ruleGroupReferences.push({ priority: 200, resourceArn: suricataRuleGroup.arn });
+    }
+
+    // Stateless rules hand everything to the stateful engine, which evaluates groups in priority order
+    const defaultAction = firewallConfig.defaultAction ?? NETWORK_FIREWALL_DEFAULTS.defaultAction;
+    const policy = new aws.networkfirewall.FirewallPolicy(
+      `${name}-firewall-policy`,
+      {
+        description: `Inspects internet traffic for ${name}`,
+        firewallPolicy: {
+          statelessDefaultActions: ['aws:forward_to_sfe'],
+          statelessFragmentDefaultActions: ['aws:forward_to_sfe'],
+          statefulEngineOptions: { ruleOrder: 'STRICT_ORDER' },
+          statefulDefaultActions:
+            defaultAction === 'drop'
+              ? ['aws:drop_established', 'aws:alert_established']
+              : ['aws:alert_established'],
+          statefulRuleGroupReferences: ruleGroupReferences,
+        },
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-firewall-policy`,
+        },
+      },
+      { parent: this }
+    );
+
+    const firewall = new aws.networkfirewall.Firewall(
+      `${name}-firewall`,
+      {
+        vpcId: this.vpc.id,
+        firewallPolicyArn: policy.arn,
+        subnetMappings: subnets.map(subnet => ({ subnetId: subnet.id, ipAddressType: 'IPV4' })),
+        deleteProtection:
+          firewallConfig.deleteProtection ?? NETWORK_FIREWALL_DEFAULTS.deleteProtection,
+        description: `Network Firewall for ${name}`,
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-firewall`,
+        },
+      },
+      { parent: this }
+    );
+
+    // Endpoints are only reported per AZ, so match them to the subnets by zone name
+    const endpointIdIn = (index: number): pulumi.Output<string> =>
+      availabilityZones.apply(zones =>
+        firewall.firewallStatuses.apply(statuses => {
+          const zone = zones[index]!;
+          const endpointId = statuses[0]?.syncStates.find(
+            syncState => syncState.availabilityZone === zone
+          )?.attachments[0]?.endpointId;
+          if (endpointId === undefined) {
+            throw new Error(`Network Firewall for ${name} has no endpoint in ${zone}`);
+          }
+          return endpointId;
+        })
+      );
+
+    return { firewall, policy, endpointIdIn };
+  }
+
+  /**
+   * Deliver Network Firewall alert and flow logs to CloudWatch Logs or S3
+   */
+  private createNetworkFirewallLogging(
+    firewall: aws.networkfirewall.Firewall,
+    firewallConfig: NetworkFirewallConfig
+  ): {
+    logGroups: Partial<Record<NetworkFirewallLogType, aws.cloudwatch.LogGroup>>;
+    key: aws.kms.Key | undefined;
+  } {
+    const name = this.componentName;
+    const logging = firewallConfig.logging ?? {};
+    const logTypes = logging.logTypes ?? NETWORK_FIREWALL_DEFAULTS.logTypes;
+
+    if ((logging.destination ?? NETWORK_FIREWALL_DEFAULTS.logDestination) === 's3') {
+      const prefix = logging.s3Prefix ?? `network-firewall/${name}`;
+      new aws.networkfirewall.LoggingConfiguration(
+        `${name}-firewall-logging`,
+        {
+          firewallArn: firewall.arn,
+          loggingConfiguration: {
+            logDestinationConfigs: logTypes.map(logType => ({
+              logType,
+              logDestinationType: 'S3',
+              logDestination: { bucketName: logging.s3BucketName!, prefix },
+            })),
+          },
+        },
+        { parent: this }
+      );
+      return { logGroups: {}, key: undefined };
+    }
+
+    // Reuse a key this component already created for log groups
+    const existingKey = this.flowLogKey ?? this.dnsQueryLogKey;
+    let key: aws.kms.Key | undefined;
+    if (!logging.kmsKeyId && !existingKey) {
+      key = new aws.kms.Key(
+        `${name}-firewall-logs-key`,
+        {
+          description: `Encrypts Network Firewall logs for ${name}`,
+          enableKeyRotation: true,
+          deletionWindowInDays: 30,
+          policy: pulumi
+            .all([this.accountId, this.region])
+            .apply(([account, regionName]) =>
+              policyDocumentToJson(createLogGroupKeyPolicy(account, regionName))
+            ),
+          tags: {
+            ...this.defaultTags,
+            Name: `${name}-firewall-logs-key`,
+          },
+        },
+        { parent: this }
+      );
+    }
+
+    const logGroups: Partial<Record<NetworkFirewallLogType, aws.cloudwatch.LogGroup>> = {};
+    for (const logType of logTypes) {
+      const suffix = logType.toLowerCase();
+      logGroups[logType] = new aws.cloudwatch.LogGroup(
+        `${name}-firewall-${suffix}-logs`,
+        {
+          name: `/aws/network-firewall/${name}/${suffix}`,
+          retentionInDays: logging.retentionInDays ?? NETWORK_FIREWALL_DEFAULTS.retentionInDays,
+          kmsKeyId: logging.kmsKeyId ?? (key ?? existingKey)!.arn,
+          tags: {
+            ...this.defaultTags,
+            Name: `${name}-firewall-${suffix}-logs`,
+          },
+        },
+        { parent: this }
+      );
+    }
+
+    new aws.networkfirewall.LoggingConfiguration(
+      `${name}-firewall-logging`,
+      {
+        firewallArn: firewall.arn,
+        loggingConfiguration: {
+          logDestinationConfigs: logTypes.map(logType => ({
+            logType,
+            logDestinationType: 'CloudWatchLogs',
+            logDestination: { logGroup: logGroups[logType]!.name },
+          })),
+        },
+      },
+      { parent: this }
+    );
+
+    return { logGroups, key };
+  }
+
+  /**
+   * Create gateway and interface VPC endpoints
+   */
+  private createVpcEndpoints(
+    endpointConfig: VpcEndpointsConfig,
+    tiers: readonly SubnetTierConfig[],
+    cidrBlock: string
+  ): {
+    endpoints: Record<string, aws.ec2.VpcEndpoint>;
+    securityGroup: aws.ec2.SecurityGroup | undefined;
+  } {
+    const name = this.componentName;
+    const endpoints: Record<string, aws.ec2.VpcEndpoint> = {};
+    const policyFor = (service: string): string | undefined => {
+      const policy = endpointConfig.policies?.[service];
+      return policy && policyDocumentToJson(policy);
+    };
+
+    // Gateway endpoints are routed from the private and isolated route tables
+    const routeTableIds = [...this.routeTables.private, ...this.routeTables.isolated].map(
+      routeTable => routeTable.id
+    );
+
+    for (const service of endpointConfig.gatewayEndpoints ??
+      VPC_ENDPOINT_DEFAULTS.gatewayEndpoints) {
+      endpoints[service] = new aws.ec2.VpcEndpoint(
+        `${name}-${service}-endpoint`,
+        {
+          vpcId: this.vpc.id,
+          serviceName: pulumi.interpolate`com.amazonaws.${this.region}.${service}`,
+          vpcEndpointType: 'Gateway',
+          routeTableIds,
+          policy:
+            policyFor(service) ??
+            this.accountId.apply(account =>
+              policyDocumentToJson(createAccountScopedEndpointPolicy(account))
+            ),
+          tags: {
+            ...this.defaultTags,
+            Name: `${name}-${service}-endpoint`,
+          },
+        },
+        { parent: this }
+      );
+    }
+
+    const interfaceEndpoints =
+      endpointConfig.interfaceEndpoints ?? VPC_ENDPOINT_DEFAULTS.interfaceEndpoints;
+    if (interfaceEndpoints.length === 0) {
+      return { endpoints, securityGroup: undefined };
+    }
+
+    // Interface endpoints only accept HTTPS from inside the VPC and have no egress
+    const securityGroup = new aws.ec2.SecurityGroup(
+      `${name}-endpoints-sg`,
+      {
+        vpcId: this.vpc.id,
+        description: `VPC interface endpoints for ${name}`,
+        tags: {
+          ...this.defaultTags,
+          Name: `${name}-endpoints-sg`,
+        },
+      },
+      { parent: this }
+    );
+
+    // Rules are named after the CIDR they allow, so reordering the list keeps them in place
+    new Set(endpointConfig.allowedCidrBlocks ?? [cidrBlock]).forEach(cidr => {
+      new aws.vpc.SecurityGroupIngressRule(
+        `${name}-endpoints-https-${cidr.replace(/[./]/g, '-')}`,
+        {
+          securityGroupId: securityGroup.id,
+          description: 'HTTPS to VPC interface endpoints',
+          ipProtocol: 'tcp',
+          fromPort: 443,
+          toPort: 443,
+          cidrIpv4: cidr,
+          tags: this.defaultTags,
+        },
+        { parent: this }
+      );
+    });
+
+    // Place endpoint network interfaces in the private tier, or the isolated tier without one
+    const subnetTier = endpointConfig.subnetTier ?? selectInfrastructureTier(tiers);
+
+    for (const service of interfaceEndpoints) {
+      const policy = policyFor(service);
+      const resourceName = `${name}-${service.replace(/\./g, '-')}-endpoint`;
+
+      endpoints[service] = new aws.ec2.VpcEndpoint(
+        resourceName,
+        {
+          vpcId: this.vpc.id,
+          serviceName: pulumi.interpolate`com.amazonaws.${this.region}.${service}`,
+          vpcEndpointType: 'Interface',
+          subnetIds: [...this.subnetIdsByTier[subnetTier]!],
+          securityGroupIds: [securityGroup.id],
+          privateDnsEnabled:
+            endpointConfig.privateDnsEnabled ?? VPC_ENDPOINT_DEFAULTS.privateDnsEnabled,
+          ...(policy && { policy }),
+          tags: {
+            ...this.defaultTags,
+            Name: resourceName,
+          },
+        },
+        { parent: this }
+      );
+    }
+
+    return { endpoints, securityGroup };
+  }
+}
+
+/**
+ * Classifies an existing route table by where its IPv4 default route goes
+ * Only NAT Gateways and NAT instances make a tier private; default routes to anything else,
+ * such as a Transit Gateway or a firewall endpoint, are not known to reach the internet
+ */
+async function routingOf(
+  routeTable: aws.ec2.GetRouteTableResult,
+  opts: pulumi.InvokeOptions
+): Promise<SubnetRouting> {
+  const defaultRoute = routeTable.routes.find(route => route.cidrBlock === '0.0.0.0/0');
+  if (!defaultRoute) {
+    return 'none';
+  }
+  if (defaultRoute.gatewayId.startsWith('igw-')) {
+    return 'igw';
+  }
+  if (defaultRoute.natGatewayId) {
+    return 'nat';
+  }
+
+  // A NAT instance forwards traffic, so its source/destination check is off
+  const instanceId =
+    defaultRoute.instanceId ||
+    (defaultRoute.networkInterfaceId
+      ? (await aws.ec2.getNetworkInterface({ id: defaultRoute.networkInterfaceId }, opts))
+          .attachments[0]?.instanceId
+      : undefined);
+  if (instanceId) {
+    const instance = await aws.ec2.getInstance({ instanceId }, opts);
+    if (!instance.sourceDestCheck) {
+      return 'nat';
+    }
+  }
+  return 'none';
+}
+
+/**
+ * Converts a network ACL rule to the provider's rule format
+ */
+function toNetworkAclEntry(rule: NetworkAclRuleConfig): aws.types.input.ec2.NetworkAclIngress {
+  const entry = {
+    ruleNo: rule.ruleNumber,
+    action: rule.action,
+    ...(rule.cidrBlock !== undefined && { cidrBlock: rule.cidrBlock }),
+    ...(rule.ipv6CidrBlock !== undefined && { ipv6CidrBlock: rule.ipv6CidrBlock }),
+  };
+
+  switch (rule.protocol) {
+    case 'tcp':
+    case 'udp':
+      return {
+        ...entry,
+        protocol: rule.protocol,
+        fromPort: rule.fromPort!,
+        toPort: rule.toPort ?? rule.fromPort!,
+      };
+    case 'icmp':
+      return {
+        ...entry,
+        // IPv6 rules match ICMPv6 (protocol 58) instead
+        protocol: rule.ipv6CidrBlock !== undefined ? '58' : 'icmp',
+        fromPort: 0,
+        toPort: 0,
+        icmpType: rule.icmpType ?? -1,
+        icmpCode: rule.icmpCode ?? -1,
+      };
+    case 'all':
+      return { ...entry, protocol: '-1', fromPort: 0, toPort: 0 };
+  }
 }